@@ -1,11 +1,11 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 /**
  * StudioCast — Podcast Portal (Local‑First MVP)
  * Single‑file React component for Canvas preview.
  *
  * New in this revision (per client requirements):
- * 1) Login flow kept: any email; seeded admin admin@example.com; admin can promote/demote.
+ * 1) Sign-in with a password or OIDC; first run creates the admin, members join by invite; admin can promote/demote.
  * 2) Episode numbering is now **per‑series** (auto‑increment for each series separately).
  * 3) Project form adds **Before / After** side‑by‑side notes.
  * 4) Guests: added **photo upload/preview**, **planned questions**, **topics**.
@@ -15,18 +15,37 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
  */
 
 // ---------- Constants & Types ----------
-const STATUSES = ["draft", "active", "completed", "archived"] as const;
+// What a workflow stage means to the rest of the app (dashboard counts, calendar styling, iCal STATUS).
+const STAGE_KINDS = ["draft", "active", "completed", "archived"] as const;
+const STAGE_COLORS = ["zinc", "blue", "cyan", "violet", "amber", "emerald", "rose", "slate"] as const;
 const PRIORITIES = ["high", "medium", "low"] as const;
+const ROLES = ["admin", "producer", "member", "guest-viewer"] as const;
+const PARTICIPANT_ROLES = ["guest", "co-host", "moderator"] as const;
+const OUTREACH_STAGES = ["prospect", "contacted", "confirmed", "recorded", "declined", "thanked"] as const;
+const CONTACT_CHANNELS = ["email", "call", "message", "meeting", "other"] as const;
 
-type Status = typeof STATUSES[number];
+type Status = string; // id of a stage in the workspace workflow
+type StageKind = typeof STAGE_KINDS[number];
+type StageColor = typeof STAGE_COLORS[number];
 type Priority = typeof PRIORITIES[number];
+type Role = typeof ROLES[number];
+type ParticipantRole = typeof PARTICIPANT_ROLES[number];
+type OutreachStage = typeof OUTREACH_STAGES[number];
+type ContactChannel = typeof CONTACT_CHANNELS[number];
 
 type User = {
   id: string;
   name: string;
   email: string;
-  role: "admin" | "member";
+  role: Role;
   createdAt: number;
+  passwordHash?: string; // "pbkdf2-sha256$<iterations>$<salt>$<hash>", see hashPassword
+  invite?: { token: string; expiresAt: number }; // pending until the invitee sets a password
+  oidcSubject?: string; // `sub` claim of a linked OIDC identity
+  timezone?: string; // preferred IANA zone for displaying times; defaults to the browser's
+  updatedAt?: number;
+  deletedAt?: number; // set while the record sits in the Trash
+  deletedBy?: string; // user id
 };
 
 type Guest = {
@@ -37,102 +56,2892 @@ type Guest = {
   bio?: string;
   socials?: string;
   notes?: string;
-  photoDataUrl?: string; // base64 preview saved locally
+  photoId?: string; // blob key in the active storage adapter
+  photoDataUrl?: string; // legacy base64 photo, moved into blob storage on startup
   plannedQuestions?: string;
   topics?: string;
+  timezone?: string; // IANA zone, for showing session times in the guest's local time
+  outreach?: OutreachStage; // booking pipeline; absent means "prospect"
+  followUp?: { due: string /* YYYY-MM-DD */; note?: string };
+  contactLog?: GuestContact[]; // newest first
   createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number;
+  deletedBy?: string;
 };
 
-type Checklist = {
-  research: boolean;
-  questions: boolean;
-  equipment: boolean;
-  thumbnails: boolean;
+type GuestContact = {
+  id: string;
+  on: string; // YYYY-MM-DD
+  channel: ContactChannel;
+  summary: string;
+  projectId?: string; // the episode the conversation was about
+  byId?: string;      // team member who logged it
+};
+
+// A guest appearing on an episode, in the order they are billed.
+type Participant = { guestId: string; role: ParticipantRole };
+
+// A project's own copy of its series' checklist template; editing the template later doesn't touch it.
+type ChecklistItem = {
+  id: string;
+  label: string;
+  done: boolean;
+  assigneeId?: string;
+  due?: string; // YYYY-MM-DD
+};
+type Checklist = ChecklistItem[];
+
+type ChecklistTemplateItem = {
+  id: string;
+  label: string;
+  assigneeId?: string;     // default assignee for new episodes
+  dueDaysBefore?: number;  // due this many days before the record date, when one is set
+};
+
+// An instant plus the IANA zone it was planned in. The zone only matters for display and for
+// keeping the wall-clock time when an event is moved to another day.
+type ScheduledTime = { at: string /* ISO 8601, UTC */; tz: string };
+
+const EPISODE_TYPES = ["full", "bonus", "trailer"] as const; // the <itunes:episodeType> values
+type EpisodeType = typeof EPISODE_TYPES[number];
+
+type Project = {
+  id: string;
+  title: string;
+  series: string; // NEW: per‑series grouping
+  episodeNumber: number; // per series (and season), reserved on first save; 0 for bonus and trailer episodes
+  season?: number; // seasons number their episodes separately: S02E05
+  episodeType?: EpisodeType; // absent means "full"
+  description?: string;
+  beforeNotes?: string; // NEW side‑by‑side
+  afterNotes?: string;  // NEW side‑by‑side
+  status: Status;
+  priority: Priority;
+  tags: string[];
+  scheduledRecordAt?: ScheduledTime;
+  scheduledPublishAt?: ScheduledTime;
+  durationEstimateMin?: number;
+  participants: Participant[];
+  assigneeId?: string; // team member who owns the episode
+  checklist: Checklist;
+  progressPct: number;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number;
+  deletedBy?: string;
+  externalUid?: string; // UID of the calendar event this project was imported from
+  boardRank?: number; // position within its status column on the board; unranked cards go last
+  enclosure?: Enclosure; // the published audio file, for the podcast feed
+  durationSec?: number; // running time of the published audio
+  attachments?: AudioAttachment[]; // recordings kept on this device; only their metadata syncs
+  chapters?: Chapter[]; // kept sorted by start time
+  links?: ShowNoteLink[];
+  credits?: Credit[]; // people besides the booked guests, e.g. editor or music
+};
+
+type Chapter = {
+  id: string;
+  startSec: number;
+  title: string;
+  url?: string;      // link shown with the chapter
+  imageUrl?: string; // chapter art, for apps that show it
+  hidden?: boolean;  // left out of tables of contents (`"toc": false`), e.g. ad breaks
+};
+type ShowNoteLink = { id: string; label: string; url: string };
+type Credit = { id: string; name: string; role: string; url?: string };
+
+type Enclosure = {
+  url: string;       // public http(s) URL of the file
+  bytes?: number;    // file size; the RSS enclosure length
+  mimeType?: string; // guessed from the file extension when absent
+};
+
+// A show. Projects refer to their series by name, so a rename also updates every episode and the
+// episode counter (see `renameSeriesProjects`).
+type Series = {
+  id: string;
+  name: string;
+  slug: string; // unique, URL-safe; used for file names and links
+  description?: string;
+  artworkId?: string; // blob key in the active storage adapter
+  checklist?: ChecklistTemplateItem[]; // template for new episodes; absent means DEFAULT_CHECKLIST_TEMPLATE
+  defaultDurationMin?: number;
+  hostIds: string[]; // team members who host the show
+  archivedAt?: number; // archived series are left out of pickers; their episodes are untouched
+  feed?: FeedSettings;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const AUDIO_KINDS = ["raw", "master"] as const;
+type AudioKind = typeof AUDIO_KINDS[number];
+
+type AudioTags = { title?: string; artist?: string; album?: string; year?: string; track?: string; genre?: string; comment?: string };
+
+// A recording attached to a project. The file itself is a blob in the active storage adapter; the
+// rest is read from it once, on upload.
+type AudioAttachment = {
+  id: string;
+  blobId: string;
+  name: string;     // original file name
+  kind: AudioKind;  // at most one master per project; its measurements feed the project and the RSS enclosure
+  mimeType: string;
+  bytes: number;
+  durationSec?: number;
+  sampleRate?: number;
+  channels?: number;
+  peaks?: number[]; // 0–1 per waveform bar, so the preview doesn't decode the file again
+  tags?: AudioTags; // from ID3v2, or ID3v1 when that is all the file has
+  addedAt: number;
+};
+
+// Channel details for the series' podcast feed (see `buildPodcastFeed`).
+type FeedSettings = {
+  feedUrl?: string;    // where the feed is hosted; written as the atom:link rel="self"
+  siteUrl?: string;
+  artworkUrl?: string; // public URL of the cover art; Apple wants a 1400–3000 px square
+  language?: string;   // e.g. "en-us"
+  author?: string;     // defaults to the hosts' names
+  ownerName?: string;
+  ownerEmail?: string;
+  category?: string;   // Apple Podcasts category; "Parent > Child" for a subcategory
+  explicit?: boolean;
+  showType?: "episodic" | "serial";
+  copyright?: string;
+  podcastGuid?: string; // <podcast:guid>; assigned once and never changed, even if the feed moves
+  locked?: boolean;     // <podcast:locked>: other hosting platforms may not import the feed
+};
+
+type SyncConfig = {
+  enabled?: boolean;
+  endpoint?: string; // base URL of a StudioCast sync server, e.g. http://localhost:8787
+  token?: string;    // optional bearer token
+};
+
+type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  redirectUri?: string; // defaults to the current page
+};
+
+type Settings = {
+  openaiKey?: string;
+  enableChat?: boolean;
+  sync?: SyncConfig;
+  oidc?: OidcConfig;
+  studioTimezone?: string; // IANA zone the studio works in; defaults to the browser's
+  wipLimits?: Partial<Record<Status, number>>; // max cards per board column
+  workflow?: Workflow; // project stages and the moves between them; defaults to DEFAULT_WORKFLOW
+  checklistTemplates?: Record<string, ChecklistTemplateItem[]>; // legacy, by series name; moved onto Series.checklist on startup
+  notDuplicateGuests?: string[]; // "olderId|newerId" pairs dismissed in the duplicate review
+};
+
+const LS_KEYS = {
+  users: "pp_users_v1",
+  projects: "pp_projects_v2", // bump schema due to series/before/after
+  guests: "pp_guests_v2",     // bump schema due to photos/questions/topics
+  series: "pp_series_v1",
+  session: "pp_session_v1",
+  seq: "pp_sequence_v1",      // legacy global
+  seqMap: "pp_series_seq_map_v1", // NEW per‑series counters
+  settings: "pp_settings_v1", // stores OpenAI key and chat toggle
+  migrationReport: "pp_migration_report_v1", // last startup upgrade, shown once
+  syncState: "pp_sync_state_v1",              // offline queue, cursor and conflicts
+  activity: "pp_activity_v1",                 // append-only audit log
+  heldBlobs: "pp_held_blobs_v1",              // blob ids only the undo history still refers to
+} as const;
+
+// Read synchronously at startup, so it always lives in localStorage itself.
+const STORAGE_BACKEND_KEY = "pp_storage_backend_v1";
+
+// ---------- Utilities ----------
+const uid = (prefix = "id") => `${prefix}_${Math.random().toString(36).slice(2, 10)}_${Date.now()}`;
+const now = () => Date.now();
+const classNames = (...xs: (string | false | undefined)[]) => xs.filter(Boolean).join(" ");
+const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename;
+  a.click(); URL.revokeObjectURL(url);
+};
+
+// ---------- Storage adapters ----------
+// `load`/`save` stay synchronous: they read and write an in‑memory copy that `initStorage` hydrates
+// from the active adapter, and every `save` is persisted in the background. Failed writes are
+// reported to `onStorageError` listeners instead of being swallowed.
+type StorageBackend = "localStorage" | "indexedDB";
+
+type StorageAdapter = {
+  name: StorageBackend;
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  getBlob: (id: string) => Promise<Blob | null>;
+  putBlob: (id: string, blob: Blob) => Promise<void>;
+  deleteBlob: (id: string) => Promise<void>;
+};
+
+type StorageError = { key: string; message: string; at: number };
+
+const BLOB_PREFIX = "pp_blob_";
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [head, body = ""] = dataUrl.split(",");
+  const mime = /data:([^;,]+)/.exec(head)?.[1] || "application/octet-stream";
+  if (!/;base64/.test(head)) return new Blob([decodeURIComponent(body)], { type: mime });
+  const bin = atob(body);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+}
+
+// Blobs are kept as data URLs here, which is exactly what runs into the quota on big photos.
+function createLocalStorageAdapter(ls: Pick<Storage, "getItem" | "setItem" | "removeItem"> = localStorage): StorageAdapter {
+  return {
+    name: "localStorage",
+    getItem: async key => ls.getItem(key),
+    setItem: async (key, value) => ls.setItem(key, value),
+    removeItem: async key => ls.removeItem(key),
+    getBlob: async id => { const raw = ls.getItem(BLOB_PREFIX + id); return raw ? dataUrlToBlob(raw) : null; },
+    putBlob: async (id, blob) => ls.setItem(BLOB_PREFIX + id, await blobToDataUrl(blob)),
+    deleteBlob: async id => ls.removeItem(BLOB_PREFIX + id),
+  };
+}
+
+const IDB_OPEN_TIMEOUT_MS = 10000;
+
+function createIndexedDbAdapter(dbName = "studiocast"): StorageAdapter {
+  // Another tab holding an older connection blocks the open indefinitely; give up rather than hang.
+  const db = new Promise<IDBDatabase>((resolve, reject) => {
+    let settled = false;
+    const fail = (err: unknown) => { if (!settled) { settled = true; reject(err); } };
+    const timer = setTimeout(() => fail(new Error(`IndexedDB did not open within ${IDB_OPEN_TIMEOUT_MS / 1000}s.`)), IDB_OPEN_TIMEOUT_MS);
+    const req = indexedDB.open(dbName, 1);
+    req.onupgradeneeded = () => { req.result.createObjectStore("kv"); req.result.createObjectStore("blobs"); };
+    req.onblocked = () => { clearTimeout(timer); fail(new Error("IndexedDB is blocked by another open StudioCast tab — close it and reload.")); };
+    req.onsuccess = () => {
+      clearTimeout(timer);
+      if (settled) { req.result.close(); return; }
+      settled = true;
+      resolve(req.result);
+    };
+    req.onerror = () => { clearTimeout(timer); fail(req.error); };
+  });
+  const read = async <T,>(store: string, key: string) => {
+    const tx = (await db).transaction(store, "readonly");
+    return new Promise<T | null>((resolve, reject) => {
+      const req = tx.objectStore(store).get(key);
+      req.onsuccess = () => resolve((req.result as T) ?? null);
+      req.onerror = () => reject(req.error);
+    });
+  };
+  // Resolve on transaction completion: quota errors only surface as an abort.
+  const write = async (store: string, op: (s: IDBObjectStore) => void) => {
+    const tx = (await db).transaction(store, "readwrite");
+    op(tx.objectStore(store));
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error("IndexedDB write aborted"));
+    });
+  };
+  return {
+    name: "indexedDB",
+    getItem: key => read<string>("kv", key),
+    setItem: (key, value) => write("kv", s => s.put(value, key)),
+    removeItem: key => write("kv", s => s.delete(key)),
+    getBlob: id => read<Blob>("blobs", id),
+    putBlob: (id, blob) => write("blobs", s => s.put(blob, id)),
+    deleteBlob: id => write("blobs", s => s.delete(id)),
+  };
+}
+
+const hasIndexedDb = () => typeof indexedDB !== "undefined";
+const preferredBackend = (): StorageBackend => {
+  const chosen = typeof localStorage !== "undefined" ? localStorage.getItem(STORAGE_BACKEND_KEY) : null;
+  if (chosen === "localStorage" || (chosen === "indexedDB" && hasIndexedDb())) return chosen;
+  return hasIndexedDb() ? "indexedDB" : "localStorage";
+};
+const createAdapter = (backend: StorageBackend) => backend === "indexedDB" ? createIndexedDbAdapter() : createLocalStorageAdapter();
+
+let storage: StorageAdapter = createLocalStorageAdapter();
+const memory = new Map<string, string>();
+const storageErrorListeners = new Set<(e: StorageError) => void>();
+
+const reportStorageError = (key: string, err: unknown) => {
+  const e: StorageError = { key, message: (err as any)?.message || String(err), at: now() };
+  storageErrorListeners.forEach(fn => fn(e));
+};
+const onStorageError = (fn: (e: StorageError) => void) => { storageErrorListeners.add(fn); return () => { storageErrorListeners.delete(fn); }; };
+// Set when the preferred backend could not be opened and this session fell back to localStorage.
+let storageFallback: StorageError | null = null;
+
+// Resolves to whether the write succeeded; failures are reported, never thrown.
+const track = (key: string, p: Promise<void>) => {
+  const tracked: Promise<boolean> = p.then(() => true, err => { reportStorageError(key, err); return false; })
+    .finally(() => pendingWrites.delete(tracked));
+  pendingWrites.add(tracked);
+  return tracked;
+};
+const pendingWrites = new Set<Promise<boolean>>();
+const flushStorage = () => Promise.all([...pendingWrites]).then(() => undefined);
+
+const load = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = memory.get(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+const save = <T,>(key: string, value: T) => {
+  const raw = JSON.stringify(value);
+  if (memory.get(key) === raw) return Promise.resolve(true);
+  memory.set(key, raw);
+  return track(key, storage.setItem(key, raw));
+};
+
+const putBlob = (id: string, blob: Blob) => track(`blob:${id}`, storage.putBlob(id, blob));
+const deleteBlob = (id: string) => track(`blob:${id}`, storage.deleteBlob(id));
+const getBlob = (id: string) => storage.getBlob(id).catch(() => null);
+
+async function hydrate(adapter: StorageAdapter) {
+  memory.clear();
+  for (const key of Object.values(LS_KEYS)) {
+    const raw = await adapter.getItem(key);
+    if (raw !== null) memory.set(key, raw);
+  }
+}
+
+// First run on IndexedDB: bring over whatever an older build kept in localStorage.
+// The legacy global counter stays put: `runMigrations` reads it from localStorage afterwards.
+async function importFromLocalStorage(adapter: StorageAdapter, ls: Pick<Storage, "getItem" | "removeItem"> = localStorage) {
+  for (const key of Object.values(LS_KEYS)) {
+    if (key === LS_KEYS.seq) continue;
+    const raw = ls.getItem(key);
+    if (raw === null || (await adapter.getItem(key)) !== null) continue;
+    await adapter.setItem(key, raw);
+    ls.removeItem(key);
+  }
+}
+
+// Guests used to carry their photo inline as base64; move those into blob storage.
+async function movePhotosToBlobs(): Promise<string[]> {
+  const guests = load<Guest[]>(LS_KEYS.guests, []);
+  const inline = guests.filter(g => g.photoDataUrl);
+  if (inline.length === 0) return [];
+  const moved = new Map<string, string>();
+  for (const g of inline) {
+    const id = uid("photo");
+    try { await storage.putBlob(id, dataUrlToBlob(g.photoDataUrl!)); moved.set(g.id, id); }
+    catch (err) { reportStorageError(`blob:${id}`, err); }
+  }
+  save(LS_KEYS.guests, guests.map(g => moved.has(g.id) ? { ...g, photoId: moved.get(g.id), photoDataUrl: undefined } : g));
+  return [`Moved ${moved.size} of ${inline.length} guest photos into ${storage.name} blob storage.`];
+}
+
+let storageReady: Promise<void> | null = null;
+function initStorage() {
+  storageReady ??= (async () => {
+    const backend = preferredBackend();
+    try {
+      storage = createAdapter(backend);
+      if (backend === "indexedDB" && localStorage.getItem(STORAGE_BACKEND_KEY) === null) await importFromLocalStorage(storage);
+      await hydrate(storage);
+      localStorage.setItem(STORAGE_BACKEND_KEY, storage.name);
+    } catch (err) {
+      // Leave the stored choice alone so the next load tries the preferred backend again.
+      storageFallback = { key: backend, message: (err as any)?.message || String(err), at: now() };
+      reportStorageError("init", err);
+      storage = createLocalStorageAdapter();
+      await hydrate(storage);
+    }
+    const report = runMigrations();
+    const extra = [
+      { step: "Guest photos → blob storage", details: await movePhotosToBlobs() },
+      { step: "Schedules → time-zone aware instants", details: upgradeStoredSchedules() },
+      { step: "Checklists → template items", details: upgradeStoredChecklists() },
+      { step: "Project guest → participants", details: upgradeStoredParticipants() },
+      { step: "Series names → series records", details: upgradeStoredSeries() },
+    ].filter(x => x.details.length);
+    if (extra.length) save(LS_KEYS.migrationReport, { ranAt: now(), entries: [...(report?.entries || []), ...extra], seen: false });
+  })();
+  return storageReady;
+}
+
+// Copy every key and the given blobs to another backend, then make it the active one.
+async function switchBackend(target: StorageBackend, blobIds: string[]) {
+  const next = createAdapter(target);
+  for (const [key, raw] of memory) await next.setItem(key, raw);
+  for (const id of blobIds) { const b = await storage.getBlob(id); if (b) await next.putBlob(id, b); }
+  localStorage.setItem(STORAGE_BACKEND_KEY, target);
+  storage = next;
+}
+
+const calcProgress = (c: Checklist) => c.length ? Math.round((c.filter(i => i.done).length / c.length) * 100) : 0;
+
+// Per‑series (and per-season) episode sequencing. Drafts only peek at the next number; it is
+// reserved when the episode is first saved, so discarded drafts don't leave gaps.
+const peekEpisodeNumber = (series: string, season?: number) => (load<Record<string, number>>(LS_KEYS.seqMap, {})[seqKey(series, season)] || 0) + 1;
+
+function reserveEpisodeNumber(series: string, season: number | undefined, n: number) {
+  const map = load<Record<string, number>>(LS_KEYS.seqMap, {});
+  const key = seqKey(series, season);
+  if ((map[key] || 0) >= n) return;
+  save(LS_KEYS.seqMap, { ...map, [key]: n });
+}
+
+function nextEpisodeNumber(series: string, season?: number) {
+  const n = peekEpisodeNumber(series, season);
+  reserveEpisodeNumber(series, season, n);
+  return n;
+}
+
+// ---------- Schema migrations ----------
+// Each chain lists the storage keys a collection has lived under, oldest first. On startup any
+// older key still present is upgraded one step at a time into the current shape, merged into the
+// current key (existing ids win) and then removed. Add a step here whenever a key is bumped.
+type MigrationStep = { from: string; to: string; describe: string; up: (record: any) => any };
+type MigrationChain = { name: "projects" | "guests"; steps: MigrationStep[] };
+type MigrationReport = { ranAt: number; entries: { step: string; details: string[] }[]; seen: boolean };
+
+const DEFAULT_SERIES = "Main";
+
+function upgradeProjectV1(p: any): Project {
+  const checklist = legacyChecklist(p.checklist);
+  return {
+    ...p,
+    title: p.title || "",
+    series: p.series || DEFAULT_SERIES,
+    episodeNumber: Number(p.episodeNumber) || 0,
+    beforeNotes: p.beforeNotes ?? "",
+    afterNotes: p.afterNotes ?? "",
+    status: (STAGE_KINDS as readonly string[]).includes(p.status) ? p.status : "draft", // v1 predates custom workflows
+    priority: (PRIORITIES as readonly string[]).includes(p.priority) ? p.priority : "medium",
+    tags: Array.isArray(p.tags) ? p.tags : [],
+    checklist,
+    progressPct: calcProgress(checklist),
+    createdAt: p.createdAt || now(),
+    updatedAt: p.updatedAt || p.createdAt || now(),
+  };
+}
+
+function upgradeGuestV1(g: any): Guest {
+  return { ...g, name: g.name || "Unnamed guest", createdAt: g.createdAt || now() };
+}
+
+const MIGRATIONS: MigrationChain[] = [
+  { name: "projects", steps: [
+    { from: "pp_projects_v1", to: "pp_projects_v2", describe: "Projects v1 → v2 (series, before/after notes)", up: upgradeProjectV1 },
+  ] },
+  { name: "guests", steps: [
+    { from: "pp_guests_v1", to: "pp_guests_v2", describe: "Guests v1 → v2 (photo, planned questions, topics)", up: upgradeGuestV1 },
+  ] },
+];
+
+// Upgrade records stored under steps[start].from all the way to the newest shape.
+const upgradeFrom = (records: any[], steps: MigrationStep[], start: number) =>
+  steps.slice(start).reduce((list, step) => list.map(step.up), records);
+
+// Last used number per series: the highest of the stored counter, the legacy global counter
+// (which only ever numbered the default series) and the episodes actually present.
+function rebuildSeqMap(projects: Project[], existing: Record<string, number>, legacySeq = 0) {
+  const map = { ...existing };
+  if (legacySeq) map[DEFAULT_SERIES] = Math.max(map[DEFAULT_SERIES] || 0, legacySeq);
+  for (const p of projects.filter(isNumbered)) map[seqKey(p.series, p.season)] = Math.max(map[seqKey(p.series, p.season)] || 0, p.episodeNumber || 0);
+  return map;
+}
+
+function runMigrations(): MigrationReport | null {
+  const entries: MigrationReport["entries"] = [];
+  for (const chain of MIGRATIONS) {
+    const currentKey = chain.steps[chain.steps.length - 1].to;
+    chain.steps.forEach((step, i) => {
+      const raw = localStorage.getItem(step.from);
+      if (raw === null) return;
+      let legacy: any[] = [];
+      try { legacy = JSON.parse(raw); } catch {}
+      const upgraded = upgradeFrom(Array.isArray(legacy) ? legacy : [], chain.steps, i);
+      const current = load<{ id: string }[]>(currentKey, []);
+      const known = new Set(current.map(x => x.id));
+      const fresh = upgraded.filter(x => x && !known.has(x.id));
+      // Only drop the old key once the upgraded data has actually been persisted.
+      save(currentKey, [...current, ...fresh]).then(ok => { if (ok) localStorage.removeItem(step.from); });
+      const skipped = upgraded.length - fresh.length;
+      entries.push({ step: step.describe, details: [
+        `Upgraded ${fresh.length} ${chain.name} from ${step.from}.`,
+        ...(skipped ? [`Skipped ${skipped} already present in ${currentKey}.`] : []),
+      ] });
+    });
+  }
+
+  const legacySeqRaw = localStorage.getItem(LS_KEYS.seq);
+  if (entries.length || legacySeqRaw !== null) {
+    const before = load<Record<string, number>>(LS_KEYS.seqMap, {});
+    const after = rebuildSeqMap(load<Project[]>(LS_KEYS.projects, []), before, Number(legacySeqRaw) || 0);
+    save(LS_KEYS.seqMap, after).then(ok => { if (ok) localStorage.removeItem(LS_KEYS.seq); });
+    const changed = Object.keys(after).filter(k => after[k] !== before[k]);
+    entries.push({ step: "Rebuild per-series episode counters", details: changed.length
+      ? changed.map(k => `${k}: next episode is ${after[k] + 1}`)
+      : ["Counters already up to date."] });
+  }
+
+  if (entries.length === 0) return null;
+  const report: MigrationReport = { ranAt: now(), entries, seen: false };
+  save(LS_KEYS.migrationReport, report);
+  return report;
+}
+
+// ---------- Authentication ----------
+// Two providers: local passwords (PBKDF2 hashes stored on the User) and OpenID Connect
+// (authorization code + PKCE, ID token signature checked against the issuer's JWKS).
+// New accounts only come from the first-run admin setup or an invite issued on the Team page.
+type AuthProviderId = "local" | "oidc";
+type Session = { userId?: string; provider?: AuthProviderId; expiresAt?: number };
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PASSWORD_ITERATIONS = 310000;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Sessions without an expiry predate this check and are treated as expired.
+const isSessionValid = (s: Session, at = now()) => !!(s.userId && s.expiresAt && s.expiresAt > at);
+const getSession = (): Session => {
+  const s = load<Session>(LS_KEYS.session, {});
+  return isSessionValid(s) ? s : {};
+};
+const setSession = (userId?: string, provider: AuthProviderId = "local") =>
+  save<Session>(LS_KEYS.session, userId ? { userId, provider, expiresAt: now() + SESSION_TTL_MS } : {});
+
+const b64url = (bytes: ArrayBuffer | Uint8Array) => {
+  const arr = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let bin = ""; arr.forEach(b => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+const fromB64url = (str: string) => {
+  const bin = atob(str.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(str.length / 4) * 4, "="));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+};
+const randomToken = (bytes = 32) => b64url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number) {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256));
+}
+
+async function hashPassword(password: string, iterations = PASSWORD_ITERATIONS) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return `pbkdf2-sha256$${iterations}$${b64url(salt)}$${b64url(await pbkdf2(password, salt, iterations))}`;
+}
+
+async function verifyPassword(password: string, stored?: string) {
+  const [scheme, iter, salt, hash] = (stored || "").split("$");
+  if (scheme !== "pbkdf2-sha256" || !salt || !hash) return false;
+  const actual = await pbkdf2(password, fromB64url(salt), Number(iter));
+  const expected = fromB64url(hash);
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ (expected[i] ?? 0);
+  return diff === 0;
+}
+
+const passwordProblem = (password: string) =>
+  password.length < MIN_PASSWORD_LENGTH ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` : "";
+
+const findByEmail = (users: User[], email: string) => users.find(u => u.email.toLowerCase() === email.trim().toLowerCase());
+
+// Accounts created before passwords existed (among them the old seeded admin@example.com) have no
+// credential at all. Signing in never claims them: an admin issues an invite link instead, and a
+// workspace where no admin can sign in yet is secured once from the sign-in screen.
+const isUnclaimed = (u: User) => !u.passwordHash && !u.invite && !u.oidcSubject;
+
+// True only while no live admin has a password or SSO link but a legacy admin account exists.
+const needsSecuring = (users: User[]) =>
+  !users.some(u => isLive(u) && u.role === "admin" && (u.passwordHash || u.oidcSubject)) && users.some(u => isLive(u) && u.role === "admin" && isUnclaimed(u));
+
+async function secureWorkspace(users: User[], userId: string, password: string, iterations = PASSWORD_ITERATIONS): Promise<User> {
+  if (!needsSecuring(users)) throw new Error("This workspace already has an admin who can sign in.");
+  const u = users.find(x => x.id === userId && isLive(x) && x.role === "admin" && isUnclaimed(x));
+  if (!u) throw new Error("Choose one of the workspace's admin accounts.");
+  const problem = passwordProblem(password);
+  if (problem) throw new Error(problem);
+  return { ...u, passwordHash: await hashPassword(password, iterations) };
+}
+
+async function localSignIn(users: User[], email: string, password: string): Promise<User> {
+  const u = findByEmail(users, email);
+  if (!u) throw new Error("Unknown email or wrong password.");
+  if (u.invite) throw new Error("This account has a pending invite — open your invite link to set a password.");
+  if (isUnclaimed(u)) throw new Error("This account has no password yet — ask an admin for an invite link.");
+  if (!u.passwordHash || !(await verifyPassword(password, u.passwordHash))) throw new Error("Unknown email or wrong password.");
+  return u;
+}
+
+const newInvite = () => ({ token: randomToken(24), expiresAt: now() + INVITE_TTL_MS });
+const inviteLink = (token: string) => `${location.origin}${location.pathname}#invite=${token}`;
+
+async function acceptInvite(users: User[], token: string, name: string, password: string, iterations = PASSWORD_ITERATIONS): Promise<User> {
+  const u = users.find(x => x.invite?.token === token.trim());
+  if (!u) throw new Error("This invite link is not valid.");
+  if (u.invite!.expiresAt < now()) throw new Error("This invite has expired — ask an admin for a new one.");
+  const problem = passwordProblem(password);
+  if (problem) throw new Error(problem);
+  const { invite, ...rest } = u;
+  return { ...rest, name: name.trim() || u.name, passwordHash: await hashPassword(password, iterations) };
+}
+
+// --- Permissions ---
+// Every role-gated action in the UI asks `can`; handlers re-check so hidden buttons are not the only guard.
+type Permission =
+  | "projects.edit" | "projects.delete" | "projects.bulk"
+  | "guests.edit" | "guests.delete"
+  | "team.manage" | "settings.workspace";
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ["projects.edit", "projects.delete", "projects.bulk", "guests.edit", "guests.delete", "team.manage", "settings.workspace"],
+  producer: ["projects.edit", "projects.delete", "projects.bulk", "guests.edit", "guests.delete"],
+  member: ["projects.edit", "guests.edit"],
+  "guest-viewer": [],
+};
+
+const ROLE_LABELS: Record<Role, string> = { admin: "Admin", producer: "Producer", member: "Member", "guest-viewer": "Guest viewer" };
+
+const can = (user: User | undefined, perm: Permission) => !!user && (ROLE_PERMISSIONS[user.role] || []).includes(perm);
+
+// Admins who can actually sign in: live, past the invite stage, and holding a password or SSO link.
+const activeAdmins = (users: User[]) => users.filter(u => isLive(u) && u.role === "admin" && !u.invite && !!(u.passwordHash || u.oidcSubject));
+
+// Returns why removing (`nextRole` null) or re-roling a user would leave the team without an admin.
+function lastAdminProblem(users: User[], userId: string, nextRole: Role | null) {
+  const target = users.find(u => u.id === userId);
+  if (!target || target.role !== "admin" || nextRole === "admin") return "";
+  const others = activeAdmins(users).filter(u => u.id !== userId);
+  return others.length === 0 ? `${target.name} is the last admin — promote someone else first.` : "";
+}
+
+// --- OpenID Connect ---
+type OidcDiscovery = { issuer: string; authorization_endpoint: string; token_endpoint: string; jwks_uri: string };
+type OidcPending = { state: string; nonce: string; verifier: string; redirectUri: string };
+type IdTokenClaims = { iss: string; sub: string; aud: string | string[]; exp: number; iat?: number; nonce?: string; email?: string; email_verified?: boolean; name?: string };
+type KeyValueStore = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+const OIDC_PENDING_KEY = "pp_oidc_pending_v1";
+
+async function discoverOidc(issuer: string, fetchImpl: typeof fetch = fetch): Promise<OidcDiscovery> {
+  const res = await fetchImpl(`${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`);
+  if (!res.ok) throw new Error(`OIDC discovery failed (${res.status}).`);
+  return res.json();
+}
+
+// Builds the authorization URL and remembers state/nonce/PKCE verifier for the callback.
+async function beginOidcLogin(cfg: OidcConfig, store: KeyValueStore = sessionStorage, fetchImpl: typeof fetch = fetch) {
+  const d = await discoverOidc(cfg.issuer, fetchImpl);
+  const pending: OidcPending = { state: randomToken(), nonce: randomToken(), verifier: randomToken(48), redirectUri: cfg.redirectUri || `${location.origin}${location.pathname}` };
+  const challenge = b64url(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(pending.verifier)));
+  store.setItem(OIDC_PENDING_KEY, JSON.stringify(pending));
+  const url = new URL(d.authorization_endpoint);
+  Object.entries({
+    response_type: "code", client_id: cfg.clientId, redirect_uri: pending.redirectUri, scope: "openid email profile",
+    state: pending.state, nonce: pending.nonce, code_challenge: challenge, code_challenge_method: "S256",
+  }).forEach(([k, v]) => url.searchParams.set(k, v));
+  return url.toString();
+}
+
+async function verifyIdToken(idToken: string, cfg: OidcConfig, d: OidcDiscovery, nonce: string, fetchImpl: typeof fetch = fetch): Promise<IdTokenClaims> {
+  const [h, p, sig] = idToken.split(".");
+  if (!h || !p || !sig) throw new Error("Malformed ID token.");
+  const header = JSON.parse(new TextDecoder().decode(fromB64url(h)));
+  if (header.alg !== "RS256") throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  const jwks = await (await fetchImpl(d.jwks_uri)).json() as { keys: (JsonWebKey & { kid?: string })[] };
+  const jwk = jwks.keys.find(k => !header.kid || k.kid === header.kid);
+  if (!jwk) throw new Error("No matching signing key at the issuer.");
+  const key = await crypto.subtle.importKey("jwk", jwk, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"]);
+  const valid = await crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, fromB64url(sig), new TextEncoder().encode(`${h}.${p}`));
+  if (!valid) throw new Error("ID token signature is invalid.");
+  const claims = JSON.parse(new TextDecoder().decode(fromB64url(p))) as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== d.issuer) throw new Error("ID token issuer mismatch.");
+  if (!audiences.includes(cfg.clientId)) throw new Error("ID token was issued for another client.");
+  if (claims.exp * 1000 < now()) throw new Error("ID token has expired.");
+  if (claims.nonce !== nonce) throw new Error("ID token nonce mismatch.");
+  return claims;
+}
+
+// Handles the redirect back from the issuer: checks state, redeems the code, verifies the token.
+async function completeOidcLogin(cfg: OidcConfig, params: URLSearchParams, store: KeyValueStore = sessionStorage, fetchImpl: typeof fetch = fetch): Promise<IdTokenClaims> {
+  const pending = JSON.parse(store.getItem(OIDC_PENDING_KEY) || "null") as OidcPending | null;
+  store.removeItem(OIDC_PENDING_KEY);
+  if (params.get("error")) throw new Error(`Sign-in was refused: ${params.get("error_description") || params.get("error")}`);
+  if (!pending || params.get("state") !== pending.state) throw new Error("Sign-in response does not match a pending request.");
+  const d = await discoverOidc(cfg.issuer, fetchImpl);
+  const res = await fetchImpl(d.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ grant_type: "authorization_code", code: params.get("code") || "", redirect_uri: pending.redirectUri, client_id: cfg.clientId, code_verifier: pending.verifier }).toString(),
+  });
+  if (!res.ok) throw new Error(`Token exchange failed (${res.status}).`);
+  const { id_token } = await res.json();
+  return verifyIdToken(id_token, cfg, d, pending.nonce, fetchImpl);
+}
+
+// An OIDC identity signs in to the user it is linked to, or links to an existing/invited account by
+// email — but only an email the issuer says it has verified, or anyone could claim any address.
+function userForClaims(users: User[], claims: IdTokenClaims): User {
+  const linked = users.find(u => u.oidcSubject === claims.sub);
+  if (linked) return linked;
+  const byEmail = claims.email && claims.email_verified === true ? findByEmail(users, claims.email) : undefined;
+  if (!byEmail && claims.email && claims.email_verified !== true && findByEmail(users, claims.email)) throw new Error(`Your identity provider has not verified ${claims.email}, so it can't be linked to a StudioCast account.`);
+  if (!byEmail) throw new Error(`No StudioCast account for ${claims.email || claims.sub}. Ask an admin for an invite.`);
+  if (byEmail.oidcSubject) throw new Error("This account is linked to a different identity.");
+  const { invite, ...rest } = byEmail;
+  return { ...rest, name: byEmail.invite && claims.name ? claims.name : byEmail.name, oidcSubject: claims.sub };
+}
+
+// Fixed signing key for the mock issuer, so the self-tests don't generate an RSA key pair on every
+// start. It signs nothing but mock tokens; never configure it on a real issuer.
+const MOCK_OIDC_KEY: JsonWebKey = {"kty": "RSA", "n": "tjQeoo5rWUEtKpU9s5k6k_58gMzF9apPqdb1qrJk_sEjq4Wtgdu30Y7GEWvvjwb3nCAReK2MPl1VqbUV7KD8zoD984O5AXmQBIAiJSl2vEeK9BTWIL9IIqv0S15EJybxVzDkWk7nHDkqQ7cHITq86RSbrj5w-0acrfXJ-hhkavE1XJNsyiWHJkILOsUxrhiRb9-O5qF1jGEEQmhcsMsViPfmuWzJZDr96XMdR03DBuutR8TJtWc903UQuNheRWei3ZSzpIFLM60ytKbokmIdHRE2bVh08KKd0QOsmZmhrpvDfPWZ3TnZZwsGJuYwmmSJd3rp5DJHt5scBhek94Q3yw", "e": "AQAB", "d": "VJ5TBfK3pz2OQOMLw0-r9VRwtQ6k90lP8xQ6hrqQDgJb0wpjwNXugjvY__lNSfMV5uO7yXxsEACfyo-nrXw8vJkKl9_6eVVgDb8GXJTrqFhfj6jno1DCqxuJ-sC-TSKYXgJ-YvSW_7QKzWUAwi1505O3E467QO-Tz3TBh01xwXoYz6NLHS76tGB5wHIirT6KDiL0tq1n-FfcUvGNfWf5cxSut0XEY5rjdY1WFrVkpRn4JrRc2ORJMUunzmZvkyjrqpy8gFhjfqVti9RL7ew47ogSuWzBS34k2n6nOtmWqdxZ58l3z3Qq-b4e4Q9WyVyyQB2J189Ey94eIMGivmvk1Q", "p": "2B8xY4ZFHBGchM3kVNk6fyewuhYifrKN-3oMy901HKxfK8S2rf0J3AdO8Ri_kykMl0-B0BVZcv0kXLqsOzer9mOnPcfW6MxVEhv_PDsmgD4J157l1Rp21RS-WNS0tyo4jE0eebOeKZQhgkKTTf2PfoPGhWuUA3TkjPxkBMsmKv0", "q": "19LAkJXAlXGRvLxJgahkif1IhhlyhfHAMCsoccttcOGgD-k_U4FW2LZ4GaB9h8Ld-keJ-LXiJa3SbbgIC7VPDDfHy5GkCifZwV2F6NJzuklQUyYccI56AMoAayjyv261TM9uS34CD7N6yLI42sawgB0rETISBpT5FL1OlKduXGc", "dp": "jHMJB6KUev8-9ldPUYyyJTxH70a_OBMVjh3s_vdMssuaNblq9nsA00q0lJ3-scX1dsemlvGo5b94yAJQN1Ogn0h3wQCDu1o-1rv3DM9r399xSfzrY6gFHciTQutIXdhEU3kymuiNmnu3ow1c6Uwk2pUMiFw3Hl_yv2SuIydaMIk", "dq": "tZZwSPaG2_Z7PYZafooVVXjTXWjpz8MRBjY5yEz13wUnbFu-2V64mIwmTsGW_PQ7Wop4jtdR2IwAwioWMuuw_8GrDB-VGqpe7-_lbHgtwO5QdDVbtmRaSHGtmnwQinr2dhMNZN03lMhZJaW2anTEKnbgNo6fVgRf8lA5Xp_lHj8", "qi": "LQ3ZGM3Vcl26KT3O0XLp9h8LBeNgO_QYi7vU2MvEQ_s5QLHDXK7mMJBnS-R_JHLS2LiQPcrkjxsBQVseaA5wt308hood1fVS6rHJn5UVb3GDmRJNDa_IEQPaA0DMr2RuWEtvpvogxA5rBBKqpDw5SVYy3h-KzN6l7BHKSjZpNiU"};
+
+// Minimal issuer for tests and local development: discovery, JWKS and token endpoints,
+// plus `authorize` standing in for the login page the browser would be sent to.
+async function createMockOidcIssuer(issuer = "https://issuer.mock", clientId = "studiocast", signingKey: JsonWebKey = MOCK_OIDC_KEY) {
+  const privateKey = await crypto.subtle.importKey("jwk", signingKey, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["sign"]);
+  const publicJwk = { kty: "RSA", n: signingKey.n, e: signingKey.e, kid: "mock-1", use: "sig", alg: "RS256" };
+  const codes = new Map<string, { claims: Omit<IdTokenClaims, "iss" | "aud" | "exp">; challenge: string; redirectUri: string }>();
+  const enc = (x: unknown) => b64url(new TextEncoder().encode(JSON.stringify(x)));
+  const sign = async (claims: object) => {
+    const head = `${enc({ alg: "RS256", typ: "JWT", kid: "mock-1" })}.${enc(claims)}`;
+    return `${head}.${b64url(await crypto.subtle.sign("RSASSA-PKCS1-v1_5", privateKey, new TextEncoder().encode(head)))}`;
+  };
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  const authorize = (authUrl: string, user: { sub: string; email?: string; email_verified?: boolean; name?: string }) => {
+    const q = new URL(authUrl).searchParams;
+    const code = randomToken(16);
+    codes.set(code, { claims: { ...user, nonce: q.get("nonce") || undefined }, challenge: q.get("code_challenge") || "", redirectUri: q.get("redirect_uri") || "" });
+    return new URLSearchParams({ code, state: q.get("state") || "" });
+  };
+
+  const fetchImpl = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    if (url.pathname === "/.well-known/openid-configuration")
+      return json({ issuer, authorization_endpoint: `${issuer}/authorize`, token_endpoint: `${issuer}/token`, jwks_uri: `${issuer}/jwks` });
+    if (url.pathname === "/jwks") return json({ keys: [publicJwk] });
+    if (url.pathname === "/token" && init?.method === "POST") {
+      const form = new URLSearchParams(String(init.body));
+      const grant = codes.get(form.get("code") || "");
+      codes.delete(form.get("code") || "");
+      const challenge = grant && b64url(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(form.get("code_verifier") || "")));
+      if (!grant || form.get("client_id") !== clientId || challenge !== grant.challenge || form.get("redirect_uri") !== grant.redirectUri) return json({ error: "invalid_grant" }, 400);
+      return json({ token_type: "Bearer", id_token: await sign({ ...grant.claims, iss: issuer, aud: clientId, iat: Math.floor(now() / 1000), exp: Math.floor(now() / 1000) + 300 }) });
+    }
+    return json({ error: "not_found" }, 404);
+  };
+  return { issuer, clientId, fetch: fetchImpl as typeof fetch, authorize };
+}
+
+// Projects saved before schedules carried a zone are read in the studio's zone.
+const studioZoneFromStorage = () => {
+  const tz = load<Settings>(LS_KEYS.settings, {}).studioTimezone;
+  return isValidTimeZone(tz) ? tz! : browserTimeZone();
+};
+
+// Everything that reads projects written by older builds (storage, backups, sync) goes through this.
+const upgradeProject = <T extends Project>(p: T, tz: string): T => upgradeProjectParticipants(upgradeProjectChecklist(upgradeProjectSchedule(p, tz)));
+
+// Applies one in-place upgrade to the stored projects; returns how many it changed. `up` must
+// return the same object for projects that are already current.
+function upgradeStoredProjects(up: (p: Project) => Project): number {
+  const projects = load<Project[]>(LS_KEYS.projects, []);
+  const upgraded = projects.map(up);
+  const changed = upgraded.filter((p, i) => p !== projects[i]).length;
+  if (changed) save(LS_KEYS.projects, upgraded);
+  return changed;
+}
+
+function upgradeStoredSchedules(): string[] {
+  const tz = studioZoneFromStorage();
+  const changed = upgradeStoredProjects(p => upgradeProjectSchedule(p, tz));
+  return changed ? [`Read ${changed} project schedules as ${tz} time.`] : [];
+}
+
+function upgradeStoredChecklists(): string[] {
+  const changed = upgradeStoredProjects(upgradeProjectChecklist);
+  return changed ? [`Moved ${changed} project checklists to the default template's items.`] : [];
+}
+
+function upgradeStoredParticipants(): string[] {
+  const changed = upgradeStoredProjects(upgradeProjectParticipants);
+  return changed ? [`Moved ${changed} project guests into participant lists.`] : [];
+}
+
+function upgradeStoredSeries(): string[] {
+  const list = load<Series[]>(LS_KEYS.series, []);
+  const settings = load<Settings>(LS_KEYS.settings, {});
+  const names = [...load<Project[]>(LS_KEYS.projects, []).map(p => p.series), ...Object.keys(load<Record<string, number>>(LS_KEYS.seqMap, {}))];
+  const { series, created, moved } = seriesFromLegacy(list, names.length || list.length ? names : [DEFAULT_SERIES], settings.checklistTemplates);
+  if (series !== list) save(LS_KEYS.series, series);
+  if (settings.checklistTemplates) { const { checklistTemplates, ...rest } = settings; save(LS_KEYS.settings, rest); }
+  return [
+    ...(created ? [`Created ${created} series from the names used by projects.`] : []),
+    ...(moved ? [`Moved ${moved} checklist templates from settings onto their series.`] : []),
+  ];
+}
+
+// ---------- Workspace backup / restore ----------
+// One versioned JSON bundle with everything needed to move a workspace between browsers.
+// Secrets (the OpenAI key, sync token, password hashes and pending invite tokens) are left out
+// unless explicitly requested on both export and import.
+const BACKUP_FORMAT = "studiocast-workspace";
+const BACKUP_VERSION = 1;
+
+type Workspace = {
+  users: User[];
+  projects: Project[];
+  guests: Guest[];
+  series: Series[];
+  seqMap: Record<string, number>;
+  settings: Settings;
+};
+
+type WorkspaceBundle = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  data: Workspace;
+  blobs?: Record<string, string>; // guest photos etc. as data URLs, keyed by blob id
+};
+
+type ImportMode = "merge" | "replace";
+type ImportConflict = { kind: "user" | "project" | "guest" | "series"; id: string; label: string; reason: string };
+type ImportResult = { next: Workspace; conflicts: ImportConflict[]; added: number; replaced: number };
+
+const stripSecrets = (s: Settings): Settings => {
+  const { openaiKey, ...rest } = s;
+  if (!rest.sync?.token) return rest;
+  const { token, ...sync } = rest.sync;
+  return { ...rest, sync };
+};
+
+const stripUserSecrets = (u: User): User => {
+  const { passwordHash, invite, ...rest } = u;
+  return rest;
+};
+
+// Without secrets, accounts keep whatever credentials they already have here. A user only in the
+// backup arrives without one and needs an invite link.
+const withLocalCredentials = (u: User, local?: User): User => {
+  const stripped = stripUserSecrets(u);
+  if (!local) return stripped;
+  if (JSON.stringify(stripUserSecrets(local)) === JSON.stringify(stripped)) return local;
+  return { ...stripped, ...(local.passwordHash ? { passwordHash: local.passwordHash } : {}), ...(local.invite ? { invite: local.invite } : {}) };
+};
+
+const hasSecrets = (ws: Workspace) => !!ws.settings.openaiKey || !!ws.settings.sync?.token || ws.users.some(u => u.passwordHash || u.invite);
+
+function buildBackup(ws: Workspace, opts: { includeSecrets?: boolean } = {}): WorkspaceBundle {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now(),
+    data: opts.includeSecrets ? ws : { ...ws, users: ws.users.map(stripUserSecrets), settings: stripSecrets(ws.settings) },
+  };
+}
+
+// Fields every record must carry before a restore is allowed to touch the workspace.
+const BACKUP_REQUIRED: Record<"users" | "projects" | "guests", [field: string, ok: (x: any) => boolean][]> = {
+  users: [["email", x => typeof x.email === "string" && x.email.trim() !== ""], ["role", x => (ROLES as readonly string[]).includes(x.role)]],
+  projects: [["series", x => typeof x.series === "string"], ["status", x => typeof x.status === "string" && x.status !== ""]],
+  guests: [["name", x => typeof x.name === "string"]],
+};
+
+function parseBackup(raw: string): WorkspaceBundle {
+  let obj: any;
+  try { obj = JSON.parse(raw); } catch { throw new Error("File is not valid JSON."); }
+  if (!obj || obj.format !== BACKUP_FORMAT) throw new Error("Not a StudioCast workspace backup.");
+  if (typeof obj.version !== "number" || obj.version > BACKUP_VERSION) throw new Error(`Unsupported backup version: ${obj.version}`);
+  const d = obj.data || {};
+  for (const k of ["users", "projects", "guests"] as const) {
+    if (!Array.isArray(d[k])) throw new Error(`Backup is missing "${k}".`);
+    if (d[k].some((x: any) => !x || typeof x.id !== "string")) throw new Error(`Backup has ${k} without an id.`);
+    for (const [field, ok] of BACKUP_REQUIRED[k]) {
+      const bad = d[k].find((x: any) => !ok(x));
+      if (bad) throw new Error(`Backup has ${k} with a missing or invalid ${field} (id ${bad.id}).`);
+    }
+  }
+  return {
+    format: BACKUP_FORMAT, version: obj.version, exportedAt: Number(obj.exportedAt) || 0,
+    data: { users: d.users, projects: d.projects.map((p: Project) => upgradeProject(p, studioZoneFromStorage())), guests: d.guests,
+      series: Array.isArray(d.series) ? d.series.filter((x: any) => x && typeof x.id === "string" && typeof x.name === "string") : [], seqMap: d.seqMap || {}, settings: d.settings || {} },
+    blobs: obj.blobs && typeof obj.blobs === "object" ? obj.blobs : undefined,
+  };
+}
+
+// Records sharing an id with different content are conflicts. In merge mode the local copy wins
+// unless `preferIncoming` is set; identical records are silently skipped.
+function mergeById<T extends { id: string }>(kind: ImportConflict["kind"], local: T[], incoming: T[], label: (x: T) => string, preferIncoming: boolean) {
+  const byId = new Map(local.map(x => [x.id, x] as const));
+  const conflicts: ImportConflict[] = [];
+  const result = [...local];
+  let added = 0, replaced = 0;
+  for (const x of incoming) {
+    const mine = byId.get(x.id);
+    if (!mine) { result.push(x); added++; continue; }
+    if (JSON.stringify(mine) === JSON.stringify(x)) continue;
+    conflicts.push({ kind, id: x.id, label: label(x), reason: preferIncoming ? "replaced with incoming" : "kept local" });
+    if (preferIncoming) { result[result.indexOf(mine)] = x; replaced++; }
+  }
+  return { result, conflicts, added, replaced };
+}
+
+function applyBackup(current: Workspace, bundle: WorkspaceBundle, mode: ImportMode, opts: { includeSecrets?: boolean; preferIncoming?: boolean } = {}): ImportResult {
+  const localUsers = new Map(current.users.map(u => [u.id, u] as const));
+  const incoming = opts.includeSecrets ? bundle.data : { ...bundle.data, users: bundle.data.users.map(u => withLocalCredentials(u, localUsers.get(u.id))) };
+  const incomingSettings = opts.includeSecrets ? incoming.settings : { ...stripSecrets(incoming.settings), openaiKey: current.settings.openaiKey };
+  if (mode === "replace") {
+    const count = incoming.users.length + incoming.projects.length + incoming.guests.length + incoming.series.length;
+    return { next: { ...incoming, settings: incomingSettings }, conflicts: [], added: count, replaced: 0 };
+  }
+  const preferIncoming = !!opts.preferIncoming;
+  // Same email under a different id would create a duplicate login, so treat it as a conflict too.
+  const emails = new Map(current.users.map(u => [u.email.toLowerCase(), u.id] as const));
+  const emailClashes = incoming.users.filter(u => emails.has(u.email.toLowerCase()) && emails.get(u.email.toLowerCase()) !== u.id);
+  const users = mergeById("user", current.users, incoming.users.filter(u => !emailClashes.includes(u)), u => u.email, preferIncoming);
+  const projects = mergeById("project", current.projects, incoming.projects, projectLabel, preferIncoming);
+  const guests = mergeById("guest", current.guests, incoming.guests, g => g.name, preferIncoming);
+  // Projects refer to series by name, so a second record with a name we already have is dropped.
+  const names = new Map(current.series.map(x => [x.name, x.id] as const));
+  const nameClashes = incoming.series.filter(x => names.has(x.name) && names.get(x.name) !== x.id);
+  const series = mergeById("series", current.series, incoming.series.filter(x => !nameClashes.includes(x)), x => x.name, preferIncoming);
+  const seqMap = { ...current.seqMap };
+  for (const [series, n] of Object.entries(incoming.seqMap)) seqMap[series] = Math.max(seqMap[series] || 0, Number(n) || 0);
+  return {
+    next: {
+      users: users.result, projects: projects.result, guests: guests.result, series: series.result, seqMap,
+      settings: preferIncoming ? { ...current.settings, ...incomingSettings } : { ...incomingSettings, ...current.settings },
+    },
+    conflicts: [
+      ...emailClashes.map(u => ({ kind: "user" as const, id: u.id, label: u.email, reason: "email already used by another user — skipped" })),
+      ...nameClashes.map(x => ({ kind: "series" as const, id: x.id, label: x.name, reason: "a local series already has this name — skipped" })),
+      ...users.conflicts, ...projects.conflicts, ...guests.conflicts, ...series.conflicts,
+    ],
+    added: users.added + projects.added + guests.added + series.added,
+    replaced: users.replaced + projects.replaced + guests.replaced + series.replaced,
+  };
+}
+
+// Decode every bundled blob up front so a corrupt one stops the restore before anything is written.
+function decodeBackupBlobs(blobs: Record<string, unknown> = {}): { blobs: [string, Blob][]; invalid: string[] } {
+  const decoded: [string, Blob][] = [];
+  const invalid: string[] = [];
+  for (const [id, dataUrl] of Object.entries(blobs)) {
+    try {
+      if (typeof dataUrl !== "string" || !dataUrl.startsWith("data:")) throw new Error("not a data URL");
+      decoded.push([id, dataUrlToBlob(dataUrl)]);
+    } catch { invalid.push(id); }
+  }
+  return { blobs: decoded, invalid };
+}
+
+// ---------- Sync ----------
+// Optional push/pull against a REST endpoint. Local edits become mutations in a persisted queue;
+// each mutation carries the server `updatedAt` it was based on, and the server rejects it as a
+// conflict when its copy has moved on since. Protocol:
+//   POST {endpoint}/changes  { mutations }      → { applied: [{ mutationId, updatedAt }], conflicts: [...] }
+//   GET  {endpoint}/changes?since=<cursor>      → { cursor, changes }
+// `createMockSyncServer` is the reference implementation and is what the self-tests run against.
+type SyncEntity = "project" | "guest" | "series";
+type SyncRecord = Project | Guest | Series;
+type SyncMutation = { id: string; entity: SyncEntity; recordId: string; op: "upsert" | "delete"; record?: SyncRecord; baseUpdatedAt?: number; at: number };
+type RemoteChange = { seq: number; entity: SyncEntity; recordId: string; op: "upsert" | "delete"; record?: SyncRecord; updatedAt: number };
+type PushConflict = { mutationId: string; record?: SyncRecord; updatedAt: number; deleted: boolean };
+type SyncConflict = { mutation: SyncMutation; remote?: SyncRecord; remoteUpdatedAt: number; remoteDeleted: boolean };
+type SyncState = { cursor: number; queue: SyncMutation[]; conflicts: SyncConflict[]; known: Record<string, number>; lastSyncedAt?: number };
+type SyncStatus = "off" | "idle" | "syncing" | "offline" | "error";
+
+const EMPTY_SYNC_STATE: SyncState = { cursor: 0, queue: [], conflicts: [], known: {} };
+const syncKey = (x: { entity: SyncEntity; recordId: string }) => `${x.entity}:${x.recordId}`;
+const recordVersion = (r: SyncRecord) => r.updatedAt ?? r.createdAt;
+
+function diffById<T extends { id: string }>(prev: T[], next: T[]) {
+  const before = new Map(prev.map(x => [x.id, x] as const));
+  const after = new Map(next.map(x => [x.id, x] as const));
+  const upserts = next.filter(x => { const old = before.get(x.id); return !old || JSON.stringify(old) !== JSON.stringify(x); });
+  const deletes = prev.filter(x => !after.has(x.id));
+  return { upserts, deletes, before };
+}
+
+// Fold local edits into the queue. A record keeps a single pending mutation, which keeps the
+// `baseUpdatedAt` of the first unsent edit; deleting a record the server never saw drops it.
+function enqueueChanges<T extends SyncRecord>(state: SyncState, entity: SyncEntity, prev: T[], next: T[]): SyncState {
+  const { upserts, deletes } = diffById(prev, next);
+  if (upserts.length === 0 && deletes.length === 0) return state;
+  const queue = [...state.queue];
+  const put = (recordId: string, op: SyncMutation["op"], record?: SyncRecord) => {
+    const key = syncKey({ entity, recordId });
+    const i = queue.findIndex(m => syncKey(m) === key);
+    const baseUpdatedAt = i >= 0 ? queue[i].baseUpdatedAt : state.known[key];
+    if (i >= 0) queue.splice(i, 1);
+    if (op === "delete" && state.known[key] === undefined) return;
+    queue.push({ id: uid("mut"), entity, recordId, op, record, baseUpdatedAt, at: now() });
+  };
+  upserts.forEach(r => put(r.id, "upsert", r));
+  deletes.forEach(r => put(r.id, "delete"));
+  return { ...state, queue };
+}
+
+class SyncHttpError extends Error {
+  constructor(public status: number, message: string) { super(message); this.name = "SyncHttpError"; }
+}
+
+type SyncResult = { sentIds: string[]; known: Record<string, number>; conflicts: SyncConflict[]; cursor: number; incoming: RemoteChange[] };
+
+async function syncOnce(state: SyncState, cfg: SyncConfig, fetchImpl: typeof fetch = fetch): Promise<SyncResult> {
+  const base = (cfg.endpoint || "").replace(/\/+$/, "");
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (cfg.token) headers.Authorization = `Bearer ${cfg.token}`;
+  const call = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+    const res = await fetchImpl(`${base}${path}`, { ...init, headers });
+    if (!res.ok) throw new SyncHttpError(res.status, `Sync server responded ${res.status}`);
+    return res.json() as Promise<T>;
+  };
+
+  const known = { ...state.known };
+  let conflicts = [...state.conflicts];
+  const addConflict = (c: SyncConflict) => { conflicts = [...conflicts.filter(x => syncKey(x.mutation) !== syncKey(c.mutation)), c]; };
+  const sent = state.queue;
+
+  if (sent.length) {
+    const pushed = await call<{ applied: { mutationId: string; updatedAt: number }[]; conflicts: PushConflict[] }>("/changes", { method: "POST", body: JSON.stringify({ mutations: sent }) });
+    for (const a of pushed.applied) { const m = sent.find(x => x.id === a.mutationId); if (m) known[syncKey(m)] = a.updatedAt; }
+    for (const c of pushed.conflicts) {
+      const m = sent.find(x => x.id === c.mutationId);
+      if (m) addConflict({ mutation: m, remote: c.record, remoteUpdatedAt: c.updatedAt, remoteDeleted: c.deleted });
+    }
+  }
+
+  const pulled = await call<{ cursor: number; changes: RemoteChange[] }>(`/changes?since=${state.cursor}`);
+  const pendingConflict = new Set(conflicts.map(c => syncKey(c.mutation)));
+  // Skip echoes of our own pushes and anything still waiting on a conflict decision.
+  const incoming = pulled.changes.filter(c => known[syncKey(c)] !== c.updatedAt && !pendingConflict.has(syncKey(c)));
+  incoming.forEach(c => { known[syncKey(c)] = c.updatedAt; });
+  return { sentIds: sent.map(m => m.id), known, conflicts, cursor: pulled.cursor, incoming };
+}
+
+function applyRemote<T extends SyncRecord>(list: T[], entity: SyncEntity, changes: RemoteChange[]): T[] {
+  let next = list;
+  for (const c of changes) {
+    if (c.entity !== entity) continue;
+    next = next.filter(x => x.id !== c.recordId);
+    if (c.op === "upsert" && c.record) next = [c.record as T, ...next];
+  }
+  return next;
+}
+
+function createMockSyncServer() {
+  const records = new Map<string, { record?: SyncRecord; updatedAt: number; deleted: boolean }>();
+  const log: RemoteChange[] = [];
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  const push = (mutations: SyncMutation[]) => {
+    const applied: { mutationId: string; updatedAt: number }[] = [];
+    const conflicts: PushConflict[] = [];
+    for (const m of mutations) {
+      const key = syncKey(m);
+      const cur = records.get(key);
+      if (cur && cur.updatedAt !== m.baseUpdatedAt) { conflicts.push({ mutationId: m.id, record: cur.record, updatedAt: cur.updatedAt, deleted: cur.deleted }); continue; }
+      const updatedAt = m.op === "delete" ? Math.max(now(), (cur?.updatedAt || 0) + 1) : recordVersion(m.record!);
+      records.set(key, { record: m.record, updatedAt, deleted: m.op === "delete" });
+      log.push({ seq: log.length + 1, entity: m.entity, recordId: m.recordId, op: m.op, record: m.record, updatedAt });
+      applied.push({ mutationId: m.id, updatedAt });
+    }
+    return { applied, conflicts };
+  };
+
+  const fetchImpl = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input), "http://mock.local");
+    if (url.pathname.endsWith("/changes") && init?.method === "POST") return json(push(JSON.parse(String(init.body)).mutations || []));
+    if (url.pathname.endsWith("/changes")) {
+      const since = Number(url.searchParams.get("since")) || 0;
+      return json({ cursor: log.length, changes: log.filter(c => c.seq > since) });
+    }
+    return json({ error: "not found" }, 404);
+  };
+  return { fetch: fetchImpl as typeof fetch, records };
+}
+
+// Wires the queue and push/pull loop to the app's collections.
+function useSync({ ready, config, projects, setProjects, guests, setGuests, series, setSeries }:{
+  ready: boolean; config?: SyncConfig;
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  guests: Guest[]; setGuests: React.Dispatch<React.SetStateAction<Guest[]>>;
+  series: Series[]; setSeries: React.Dispatch<React.SetStateAction<Series[]>>;
+}){
+  const [state, setState] = useState<SyncState>(EMPTY_SYNC_STATE);
+  const [status, setStatus] = useState<SyncStatus>("off");
+  const [error, setError] = useState("");
+  const stateRef = useRef(state); stateRef.current = state;
+  const seen = useRef<{ projects: Project[]; guests: Guest[]; series: Series[] } | null>(null);
+  const running = useRef(false);
+  const enabled = ready && !!config?.enabled && !!config.endpoint;
+
+  useEffect(() => { if (ready) setState(load<SyncState>(LS_KEYS.syncState, EMPTY_SYNC_STATE)); }, [ready]);
+  useEffect(() => { if (ready) save(LS_KEYS.syncState, state); }, [ready, state]);
+
+  // Record local edits. Remote changes update `seen` before they land, so they diff to nothing.
+  useEffect(() => {
+    if (!ready) return;
+    const prev = seen.current;
+    seen.current = { projects, guests, series };
+    if (!prev || !config?.enabled) return;
+    setState(s => enqueueChanges(enqueueChanges(enqueueChanges(s, "project", prev.projects, projects), "guest", prev.guests, guests), "series", prev.series, series));
+  }, [ready, projects, guests, series, config?.enabled]);
+
+  // First time sync is switched on, everything local is new to the server.
+  useEffect(() => {
+    if (!enabled) return;
+    setState(s => s.cursor === 0 && Object.keys(s.known).length === 0 && s.queue.length === 0
+      ? enqueueChanges(enqueueChanges(enqueueChanges(s, "project", [], projects), "guest", [], guests), "series", [], series) : s);
+  }, [enabled]);
+
+  const applyIncoming = (incoming: RemoteChange[]) => {
+    if (incoming.length === 0 || !seen.current) return;
+    const tz = studioZoneFromStorage();
+    const next = {
+      projects: applyRemote(seen.current.projects, "project", incoming).map(p => upgradeProject(p, tz)),
+      guests: applyRemote(seen.current.guests, "guest", incoming),
+      series: applyRemote(seen.current.series, "series", incoming),
+    };
+    seen.current = next;
+    setProjects(next.projects); setGuests(next.guests); setSeries(next.series);
+  };
+
+  const syncNow = async () => {
+    if (!enabled || running.current) return;
+    if (typeof navigator !== "undefined" && !navigator.onLine) { setStatus("offline"); return; }
+    running.current = true; setStatus("syncing");
+    try {
+      const r = await syncOnce(stateRef.current, config!);
+      applyIncoming(r.incoming);
+      setState(s => ({ ...s, queue: s.queue.filter(m => !r.sentIds.includes(m.id)), known: r.known, conflicts: r.conflicts, cursor: r.cursor, lastSyncedAt: now() }));
+      setStatus("idle"); setError("");
+    } catch (e: any) {
+      if (e instanceof SyncHttpError) { setStatus("error"); setError(e.message); }
+      else { setStatus("offline"); setError(e?.message || String(e)); }
+    } finally { running.current = false; }
+  };
+
+  useEffect(() => {
+    if (!enabled) { setStatus("off"); return; }
+    syncNow();
+    const timer = setInterval(syncNow, 30000);
+    const onOnline = () => syncNow();
+    window.addEventListener("online", onOnline);
+    return () => { clearInterval(timer); window.removeEventListener("online", onOnline); };
+  }, [enabled, config?.endpoint, config?.token]);
+
+  // Push local edits shortly after they happen.
+  useEffect(() => {
+    if (!enabled || state.queue.length === 0) return;
+    const t = setTimeout(syncNow, 2000);
+    return () => clearTimeout(t);
+  }, [enabled, state.queue]);
+
+  const resolve = (conflict: SyncConflict, choice: "mine" | "theirs") => {
+    const key = syncKey(conflict.mutation);
+    setState(s => {
+      const rest = { ...s, conflicts: s.conflicts.filter(c => syncKey(c.mutation) !== key), known: { ...s.known, [key]: conflict.remoteUpdatedAt } };
+      if (choice === "theirs") return { ...rest, queue: rest.queue.filter(m => syncKey(m) !== key) };
+      // Re-send our version against the server's current one; bump upserts so they are newer.
+      const record = conflict.mutation.record && { ...conflict.mutation.record, updatedAt: Math.max(now(), conflict.remoteUpdatedAt + 1) };
+      const mutation: SyncMutation = { ...conflict.mutation, id: uid("mut"), record, baseUpdatedAt: conflict.remoteUpdatedAt, at: now() };
+      return { ...rest, queue: [...rest.queue.filter(m => syncKey(m) !== key), mutation] };
+    });
+    if (choice === "theirs") {
+      applyIncoming([{ seq: 0, entity: conflict.mutation.entity, recordId: conflict.mutation.recordId, op: conflict.remoteDeleted ? "delete" : "upsert", record: conflict.remote, updatedAt: conflict.remoteUpdatedAt }]);
+    } else if (conflict.mutation.record) {
+      const bumped = { ...conflict.mutation.record, updatedAt: Math.max(now(), conflict.remoteUpdatedAt + 1) };
+      applyIncoming([{ seq: 0, entity: conflict.mutation.entity, recordId: conflict.mutation.recordId, op: "upsert", record: bumped, updatedAt: bumped.updatedAt }]);
+    }
+  };
+
+  return { status, error, pending: state.queue.length, conflicts: state.conflicts, lastSyncedAt: state.lastSyncedAt, syncNow, resolve };
+}
+
+type SyncHandle = ReturnType<typeof useSync>;
+
+// ---------- Activity log ----------
+// Append-only record of who changed what. The audited setters below wrap the raw state setters,
+// diff the collection before and after each update and log one entry per created, updated or
+// deleted record with a field-level diff (nested objects such as the checklist are flattened).
+// Entries older than a year are dropped, and only the newest ACTIVITY_LIMIT are kept.
+type ActivityEntity = "project" | "guest" | "user" | "series";
+type ActivityAction = "create" | "update" | "delete" | "restore" | "purge";
+type FieldChange = { field: string; from?: unknown; to?: unknown };
+type ActivityEntry = { id: string; at: number; actorId?: string; actorName: string; action: ActivityAction; entity: ActivityEntity; entityId: string; label: string; changes: FieldChange[] };
+type Actor = { id?: string; name: string };
+
+const ACTIVITY_ENTITIES: readonly ActivityEntity[] = ["project", "guest", "user", "series"];
+const ACTIVITY_VERBS: Record<ActivityAction, string> = { create: "created", update: "updated", delete: "trashed", restore: "restored", purge: "permanently deleted" };
+const ACTIVITY_IGNORED_FIELDS = new Set(["updatedAt"]);
+const ACTIVITY_REDACTED_FIELDS = new Set(["passwordHash", "invite", "photoDataUrl"]);
+const ACTIVITY_LIMIT = 5000;
+const ACTIVITY_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+const pruneActivity = (entries: ActivityEntry[], at = now()) => {
+  const recent = entries.filter(e => at - e.at <= ACTIVITY_MAX_AGE_MS);
+  return recent.length > ACTIVITY_LIMIT ? recent.slice(-ACTIVITY_LIMIT) : recent;
+};
+
+const isPlainObject = (x: unknown): x is Record<string, unknown> => !!x && typeof x === "object" && !Array.isArray(x);
+// Lists of records with ids (checklist items) are diffed item by item.
+const keyedById = (x: unknown) => Array.isArray(x) && x.length > 0 && x.every(i => isPlainObject(i) && typeof i.id === "string")
+  ? Object.fromEntries(x.map(i => [i.id, i])) as Record<string, unknown> : undefined;
+
+function fieldChanges(before: Record<string, unknown> = {}, after: Record<string, unknown> = {}, prefix = ""): FieldChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.flatMap((k): FieldChange[] => {
+    const from = before[k], to = after[k], field = prefix + k;
+    if (ACTIVITY_IGNORED_FIELDS.has(k) || JSON.stringify(from) === JSON.stringify(to)) return [];
+    if (ACTIVITY_REDACTED_FIELDS.has(k)) return [{ field, from: from === undefined ? undefined : "(hidden)", to: to === undefined ? undefined : "(hidden)" }];
+    if (isPlainObject(from) && isPlainObject(to)) return fieldChanges(from, to, `${field}.`);
+    const fromItems = keyedById(from), toItems = keyedById(to);
+    if (fromItems && toItems) return fieldChanges(fromItems, toItems, `${field}.`);
+    return [{ field, from, to }];
+  });
+}
+
+function activityLabel(entity: ActivityEntity, x: any) {
+  if (entity === "project") return projectLabel(x);
+  if (entity === "guest") return x.name || "Unnamed guest";
+  if (entity === "series") return x.name;
+  return x.email;
+}
+
+function activityFor<T extends Trashable>(entity: ActivityEntity, prev: T[], next: T[], actor: Actor): ActivityEntry[] {
+  const { upserts, deletes, before } = diffById(prev, next);
+  const entry = (action: ActivityAction, x: T, changes: FieldChange[]): ActivityEntry =>
+    ({ id: uid("act"), at: now(), actorId: actor.id, actorName: actor.name, action, entity, entityId: x.id, label: activityLabel(entity, x), changes });
+  return [
+    ...upserts.map(x => {
+      const old = before.get(x.id);
+      if (!old) return entry("create", x, fieldChanges({}, x as Record<string, unknown>));
+      if (!old.deletedAt && x.deletedAt) return entry("delete", x, []);
+      if (old.deletedAt && !x.deletedAt) return entry("restore", x, []);
+      return entry("update", x, fieldChanges(old as Record<string, unknown>, x as Record<string, unknown>));
+    }),
+    ...deletes.map(x => entry("purge", x, [])),
+  ].filter(e => e.action !== "update" || e.changes.length > 0);
+}
+
+const formatChangeValue = (v: unknown) => {
+  if (v === undefined || v === null || v === "") return "—";
+  const text = typeof v === "string" ? v : JSON.stringify(v);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+};
+
+function useActivityLog(ready: boolean){
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  useEffect(() => { if (ready) setEntries(pruneActivity(load<ActivityEntry[]>(LS_KEYS.activity, []))); }, [ready]);
+  useEffect(() => { if (ready) save(LS_KEYS.activity, entries); }, [ready, entries]);
+  const append = useCallback((xs: ActivityEntry[]) => { if (xs.length) setEntries(prev => pruneActivity([...prev, ...xs])); }, []);
+  return { entries, append };
+}
+
+// Drop-in replacement for a collection's setState that logs what changed and who changed it.
+// `onChange` sees the same diff, which is how local edits reach the undo history.
+function useAuditedSetter<T extends Trashable>(value: T[], set: React.Dispatch<React.SetStateAction<T[]>>, entity: ActivityEntity, actor: Actor, append: (xs: ActivityEntry[]) => void, onChange?: (entity: ActivityEntity, prev: T[], next: T[], entries: ActivityEntry[]) => void){
+  const latest = useRef(value); latest.current = value;
+  const actorRef = useRef(actor); actorRef.current = actor;
+  const onChangeRef = useRef(onChange); onChangeRef.current = onChange;
+  return useCallback((action: React.SetStateAction<T[]>) => {
+    const prev = latest.current;
+    const next = typeof action === "function" ? action(prev) : action;
+    latest.current = next;
+    const entries = activityFor(entity, prev, next, actorRef.current);
+    append(entries);
+    onChangeRef.current?.(entity, prev, next, entries);
+    set(next);
+  }, [set, entity, append]);
+}
+
+// ---------- Trash & undo ----------
+// Deleting stamps `deletedAt` and the record moves to the Trash; only purging removes it. Undo/redo
+// replays record-level patches instead of whole-workspace snapshots, so undoing a local edit never
+// rolls back changes that arrived from sync in the meantime.
+type Trashable = { id: string; updatedAt?: number; deletedAt?: number; deletedBy?: string };
+type UndoEntry = { entity: ActivityEntity; label: string; before: Trashable[]; after: Trashable[] };
+
+const UNDO_LIMIT = 50;
+
+const isLive = (x: Trashable) => !x.deletedAt;
+
+function trashRecords<T extends Trashable>(list: T[], ids: string[], by?: string): T[] {
+  const t = now();
+  return list.map(x => ids.includes(x.id) && !x.deletedAt ? { ...x, deletedAt: t, deletedBy: by, updatedAt: t } : x);
+}
+
+function restoreRecords<T extends Trashable>(list: T[], ids: string[]): T[] {
+  const t = now();
+  return list.map(x => {
+    if (!ids.includes(x.id) || !x.deletedAt) return x;
+    const { deletedAt, deletedBy, ...rest } = x;
+    return { ...rest, updatedAt: t } as T;
+  });
+}
+
+// Records in `from` that are missing from `to` are removed, records in `to` are put back. Restored
+// versions get a fresh `updatedAt` so sync treats them as new edits rather than stale ones.
+function applyUndoPatch<T extends Trashable>(list: T[], from: Trashable[], to: Trashable[]): T[] {
+  const t = now();
+  const put = new Map(to.map(x => [x.id, { ...x, updatedAt: t } as T] as const));
+  const drop = new Set(from.map(x => x.id));
+  const present = new Set(list.map(x => x.id));
+  const kept = list.flatMap(x => put.has(x.id) ? [put.get(x.id)!] : drop.has(x.id) ? [] : [x]);
+  return [...[...put.values()].filter(x => !present.has(x.id)), ...kept];
+}
+
+// Photos, artwork and recordings a record stops pointing at may come back with undo, so they are
+// deleted only once neither the records nor the undo history refer to them. The history lives in
+// memory, so ids it alone keeps alive are persisted and cleared on the next start.
+const blobRefs = (records: readonly unknown[]) => records.flatMap((r: any) =>
+  [r?.photoId, r?.artworkId, ...(r?.attachments || []).map((a: AudioAttachment) => a.blobId)]).filter((x): x is string => typeof x === "string" && !!x);
+
+const unreferencedBlobs = (known: Set<string>, live: Set<string>, held: Set<string>) => [...known].filter(id => !live.has(id) && !held.has(id));
+
+function useBlobSweep(ready: boolean, records: { projects: Project[]; guests: Guest[]; series: Series[] }, history: { past: UndoEntry[]; future: UndoEntry[] }){
+  const known = useRef<Set<string> | null>(null);
+  const { projects, guests, series } = records;
+  useEffect(() => {
+    if (!ready) return;
+    const live = new Set(blobRefs([...projects, ...guests, ...series]));
+    const held = new Set(blobRefs([...history.past, ...history.future].flatMap(e => [...e.before, ...e.after])));
+    unreferencedBlobs(known.current ?? new Set(load<string[]>(LS_KEYS.heldBlobs, [])), live, held).forEach(deleteBlob);
+    known.current = new Set([...live, ...held]);
+    save(LS_KEYS.heldBlobs, [...held].filter(id => !live.has(id)));
+  }, [ready, projects, guests, series, history.past, history.future]);
+}
+
+function undoLabel(entity: ActivityEntity, entries: ActivityEntry[]) {
+  if (entries.length === 1) return `${ACTIVITY_VERBS[entries[0].action]} ${entries[0].label}`;
+  const same = entries.every(e => e.action === entries[0].action);
+  return `${same ? ACTIVITY_VERBS[entries[0].action] : "changed"} ${entries.length} ${entity}s`;
+}
+
+function useUndoHistory(){
+  const [stack, setStack] = useState<{ past: UndoEntry[]; future: UndoEntry[] }>({ past: [], future: [] });
+  const replaying = useRef(false);
+
+  const record = useCallback((entity: ActivityEntity, prev: Trashable[], next: Trashable[], entries: ActivityEntry[]) => {
+    if (replaying.current || entries.length === 0) return;
+    const { upserts, deletes, before } = diffById(prev, next);
+    const entry: UndoEntry = { entity, label: undoLabel(entity, entries), before: [...upserts.flatMap(x => before.get(x.id) || []), ...deletes], after: upserts };
+    setStack(s => ({ past: [...s.past, entry].slice(-UNDO_LIMIT), future: [] }));
+  }, []);
+
+  const step = (dir: "undo" | "redo", setters: Record<ActivityEntity, (fn: (prev: any[]) => any[]) => void>) => {
+    const entry = dir === "undo" ? stack.past[stack.past.length - 1] : stack.future[stack.future.length - 1];
+    if (!entry) return;
+    replaying.current = true;
+    try { setters[entry.entity](cur => dir === "undo" ? applyUndoPatch(cur, entry.after, entry.before) : applyUndoPatch(cur, entry.before, entry.after)); }
+    finally { replaying.current = false; }
+    setStack(s => dir === "undo"
+      ? { past: s.past.slice(0, -1), future: [...s.future, entry] }
+      : { past: [...s.past, entry], future: s.future.slice(0, -1) });
+    return entry;
+  };
+
+  const clear = useCallback(() => setStack({ past: [], future: [] }), []);
+  return { past: stack.past, future: stack.future, record, step, clear };
+}
+
+const UNDO_PERMISSIONS: Record<ActivityEntity, { edit: Permission; delete: Permission }> = {
+  project: { edit: "projects.edit", delete: "projects.delete" },
+  guest: { edit: "guests.edit", delete: "guests.delete" },
+  series: { edit: "projects.edit", delete: "projects.delete" },
+  user: { edit: "team.manage", delete: "team.manage" },
+};
+
+// Undo and redo replay an earlier change under the current role, so they pass the same checks as
+// doing it by hand: `can` for the entity (delete rights when trash state changes) and, for the team,
+// the last-admin guard. Editing your own profile needs no team rights, as on the Settings page.
+function undoProblem(entry: UndoEntry, dir: "undo" | "redo", user: User | undefined, users: User[]): string {
+  const [from, to] = dir === "undo" ? [entry.after, entry.before] : [entry.before, entry.after];
+  const perms = UNDO_PERMISSIONS[entry.entity];
+  const ownProfile = entry.entity === "user" && !!user && [...from, ...to].every(x => x.id === user.id && (x as User).role === user.role && isLive(x));
+  if (!ownProfile && !can(user, perms.edit)) return `You don't have permission to ${dir} “${entry.label}”.`;
+  const wasTrashed = new Map(from.map(x => [x.id, !!x.deletedAt]));
+  const touchesTrash = to.some(x => (wasTrashed.get(x.id) ?? false) !== !!x.deletedAt) || from.some(x => x.deletedAt && !to.some(y => y.id === x.id));
+  if (touchesTrash && !can(user, perms.delete)) return `You don't have permission to ${dir} “${entry.label}”.`;
+  if (entry.entity !== "user") return "";
+  let team = users;
+  const result = new Map((to as User[]).map(u => [u.id, u] as const));
+  for (const id of new Set([...from, ...to].map(x => x.id))) {
+    const next = result.get(id);
+    const nextRole = next && isLive(next) && !next.invite ? next.role : null;
+    const problem = lastAdminProblem(team, id, nextRole);
+    if (problem) return problem;
+    team = [...team.filter(u => u.id !== id), ...(next ? [next] : [])];
+  }
+  return "";
+}
+
+type UndoHandle = { undoLabel?: string; redoLabel?: string; undo: () => void; redo: () => void };
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their native undo.
+function useUndoShortcuts(handle: UndoHandle){
+  const ref = useRef(handle); ref.current = handle;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) { e.preventDefault(); ref.current.undo(); }
+      else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); ref.current.redo(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+}
+
+// ---------- Checklists ----------
+// Each series has a template; new episodes get a copy of it. Projects saved before templates
+// existed carried four fixed flags, which map onto the default template's items.
+const DEFAULT_CHECKLIST_TEMPLATE: ChecklistTemplateItem[] = [
+  { id: "research", label: "Research" },
+  { id: "questions", label: "Questions" },
+  { id: "equipment", label: "Equipment" },
+  { id: "thumbnails", label: "Thumbnails" },
+];
+
+const checklistTemplateFor = (list: Series[], series: string) => seriesNamed(list, series)?.checklist ?? DEFAULT_CHECKLIST_TEMPLATE;
+
+function newChecklist(template: ChecklistTemplateItem[], recordAt?: ScheduledTime): Checklist {
+  const recordDay = recordAt && wallTimeIn(recordAt.at, recordAt.tz).slice(0, 10);
+  return template.map(t => ({
+    id: t.id, label: t.label, done: false, assigneeId: t.assigneeId,
+    due: recordDay && t.dueDaysBefore !== undefined ? addDays(recordDay, -t.dueDaysBefore) : undefined,
+  }));
+}
+
+// Template items the project doesn't have yet, e.g. after the template gained an item.
+const missingChecklistItems = (checklist: Checklist, template: ChecklistTemplateItem[], recordAt?: ScheduledTime) =>
+  newChecklist(template.filter(t => !checklist.some(i => i.id === t.id)), recordAt);
+
+// Items made before the project had a record date get their template due date once it is set;
+// dates already on an item are left alone.
+function fillChecklistDueDates(checklist: Checklist, template: ChecklistTemplateItem[], recordAt?: ScheduledTime): Checklist {
+  if (!recordAt) return checklist;
+  const dated = new Map(newChecklist(template, recordAt).map(i => [i.id, i.due] as const));
+  return checklist.map(i => i.due || !dated.get(i.id) ? i : { ...i, due: dated.get(i.id) });
+}
+
+function legacyChecklist(flags: any): Checklist {
+  return DEFAULT_CHECKLIST_TEMPLATE.map(t => ({ id: t.id, label: t.label, done: !!flags?.[t.id] }));
+}
+
+function upgradeProjectChecklist<T extends Project>(p: T): T {
+  if (Array.isArray(p.checklist)) return p;
+  const checklist = legacyChecklist(p.checklist);
+  return { ...p, checklist, progressPct: calcProgress(checklist) };
+}
+
+// ---------- Series ----------
+// Series used to exist only as names typed into projects. Any name a project uses without a record
+// (older data, sync, restored backups) gets one, so pickers never lose a series.
+const slugify = (name: string) => foldText(name).replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "series";
+
+function uniqueSlug(name: string, taken: string[]) {
+  const base = slugify(name);
+  let slug = base;
+  for (let n = 2; taken.includes(slug); n++) slug = `${base}-${n}`;
+  return slug;
+}
+
+const seriesNamed = (list: Series[], name: string) => list.find(x => x.name === name);
+const activeSeries = (list: Series[]) => list.filter(x => !x.archivedAt).sort((a, b) => a.name.localeCompare(b.name));
+
+function newSeries(name: string, list: Series[], patch: Partial<Series> = {}): Series {
+  return { id: uid("ser"), name, slug: uniqueSlug(name, list.map(x => x.slug)), hostIds: [], createdAt: now(), updatedAt: now(), ...patch };
+}
+
+// Returns `list` itself when every name already has a record.
+function ensureSeries(list: Series[], names: string[]): Series[] {
+  const missing = [...new Set(names.filter(n => n && !seriesNamed(list, n)))];
+  return missing.length ? missing.reduce((acc, name) => [...acc, newSeries(name, acc)], list) : list;
+}
+
+function seriesProblem(list: Series[], draft: Pick<Series, "id" | "name" | "slug">) {
+  if (!draft.name.trim()) return "A series needs a name.";
+  const others = list.filter(x => x.id !== draft.id);
+  if (others.some(x => x.name.trim().toLowerCase() === draft.name.trim().toLowerCase())) return `There is already a series called “${draft.name.trim()}”.`;
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(draft.slug)) return "The slug may only use lower-case letters, digits and single dashes.";
+  if (others.some(x => x.slug === draft.slug)) return `The slug “${draft.slug}” is already used.`;
+  return "";
+}
+
+// Renaming moves every episode (trashed ones included) and the episode counter to the new name.
+const renameSeriesProjects = (projects: Project[], from: string, to: string) =>
+  from === to ? projects : projects.map(p => p.series === from ? { ...p, series: to, updatedAt: now() } : p);
+
+// Season counters ("Name#S2") move along with the series counter.
+function renameSeriesCounter(seqMap: Record<string, number>, from: string, to: string) {
+  if (from === to) return seqMap;
+  const next = { ...seqMap };
+  for (const [key, last] of Object.entries(seqMap)) {
+    if (key !== from && !key.startsWith(`${from}#S`)) continue;
+    const moved = to + key.slice(from.length);
+    delete next[key];
+    next[moved] = Math.max(last, seqMap[moved] || 0);
+  }
+  return next;
+}
+
+// Series records for every name in use, with the per-series checklist templates that used to live
+// in settings moved onto them.
+function seriesFromLegacy(list: Series[], names: string[], templates: Settings["checklistTemplates"] = {}) {
+  const ensured = ensureSeries(list, [...names, ...Object.keys(templates)]);
+  const moved = ensured.filter(x => !x.checklist && Array.isArray(templates[x.name])).length;
+  const series = moved ? ensured.map(x => !x.checklist && Array.isArray(templates[x.name]) ? { ...x, checklist: templates[x.name] } : x) : ensured;
+  return { series, created: ensured.length - list.length, moved };
+}
+
+// ---------- Episode numbering ----------
+// Full episodes are numbered per series, or per season when they have one; bonus and trailer
+// episodes carry no number. Duplicates can still arise (hand-edited numbers, restored or synced
+// episodes), so they are detected rather than prevented, and the renumber tool closes gaps.
+const isNumbered = (p: Pick<Project, "episodeType">) => (p.episodeType ?? "full") === "full";
+const seqKey = (series: string, season?: number) => season ? `${series}#S${season}` : series;
+function episodeLabel(p: Pick<Project, "episodeNumber" | "season" | "episodeType">) {
+  const season = p.season ? `S${pad2(p.season)}` : "";
+  if (!isNumbered(p)) return [season, p.episodeType === "trailer" ? "Trailer" : "Bonus"].filter(Boolean).join(" ");
+  return season ? `${season}E${pad2(p.episodeNumber)}` : `Ep ${p.episodeNumber}`;
+}
+
+const projectLabel = (p: Project) => `${p.series} ${episodeLabel(p)}: ${p.title || "Untitled"}`;
+
+const sameEpisodeSlot = (a: Project, b: Project) =>
+  a.id !== b.id && isNumbered(a) && isNumbered(b) && a.series === b.series && (a.season || 0) === (b.season || 0) && a.episodeNumber === b.episodeNumber;
+
+// Other live episodes holding the same number in the same series and season.
+const episodeClashes = (projects: Project[], p: Project) => projects.filter(x => isLive(x) && sameEpisodeSlot(x, p));
+
+// Groups of two or more live episodes sharing a number, ordered by series, season and number.
+function duplicateEpisodes(projects: Project[]): Project[][] {
+  const groups = new Map<string, Project[]>();
+  for (const p of projects.filter(x => isLive(x) && isNumbered(x))) {
+    const key = `${seqKey(p.series, p.season)}#${p.episodeNumber}`;
+    groups.set(key, [...(groups.get(key) || []), p]);
+  }
+  return [...groups.values()].filter(g => g.length > 1)
+    .sort((a, b) => a[0].series.localeCompare(b[0].series) || (a[0].season || 0) - (b[0].season || 0) || a[0].episodeNumber - b[0].episodeNumber);
+}
+
+const seasonsOf = (projects: Project[], series: string) =>
+  [...new Set(projects.filter(p => isLive(p) && p.series === series).map(p => p.season || 0))].sort((a, b) => a - b);
+
+// New episodes go into the series' latest season.
+const latestSeason = (projects: Project[], series: string) => seasonsOf(projects, series).pop() || undefined;
+
+type RenumberOrder = "number" | "recorded";
+type RenumberChange = { project: Project; from: number; to: number };
+
+// Numbers the live full episodes of one series/season consecutively from `start`, ordered by their
+// current number or by record date (unscheduled last). Only episodes whose number changes are listed.
+function planRenumber(projects: Project[], series: string, season: number | undefined, order: RenumberOrder, start = 1): RenumberChange[] {
+  const eps = projects.filter(p => isLive(p) && isNumbered(p) && p.series === series && (p.season || 0) === (season || 0));
+  const byNumber = (a: Project, b: Project) => a.episodeNumber - b.episodeNumber || a.createdAt - b.createdAt;
+  eps.sort(order === "number" ? byNumber : (a, b) => compareSchedules(a.scheduledRecordAt, b.scheduledRecordAt) || byNumber(a, b));
+  return eps.map((project, i) => ({ project, from: project.episodeNumber, to: start + i })).filter(c => c.from !== c.to);
+}
+
+function applyRenumber(projects: Project[], changes: RenumberChange[]): Project[] {
+  const to = new Map(changes.map(c => [c.project.id, c.to] as const));
+  const t = now();
+  return projects.map(p => to.has(p.id) ? { ...p, episodeNumber: to.get(p.id)!, updatedAt: t } : p);
+}
+
+// ---------- Participants ----------
+// Projects list their guests with a per-episode role; a guest's appearances are looked up from the
+// projects rather than stored on the guest. Older projects had a single optional `guestId`.
+const ICS_PARTICIPANT_ROLES: Record<ParticipantRole, string> = { guest: "REQ-PARTICIPANT", "co-host": "REQ-PARTICIPANT", moderator: "CHAIR" };
+
+function upgradeProjectParticipants<T extends Project>(p: T): T {
+  if (Array.isArray(p.participants)) return p;
+  const { guestId, ...rest } = p as T & { guestId?: string };
+  return { ...rest, participants: guestId ? [{ guestId, role: "guest" }] : [] } as unknown as T;
+}
+
+// Billed guests that still exist, with their role on this episode.
+function projectGuests(p: Project, guests: Guest[]) {
+  return p.participants.flatMap(x => {
+    const guest = guests.find(g => g.id === x.guestId);
+    return guest ? [{ guest, role: x.role }] : [];
+  });
+}
+
+const participantNames = (p: Project, guests: Guest[]) =>
+  projectGuests(p, guests).map(({ guest, role }) => role === "guest" ? guest.name : `${guest.name} (${role})`).join(", ");
+
+// Newest first: by record date, then by when the project was created.
+function guestAppearances(projects: Project[], guestId: string) {
+  return projects
+    .flatMap(project => project.participants.filter(x => x.guestId === guestId).map(x => ({ project, role: x.role })))
+    .sort((a, b) => compareSchedules(b.project.scheduledRecordAt, a.project.scheduledRecordAt) || b.project.createdAt - a.project.createdAt);
+}
+
+// ---------- Guest outreach ----------
+// Where each guest is in the booking process, what was said when, and when to chase them next.
+const OUTREACH_LABELS: Record<OutreachStage, string> = {
+  prospect: "Prospect", contacted: "Contacted", confirmed: "Confirmed", recorded: "Recorded", declined: "Declined", thanked: "Thank-you sent",
+};
+const OUTREACH_BADGE: Record<OutreachStage, string> = {
+  prospect:  "bg-zinc-800 text-zinc-300",
+  contacted: "bg-blue-800/30 text-blue-300 border border-blue-700/40",
+  confirmed: "bg-emerald-800/30 text-emerald-300 border border-emerald-700/40",
+  recorded:  "bg-violet-800/30 text-violet-300 border border-violet-700/40",
+  declined:  "bg-slate-800 text-slate-400",
+  thanked:   "bg-amber-800/30 text-amber-300 border border-amber-700/40",
+};
+
+const outreachStage = (g: Guest): OutreachStage => g.outreach ?? "prospect";
+
+// Keeps the log newest first. Reaching out to a prospect makes them "contacted".
+function logContact(g: Guest, entry: Omit<GuestContact, "id">): Guest {
+  const contactLog = [{ id: uid("ctc"), ...entry }, ...(g.contactLog || [])].sort((a, b) => b.on.localeCompare(a.on));
+  return { ...g, contactLog, outreach: outreachStage(g) === "prospect" ? "contacted" : g.outreach };
+}
+
+// Guests whose follow-up is due on or before `today`, most overdue first.
+const followUpsDue = (guests: Guest[], today: string) =>
+  guests.filter(g => g.followUp?.due && g.followUp.due <= today).sort((a, b) => a.followUp!.due.localeCompare(b.followUp!.due));
+
+// ---------- Guest directory ----------
+// Search, topic lists and duplicate detection. Merging keeps one record, fills its gaps from the
+// other, moves every episode booking across and sends the leftover record to the Trash.
+const guestTopics = (g: Guest) => uniqueBy((g.topics || "").split(/[,;\n]/).map(t => t.trim()).filter(Boolean), t => t.toLowerCase());
+
+function uniqueBy<T>(list: T[], key: (x: T) => string): T[] {
+  const seen = new Set<string>();
+  return list.filter(x => { const k = key(x); return seen.has(k) ? false : (seen.add(k), true); });
+}
+
+// Every word of the query has to appear somewhere in the guest's searchable text.
+function guestMatches(g: Guest, query: string) {
+  const words = foldText(query).split(/\s+/).filter(Boolean);
+  if (!words.length) return true;
+  const text = foldText([g.name, g.company, g.email, g.bio, g.topics].filter(Boolean).join(" "));
+  return words.every(w => text.includes(w));
+}
+
+const foldText = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+const NAME_TITLES = new Set(["dr", "mr", "mrs", "ms", "mx", "prof", "sir", "phd", "md", "jr", "sr"]);
+
+// Lower-case, accent-free name words with titles dropped.
+const nameWords = (name: string) =>
+  foldText(name).replace(/[^a-z0-9\s]/g, " ").split(/\s+/).filter(w => w && !NAME_TITLES.has(w));
+
+type DuplicateReason = "email" | "name";
+type GuestDuplicate = { a: Guest; b: Guest; reason: DuplicateReason };
+
+function editDistance(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed per word: none for initials and two-letter words, two for long words.
+const closeWords = (a: string, b: string) => a === b || editDistance(a, b) <= (Math.min(a.length, b.length) < 3 ? 0 : Math.max(a.length, b.length) < 8 ? 1 : 2);
+
+// Same number of name words, each within a typo of its partner (in order or sorted) and at least one
+// identical, so "Jane Smyth" matches "Smith, Dr. Jane" but "Tom Hill" does not match "Tim Bill".
+function similarNames(a: string[], b: string[]) {
+  if (!a.length || a.length !== b.length) return false;
+  const pairUp = (x: string[], y: string[]) => x.every((w, i) => closeWords(w, y[i])) && x.some((w, i) => w === y[i]);
+  return pairUp(a, b) || pairUp([...a].sort(), [...b].sort());
+}
+
+// Emails at the same domain whose local parts differ by one typo ("jon.doe@" / "john.doe@").
+function similarEmails(a?: string, b?: string) {
+  const [la, da] = (a?.trim().toLowerCase() || "").split("@"), [lb, db] = (b?.trim().toLowerCase() || "").split("@");
+  return !!da && da === db && (la === lb || (Math.min(la.length, lb.length) >= 4 && editDistance(la, lb) <= 1));
+}
+
+// Pairs with the same or a nearly identical email, or nearly identical names once normalised
+// (accents, titles and word order dropped). Misses dismissed as "Not a duplicate" are remembered in
+// settings, so the match can stay loose. Pairs are listed once, older record first.
+function findDuplicateGuests(guests: Guest[]): GuestDuplicate[] {
+  const sorted = [...guests].sort((a, b) => a.createdAt - b.createdAt);
+  const words = sorted.map(g => nameWords(g.name));
+  const out: GuestDuplicate[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const a = sorted[i], b = sorted[j];
+      if (similarEmails(a.email, b.email)) out.push({ a, b, reason: "email" });
+      else if (similarNames(words[i], words[j])) out.push({ a, b, reason: "name" });
+    }
+  }
+  return out;
+}
+
+// `keep` wins wherever both records have a value; its empty fields are filled from `drop`.
+function mergeGuests(keep: Guest, drop: Guest): Guest {
+  const merged: Guest = { ...keep };
+  for (const k of ["company", "email", "bio", "socials", "photoId", "photoDataUrl", "plannedQuestions", "timezone"] as const) {
+    if (!merged[k]?.trim()) merged[k] = drop[k];
+  }
+  const join = (a?: string, b?: string) => a?.trim() && b?.trim() && a.trim() !== b.trim() ? `${a.trim()}\n\n${b.trim()}` : (a?.trim() || b?.trim() || undefined);
+  merged.notes = join(keep.notes, drop.notes);
+  const topics = uniqueBy([...guestTopics(keep), ...guestTopics(drop)], t => t.toLowerCase());
+  merged.topics = topics.length ? topics.join(", ") : undefined;
+  if (outreachStage(keep) === "prospect") merged.outreach = drop.outreach ?? keep.outreach;
+  if (!keep.followUp || (drop.followUp && drop.followUp.due < keep.followUp.due)) merged.followUp = drop.followUp ?? keep.followUp;
+  const log = [...(keep.contactLog || []), ...(drop.contactLog || [])].sort((a, b) => b.on.localeCompare(a.on));
+  merged.contactLog = log.length ? log : undefined;
+  merged.createdAt = Math.min(keep.createdAt, drop.createdAt);
+  return merged;
+}
+
+// Points bookings of `fromId` at `toId`. If both were on the same episode the surviving record keeps
+// its own role. Only changed projects get a new `updatedAt`.
+function repointParticipants(projects: Project[], fromId: string, toId: string): Project[] {
+  return projects.map(p => {
+    if (!p.participants.some(x => x.guestId === fromId)) return p;
+    const participants = p.participants.some(x => x.guestId === toId)
+      ? p.participants.filter(x => x.guestId !== fromId)
+      : p.participants.map(x => x.guestId === fromId ? { ...x, guestId: toId } : x);
+    return { ...p, participants, updatedAt: now() };
+  });
+}
+
+// ---------- Guest import / export (vCard 3.0, CSV) ----------
+// Both formats become import candidates that are validated and checked against the directory before
+// anything is added; CSV columns are mapped to guest fields first. vCards carry the public profile
+// (with the photo embedded); CSV carries every text field.
+const GUEST_CSV_FIELDS = ["name", "company", "email", "bio", "socials", "topics", "plannedQuestions", "notes", "timezone", "outreach"] as const;
+type GuestCsvField = typeof GUEST_CSV_FIELDS[number];
+// First/last name columns (as in most contact exports) are joined into `name`.
+type CsvColumnTarget = GuestCsvField | "firstName" | "lastName" | "";
+
+const GUEST_FIELD_LABELS: Record<Exclude<CsvColumnTarget, "">, string> = {
+  name: "Name", firstName: "First name", lastName: "Last name", company: "Company", email: "Email", bio: "Bio", socials: "Socials",
+  topics: "Topics", plannedQuestions: "Planned questions", notes: "Notes", timezone: "Time zone", outreach: "Outreach",
+};
+
+const CSV_HEADER_ALIASES: Record<Exclude<CsvColumnTarget, "">, string[]> = {
+  name: ["name", "fullname", "displayname", "guest", "guestname"],
+  firstName: ["firstname", "givenname", "first"],
+  lastName: ["lastname", "familyname", "surname", "last"],
+  company: ["company", "organization", "organisation", "org", "employer"],
+  email: ["email", "emailaddress", "mail", "email1value"],
+  bio: ["bio", "biography", "about", "description"],
+  socials: ["socials", "social", "website", "url", "links", "twitter"],
+  topics: ["topics", "tags", "categories", "expertise"],
+  plannedQuestions: ["plannedquestions", "questions"],
+  notes: ["notes", "note", "comments"],
+  timezone: ["timezone", "tz", "zone"],
+  outreach: ["outreach", "stage"],
 };
 
-type Project = {
-  id: string;
-  title: string;
-  series: string; // NEW: per‑series grouping
-  episodeNumber: number; // per‑series auto‑increment
-  description?: string;
-  beforeNotes?: string; // NEW side‑by‑side
-  afterNotes?: string;  // NEW side‑by‑side
-  status: Status;
-  priority: Priority;
-  tags: string[];
-  scheduledRecordAt?: string;
-  scheduledPublishAt?: string;
-  durationEstimateMin?: number;
-  guestId?: string;
-  checklist: Checklist;
-  progressPct: number;
-  createdAt: number;
-  updatedAt: number;
+type GuestImportCandidate = Omit<Guest, "id" | "createdAt" | "photoId">;
+type GuestImportRow = { key: string; guest: GuestImportCandidate; errors: string[]; warnings: string[]; duplicateOf?: string };
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// RFC 4180: quoted fields may hold delimiters, doubled quotes and line breaks. The delimiter is
+// whichever of comma, semicolon or tab appears most in the header line.
+function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const header = src.slice(0, src.search(/\r?\n|$/)).replace(/"[^"]*"/g, "");
+  const delim = [",", ";", "\t"].reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, ",");
+  const rows: string[][] = [];
+  let row: string[] = [], field = "", quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === delim) { row.push(field); field = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field); rows.push(row); row = []; field = "";
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(v => v.trim()));
+}
+
+// Spreadsheets run cells starting with = + - @ as formulas, so those get a leading apostrophe;
+// `csvGuests` strips it again on the way back in.
+const csvCell = (raw = "") => {
+  const value = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
 };
 
-const LS_KEYS = {
-  users: "pp_users_v1",
-  projects: "pp_projects_v2", // bump schema due to series/before/after
-  guests: "pp_guests_v2",     // bump schema due to photos/questions/topics
-  session: "pp_session_v1",
-  seq: "pp_sequence_v1",      // legacy global
-  seqMap: "pp_series_seq_map_v1", // NEW per‑series counters
-  settings: "pp_settings_v1", // stores OpenAI key and chat toggle
-} as const;
+function buildGuestsCsv(guests: Guest[]) {
+  const lines = [GUEST_CSV_FIELDS.map(f => GUEST_FIELD_LABELS[f]), ...guests.map(g => GUEST_CSV_FIELDS.map(f => g[f] || ""))];
+  return lines.map(l => l.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
 
-// ---------- Utilities ----------
-const uid = (prefix = "id") => `${prefix}_${Math.random().toString(36).slice(2, 10)}_${Date.now()}`;
-const now = () => Date.now();
-const load = <T,>(key: string, fallback: T): T => {
-  try {
-    const raw = localStorage.getItem(key);
-    return raw ? (JSON.parse(raw) as T) : fallback;
-  } catch {
-    return fallback;
+const csvHeaderKey = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function guessCsvMapping(headers: string[]): CsvColumnTarget[] {
+  const used = new Set<CsvColumnTarget>();
+  return headers.map(h => {
+    const key = csvHeaderKey(h);
+    const hit = (Object.keys(CSV_HEADER_ALIASES) as Exclude<CsvColumnTarget, "">[]).find(f => !used.has(f) && CSV_HEADER_ALIASES[f].includes(key));
+    if (hit) used.add(hit);
+    return hit || "";
+  });
+}
+
+function csvGuests(rows: string[][], mapping: CsvColumnTarget[]): GuestImportCandidate[] {
+  return rows.map(row => {
+    const cells: Partial<Record<CsvColumnTarget, string>> = {};
+    mapping.forEach((target, i) => { const v = row[i]?.trim().replace(/^'(?=[=+\-@])/, ""); if (target && v) cells[target] = cells[target] ? `${cells[target]}\n${v}` : v; });
+    const guest: GuestImportCandidate = { name: cells.name || [cells.firstName, cells.lastName].filter(Boolean).join(" ") };
+    for (const f of GUEST_CSV_FIELDS) if (f !== "name" && f !== "outreach" && cells[f]) guest[f] = cells[f];
+    if (cells.outreach) {
+      const v = cells.outreach.toLowerCase();
+      guest.outreach = OUTREACH_STAGES.find(st => st === v || OUTREACH_LABELS[st].toLowerCase() === v) ?? v as OutreachStage;
+    }
+    return guest;
+  });
+}
+
+// vCard values use the iCalendar escapes; structured values (N, ORG) split on unescaped semicolons.
+const vcardParts = (value: string) => value.split(/(?<!\\);/).map(icsUnescape);
+
+// Looser than `icsProperty`: accepts item-group prefixes ("item1.EMAIL") and vCard 2.1 bare
+// parameters ("EMAIL;INTERNET;PREF").
+function vcardProperty(line: string): IcsProperty | null {
+  const m = /^(?:[A-Za-z0-9-]+\.)?([A-Za-z0-9-]+)((?:;(?:"[^"]*"|[^:;])*)*):(.*)$/.exec(line);
+  if (!m) return null;
+  const params: Record<string, string> = {};
+  for (const x of m[2].matchAll(/;([^;=:]+)(?:=("[^"]*"|[^;:]*))?/g)) {
+    if (x[2] === undefined) params.TYPE = params.TYPE ? `${params.TYPE},${x[1]}` : x[1];
+    else params[x[1].toUpperCase()] = x[2].replace(/^"|"$/g, "");
+  }
+  return { name: m[1].toUpperCase(), params, value: m[3] };
+}
+
+function parseVcards(text: string): GuestImportCandidate[] {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const out: GuestImportCandidate[] = [];
+  let card: IcsProperty[] | null = null;
+  for (const line of lines) {
+    const prop = vcardProperty(line);
+    if (!prop) continue;
+    if (prop.name === "BEGIN" && prop.value.toUpperCase() === "VCARD") { card = []; continue; }
+    if (prop.name === "END" && card) {
+      const all = (name: string) => card!.filter(x => x.name === name);
+      const get = (name: string) => all(name)[0];
+      const n = get("N") && vcardParts(get("N")!.value);
+      const guest: GuestImportCandidate = { name: icsUnescape(get("FN")?.value || "").trim() || (n ? [n[3], n[1], n[0], n[4]].filter(Boolean).join(" ") : "") };
+      const company = get("ORG") && vcardParts(get("ORG")!.value)[0];
+      if (company) guest.company = company;
+      const email = all("EMAIL").find(x => /pref/i.test(x.params.TYPE || "") || x.params.PREF) || get("EMAIL");
+      if (email) guest.email = email.value.trim();
+      if (get("NOTE")) guest.bio = icsUnescape(get("NOTE")!.value);
+      const links = [...all("URL"), ...all("X-SOCIALPROFILE")].map(x => icsUnescape(x.value).trim()).filter(Boolean);
+      if (links.length) guest.socials = links.join("\n");
+      const topics = all("CATEGORIES").flatMap(x => x.value.split(/(?<!\\),/).map(icsUnescape)).map(t => t.trim()).filter(Boolean);
+      if (topics.length) guest.topics = topics.join(", ");
+      const tz = get("TZ") && icsUnescape(get("TZ")!.value).trim();
+      if (tz) guest.timezone = tz;
+      const photo = get("PHOTO");
+      if (photo) {
+        const value = photo.value.trim();
+        if (/^data:/i.test(value)) guest.photoDataUrl = value;
+        else if (/^b(ase64)?$/i.test(photo.params.ENCODING || "")) guest.photoDataUrl = `data:image/${(photo.params.TYPE || "jpeg").toLowerCase().split(",")[0]};base64,${value.replace(/\s/g, "")}`;
+      }
+      out.push(guest);
+      card = null;
+      continue;
+    }
+    card?.push(prop);
+  }
+  return out;
+}
+
+// `photos` maps guest ids to data URLs read from blob storage; legacy inline photos are used as-is.
+function buildVcards(guests: Guest[], photos: Record<string, string> = {}) {
+  const cards = guests.flatMap(g => {
+    const words = g.name.trim().split(/\s+/);
+    const family = words.length > 1 ? words.pop()! : "";
+    const photo = /^data:([^;,]+);base64,(.*)$/.exec(photos[g.id] || g.photoDataUrl || "");
+    const topics = guestTopics(g);
+    return [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      `PRODID:${ICS_PRODID}`,
+      `UID:studiocast-guest-${g.id}`,
+      `FN:${icsEscape(g.name)}`,
+      `N:${icsEscape(family)};${icsEscape(words.join(" "))};;;`,
+      ...(g.company ? [`ORG:${icsEscape(g.company)}`] : []),
+      ...(g.email ? [`EMAIL;TYPE=INTERNET:${g.email}`] : []),
+      ...(g.bio ? [`NOTE:${icsEscape(g.bio)}`] : []),
+      ...(g.socials || "").split(/\r?\n/).map(x => x.trim()).filter(Boolean).map(x => `URL:${icsEscape(x)}`),
+      ...(topics.length ? [`CATEGORIES:${topics.map(icsEscape).join(",")}`] : []),
+      ...(g.timezone ? [`TZ;VALUE=text:${icsEscape(g.timezone)}`] : []),
+      ...(photo ? [`PHOTO;ENCODING=b;TYPE=${photo[1].split("/")[1]?.toUpperCase() || "JPEG"}:${photo[2]}`] : []),
+      "END:VCARD",
+    ];
+  });
+  return cards.map(icsFold).join("\r\n") + "\r\n";
+}
+
+// Rows without a name or with a malformed email can't be imported. Unknown time zones, outreach
+// stages and undecodable photos are dropped with a warning. Matches against the directory (or an earlier row) by email or
+// name are flagged so the preview can leave them unticked.
+function planGuestImport(candidates: GuestImportCandidate[], existing: Guest[]): GuestImportRow[] {
+  const seen = existing.map(g => ({ label: g.name, email: g.email?.trim().toLowerCase(), name: [...nameWords(g.name)].sort().join(" ") }));
+  return candidates.map((c, i) => {
+    const guest: GuestImportCandidate = { ...c, name: c.name.trim(), email: c.email?.trim() || undefined };
+    const errors: string[] = [], warnings: string[] = [];
+    if (!guest.name) errors.push("missing name");
+    if (guest.email && !isValidEmail(guest.email)) errors.push(`invalid email “${guest.email}”`);
+    if (guest.timezone && !isValidTimeZone(guest.timezone)) { warnings.push(`unknown time zone “${guest.timezone}” dropped`); delete guest.timezone; }
+    if (guest.outreach && !OUTREACH_STAGES.includes(guest.outreach)) { warnings.push(`unknown outreach stage “${guest.outreach}” dropped`); delete guest.outreach; }
+    if (guest.photoDataUrl) {
+      let readable = false;
+      try { readable = dataUrlToBlob(guest.photoDataUrl).size > 0; } catch {}
+      if (!readable) { warnings.push("unreadable photo dropped"); delete guest.photoDataUrl; }
+    }
+    const email = guest.email?.toLowerCase(), name = [...nameWords(guest.name)].sort().join(" ");
+    const dupe = seen.find(x => (email && x.email === email) || (name && x.name === name));
+    if (!errors.length) seen.push({ label: guest.name, email, name });
+    return { key: `${i}`, guest, errors, warnings, duplicateOf: dupe?.label };
+  });
+}
+
+// ---------- Assignments ----------
+// Open work is every assigned project and unticked checklist item in a project that isn't finished.
+// Due dates are calendar days in the viewer's zone: an item's own date, a project's publish (else
+// record) date.
+type WorkItem = { key: string; project: Project; item?: ChecklistItem; assigneeId: string; label: string; due?: string };
+
+function openWork(projects: Project[], workflow: Workflow, viewerTz: string, assigneeId?: string): WorkItem[] {
+  const work: WorkItem[] = [];
+  for (const p of projects) {
+    const kind = stageOf(workflow, p.status).kind;
+    if (!isLive(p) || kind === "completed" || kind === "archived") continue;
+    const when = p.scheduledPublishAt || p.scheduledRecordAt;
+    if (p.assigneeId) work.push({ key: p.id, project: p, assigneeId: p.assigneeId, label: p.title || "Untitled", due: when && wallTimeIn(when.at, viewerTz).slice(0, 10) });
+    for (const item of p.checklist) {
+      if (!item.done && item.assigneeId) work.push({ key: `${p.id}:${item.id}`, project: p, item, assigneeId: item.assigneeId, label: item.label, due: item.due });
+    }
   }
+  return work
+    .filter(w => !assigneeId || w.assigneeId === assigneeId)
+    .sort((a, b) => (a.due || "\uffff").localeCompare(b.due || "\uffff") || a.label.localeCompare(b.label));
+}
+
+const isOverdue = (w: WorkItem, today: string) => !!w.due && w.due < today;
+
+function setChecklistItemDone(p: Project, itemId: string, done: boolean): Project {
+  const checklist = p.checklist.map(i => i.id === itemId ? { ...i, done } : i);
+  return { ...p, checklist, progressPct: calcProgress(checklist), updatedAt: now() };
+}
+
+// ---------- Workflow ----------
+// Stages are ordered; each lists the stages a project may move to next and the conditions a project
+// must meet to enter it. Stage ids are what projects store, so they never change once created.
+type WorkflowGuard = keyof typeof WORKFLOW_GUARDS;
+type WorkflowStage = { id: Status; label: string; kind: StageKind; color: StageColor; next: Status[]; guards: WorkflowGuard[] };
+type Workflow = { stages: WorkflowStage[] };
+
+const WORKFLOW_GUARDS = {
+  checklistComplete: { label: "all checklist items done", check: (p: Project) => p.checklist.every(i => i.done) },
+  recordDateSet:     { label: "record date set",          check: (p: Project) => !!p.scheduledRecordAt },
+  publishDateSet:    { label: "publish date set",         check: (p: Project) => !!p.scheduledPublishAt },
+  guestAssigned:     { label: "guest assigned",           check: (p: Project) => p.participants.length > 0 },
+  titleSet:          { label: "title set",                check: (p: Project) => !!p.title.trim() },
 };
-const save = <T,>(key: string, value: T) => {
-  try { localStorage.setItem(key, JSON.stringify(value)); } catch {}
+
+// The four original statuses, with every move allowed.
+const DEFAULT_WORKFLOW: Workflow = {
+  stages: ([["draft", "zinc"], ["active", "blue"], ["completed", "emerald"], ["archived", "slate"]] as const).map(([id, color]) => ({
+    id, label: id[0].toUpperCase() + id.slice(1), kind: id, color, guards: [],
+    next: STAGE_KINDS.filter(k => k !== id),
+  })),
 };
-const classNames = (...xs: (string | false | undefined)[]) => xs.filter(Boolean).join(" ");
 
-const calcProgress = (c: Checklist) => {
-  const done = [c.research, c.questions, c.equipment, c.thumbnails].filter(Boolean).length;
-  return Math.round((done / 4) * 100);
+// Settings come from storage and backups, so anything malformed falls back to the default.
+function normalizeWorkflow(raw: any): Workflow {
+  const stages: any[] = Array.isArray(raw?.stages) ? raw.stages.filter((s: any) => typeof s?.id === "string" && s.id) : [];
+  const ids = new Set(stages.map(s => s.id));
+  if (!stages.length || ids.size !== stages.length) return DEFAULT_WORKFLOW;
+  return { stages: stages.map(s => ({
+    id: s.id,
+    label: typeof s.label === "string" && s.label.trim() ? s.label : s.id,
+    kind: (STAGE_KINDS as readonly string[]).includes(s.kind) ? s.kind : "active",
+    color: (STAGE_COLORS as readonly string[]).includes(s.color) ? s.color : "zinc",
+    next: Array.isArray(s.next) ? s.next.filter((id: any) => ids.has(id) && id !== s.id) : [],
+    guards: Array.isArray(s.guards) ? s.guards.filter((g: any) => g in WORKFLOW_GUARDS) : [],
+  })) };
+}
+
+// Projects can hold a stage that was since removed (restored backups, other devices); treat it as a
+// draft that may move anywhere so it can be put back on track.
+function stageOf(workflow: Workflow, id: Status): WorkflowStage {
+  return workflow.stages.find(s => s.id === id)
+    || { id, label: id, kind: "draft", color: "zinc", guards: [], next: workflow.stages.map(s => s.id) };
+}
+
+// Why `project` may not enter stage `to` coming from `from` ("" when it may). New projects have no
+// `from` and only need to meet the guards.
+function transitionProblem(workflow: Workflow, project: Project, to: Status, from?: Status): string {
+  const target = stageOf(workflow, to);
+  if (from !== undefined && from !== to && !stageOf(workflow, from).next.includes(to))
+    return `Can't move from “${stageOf(workflow, from).label}” to “${target.label}”.`;
+  if (from === to) return "";
+  const unmet = target.guards.filter(g => !WORKFLOW_GUARDS[g].check(project)).map(g => WORKFLOW_GUARDS[g].label);
+  return unmet.length ? `“${target.label}” needs ${unmet.join(", ")}.` : "";
+}
+
+// Moves every selected project that is allowed to go to `to`; the rest are reported back.
+function bulkMove(projects: Project[], ids: string[], to: Status, workflow: Workflow) {
+  const skipped: { project: Project; reason: string }[] = [];
+  const t = now();
+  const next = projects.map(p => {
+    if (!ids.includes(p.id) || p.status === to) return p;
+    const reason = transitionProblem(workflow, p, to, p.status);
+    if (reason) { skipped.push({ project: p, reason }); return p; }
+    return { ...p, status: to, updatedAt: t };
+  });
+  return { next, skipped };
+}
+
+const stageIdFor = (label: string, taken: Status[]) => {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "stage";
+  let id = base;
+  for (let i = 2; taken.includes(id); i++) id = `${base}-${i}`;
+  return id;
 };
 
-// Per‑series episode sequencing
-function nextEpisodeNumber(series: string) {
-  const map = load<Record<string, number>>(LS_KEYS.seqMap, {});
-  const current = (map[series] || 0) + 1;
-  map[series] = current;
-  save(LS_KEYS.seqMap, map);
-  return current;
+// ---------- Board ----------
+// One column per workflow stage. Cards are ordered by `boardRank`, which is rewritten for the whole
+// target column on every move; moves the workflow forbids or that would overflow a WIP limit are refused.
+type BoardMove = { next: Project[]; error?: string };
+
+const byBoardRank = (a: Project, b: Project) => (a.boardRank ?? Infinity) - (b.boardRank ?? Infinity) || a.createdAt - b.createdAt;
+const boardColumn = (projects: Project[], status: Status) => projects.filter(p => isLive(p) && p.status === status).sort(byBoardRank);
+
+function wipProblem(projects: Project[], status: Status, limits: Settings["wipLimits"] = {}, label = status) {
+  const limit = limits[status];
+  return limit && boardColumn(projects, status).length >= limit ? `“${label}” is at its WIP limit of ${limit}.` : "";
+}
+
+// Puts the card in `status` right before `beforeId`, or at the end of the column.
+function moveOnBoard(projects: Project[], id: string, status: Status, beforeId: string | undefined, limits?: Settings["wipLimits"], workflow = DEFAULT_WORKFLOW): BoardMove {
+  const card = projects.find(p => p.id === id);
+  if (!card) return { next: projects };
+  if (card.status !== status) {
+    const problem = transitionProblem(workflow, card, status, card.status) || wipProblem(projects, status, limits, stageOf(workflow, status).label);
+    if (problem) return { next: projects, error: problem };
+  }
+  const column = boardColumn(projects, status).filter(p => p.id !== id);
+  const at = beforeId ? column.findIndex(p => p.id === beforeId) : -1;
+  column.splice(at < 0 ? column.length : at, 0, card);
+  const ranks = new Map(column.map((p, i) => [p.id, i] as const));
+  const t = now();
+  return { next: projects.map(p => {
+    if (!ranks.has(p.id)) return p;
+    const moved = { ...p, status, boardRank: ranks.get(p.id)! };
+    return moved.status === p.status && moved.boardRank === p.boardRank ? p : { ...moved, updatedAt: t };
+  }) };
+}
+
+// ---------- Time zones ----------
+// Schedules are stored as instants; wall-clock strings ("2024-05-01T14:30") only exist at the edges,
+// in form inputs and in iCalendar files, and are always paired with the zone they belong to.
+const FALLBACK_TIME_ZONES = ["UTC", "Europe/London", "Europe/Berlin", "America/New_York", "America/Chicago", "America/Denver", "America/Los_Angeles", "Asia/Kolkata", "Asia/Tokyo", "Australia/Sydney"];
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+const timeZoneOptions = (): string[] => (Intl as any).supportedValuesOf?.("timeZone") || FALLBACK_TIME_ZONES;
+
+function isValidTimeZone(tz?: string) {
+  if (!tz) return false;
+  try { new Intl.DateTimeFormat("en-US", { timeZone: tz }); return true; } catch { return false; }
+}
+
+function zoneParts(at: Date, timeZone: string) {
+  return Object.fromEntries(new Intl.DateTimeFormat("en-US", { timeZone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" })
+    .formatToParts(at).map(x => [x.type, Number(x.value)]));
+}
+
+// Offset of an IANA zone from UTC at a given instant, in ms. Throws RangeError for unknown zones.
+function zoneOffsetMs(at: Date, timeZone: string) {
+  const p = zoneParts(at, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+// The instant at which the clocks in `timeZone` show the given wall time. The second pass settles
+// times next to a DST switch, where the offset at the first guess is the wrong one.
+function zonedWallTimeToDate(y: number, mo: number, d: number, h: number, mi: number, timeZone: string) {
+  const wall = Date.UTC(y, mo - 1, d, h, mi);
+  const first = wall - zoneOffsetMs(new Date(wall), timeZone);
+  return new Date(wall - zoneOffsetMs(new Date(first), timeZone));
+}
+
+// "YYYY-MM-DDTHH:mm" as shown by the clocks in `timeZone`.
+function wallTimeIn(at: string | Date, timeZone: string) {
+  const p = zoneParts(new Date(at), timeZone);
+  return `${p.year}-${pad2(p.month)}-${pad2(p.day)}T${pad2(p.hour)}:${pad2(p.minute)}`;
+}
+
+function scheduleFromWallTime(wall: string, tz: string): ScheduledTime | undefined {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(wall);
+  if (!m) return undefined;
+  const [y, mo, d, h, mi] = m.slice(1).map(Number);
+  return { at: zonedWallTimeToDate(y, mo, d, h, mi, tz).toISOString(), tz };
+}
+
+const scheduleInstant = (s?: ScheduledTime) => s ? Date.parse(s.at) : NaN;
+const compareSchedules = (a?: ScheduledTime, b?: ScheduledTime) => (scheduleInstant(a) || Infinity) - (scheduleInstant(b) || Infinity) || 0;
+
+function formatInZone(at: string | Date, timeZone: string, withDate = true) {
+  return new Date(at).toLocaleString(undefined, {
+    timeZone, hour: "2-digit", minute: "2-digit", timeZoneName: "short",
+    ...(withDate ? { weekday: "short", day: "numeric", month: "short" } : {}),
+  });
+}
+
+// The zones a session time is worth showing in, deduplicated: studio first, then guest, then the viewer.
+type ZonePrefs = { viewer: string; studio: string };
+function scheduleZones(zones: ZonePrefs, guests: Guest[] = []) {
+  const list = [
+    { label: "Studio", tz: zones.studio },
+    ...guests.filter(g => isValidTimeZone(g.timezone)).map(g => ({ label: g.name, tz: g.timezone! })),
+    { label: "You", tz: zones.viewer },
+  ];
+  return list.filter((z, i) => list.findIndex(x => x.tz === z.tz) === i);
+}
+
+// Older builds stored naive `datetime-local` strings; read them as wall time in `tz`.
+function upgradeSchedule(value: unknown, tz: string): ScheduledTime | undefined {
+  if (typeof value === "string") return value ? scheduleFromWallTime(value, tz) : undefined;
+  if (value && typeof value === "object" && typeof (value as any).at === "string") return value as ScheduledTime;
+  return undefined;
+}
+
+function upgradeProjectSchedule<T extends Project>(p: T, tz: string): T {
+  const raw = p as any;
+  if (typeof raw.scheduledRecordAt !== "string" && typeof raw.scheduledPublishAt !== "string") return p;
+  return { ...p, scheduledRecordAt: upgradeSchedule(raw.scheduledRecordAt, tz), scheduledPublishAt: upgradeSchedule(raw.scheduledPublishAt, tz) };
+}
+
+// ---------- Calendar ----------
+// Events are laid out on calendar days ("2024-05-01") in the viewer's zone; the day math itself
+// works on those keys and never goes through UTC.
+type ScheduleKind = "record" | "publish";
+type CalendarEvent = { project: Project; kind: ScheduleKind; at: ScheduledTime; day: string; time: string };
+
+const SCHEDULE_FIELDS: Record<ScheduleKind, "scheduledRecordAt" | "scheduledPublishAt"> = { record: "scheduledRecordAt", publish: "scheduledPublishAt" };
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const SERIES_COLORS = ["bg-blue-600/70", "bg-emerald-600/70", "bg-violet-600/70", "bg-amber-600/70", "bg-rose-600/70", "bg-cyan-600/70", "bg-lime-600/70", "bg-fuchsia-600/70"];
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+const dayKey = (d: Date) => `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+const parseDay = (key: string) => { const [y, m, d] = key.split("-").map(Number); return new Date(y, m - 1, d); };
+const addDays = (key: string, n: number) => { const d = parseDay(key); d.setDate(d.getDate() + n); return dayKey(d); };
+
+function seriesColor(series: string) {
+  let h = 0;
+  for (const ch of series) h = (h * 31 + ch.charCodeAt(0)) | 0;
+  return SERIES_COLORS[Math.abs(h) % SERIES_COLORS.length];
+}
+
+function calendarEvents(projects: Project[], viewerTz: string): CalendarEvent[] {
+  return projects.flatMap(project => (["record", "publish"] as const).flatMap(kind => {
+    const at = project[SCHEDULE_FIELDS[kind]];
+    if (!at || isNaN(scheduleInstant(at))) return [];
+    const wall = wallTimeIn(at.at, viewerTz);
+    return [{ project, kind, at, day: wall.slice(0, 10), time: wall.slice(11) }];
+  })).sort((a, b) => compareSchedules(a.at, b.at));
+}
+
+// Six full weeks starting on the Sunday on or before the 1st, so every month fits the same grid.
+function monthGrid(anchor: string) {
+  const first = parseDay(anchor.slice(0, 8) + "01");
+  const start = addDays(dayKey(first), -first.getDay());
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+}
+
+function weekGrid(anchor: string) {
+  const start = addDays(anchor, -parseDay(anchor).getDay());
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+const DEFAULT_EVENT_TIME = "T09:00";
+
+const dayDiff = (from: string, to: string) => Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86400000);
+
+// Moving an event by whole days keeps its wall-clock time in the zone it was planned in.
+function rescheduleBy(s: ScheduledTime, days: number): ScheduledTime {
+  const wall = wallTimeIn(s.at, s.tz);
+  return scheduleFromWallTime(addDays(wall.slice(0, 10), days) + wall.slice(10), s.tz) || s;
+}
+
+
+// ---------- iCalendar export (RFC 5545) ----------
+// Events are written as UTC instants, so no VTIMEZONE block is needed. UIDs are derived from project id + kind and never change, so
+// importing a newer export updates the existing events instead of adding copies.
+const ICS_PRODID = "-//StudioCast//Podcast Portal//EN";
+const DEFAULT_RECORD_MINUTES = 60;
+const PUBLISH_EVENT_MINUTES = 30;
+
+const icsEscape = (text: string) => text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+const icsParam = (text: string) => `"${text.replace(/["\r\n]/g, "")}"`;
+const icsUtc = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+const icsUid = (projectId: string, kind: ScheduleKind) => `studiocast-${projectId}-${kind}`;
+
+// Content lines are limited to 75 octets; continuation lines start with a single space.
+function icsFold(line: string) {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let cur = "", size = 0;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    if (size + n > (out.length ? 74 : 75)) { out.push(cur); cur = ""; size = 0; }
+    cur += ch; size += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function icsEvent(p: Project, kind: ScheduleKind, guests: Guest[], stamp: Date, stage: StageKind): string[] {
+  const at = p[SCHEDULE_FIELDS[kind]];
+  if (!at) return [];
+  const start = new Date(at.at);
+  if (isNaN(start.getTime())) return [];
+  const minutes = kind === "record" ? p.durationEstimateMin || DEFAULT_RECORD_MINUTES : PUBLISH_EVENT_MINUTES;
+  const billed = projectGuests(p, guests);
+  const description = [p.description, ...billed.map(({ guest, role }) => `${role[0].toUpperCase()}${role.slice(1)}: ${guest.name}${guest.company ? ` (${guest.company})` : ""}`)].filter(Boolean).join("\n\n");
+  return [
+    "BEGIN:VEVENT",
+    `UID:${icsUid(p.id, kind)}`,
+    `DTSTAMP:${icsUtc(stamp)}`,
+    `LAST-MODIFIED:${icsUtc(new Date(p.updatedAt))}`,
+    `DTSTART:${icsUtc(start)}`,
+    `DTEND:${icsUtc(new Date(start.getTime() + minutes * 60000))}`,
+    `SUMMARY:${icsEscape(`${projectLabel(p)} (${kind})`)}`,
+    ...(description ? [`DESCRIPTION:${icsEscape(description)}`] : []),
+    `CATEGORIES:${icsEscape(p.series)}`,
+    `STATUS:${stage === "archived" ? "CANCELLED" : stage === "draft" ? "TENTATIVE" : "CONFIRMED"}`,
+    ...(kind === "record" ? billed.filter(({ guest }) => guest.email).map(({ guest, role }) => `ATTENDEE;CN=${icsParam(guest.name)};ROLE=${ICS_PARTICIPANT_ROLES[role]}:mailto:${guest.email}`) : []),
+    "END:VEVENT",
+  ];
+}
+
+function buildIcs(items: { project: Project; kind: ScheduleKind }[], guests: Guest[], calendarName: string, workflow = DEFAULT_WORKFLOW) {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsEscape(calendarName)}`,
+    ...items.flatMap(({ project, kind }) => icsEvent(project, kind, guests, stamp, stageOf(workflow, project.status).kind)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(icsFold).join("\r\n") + "\r\n";
+}
+
+function exportIcs(projects: Project[], guests: Guest[], series?: string, workflow = DEFAULT_WORKFLOW) {
+  const items = calendarEvents(projects.filter(p => !series || p.series === series), "UTC");
+  const name = series ? `StudioCast · ${series}` : "StudioCast";
+  const file = `studiocast-${(series || "workspace").toLowerCase().replace(/[^a-z0-9]+/g, "-")}.ics`;
+  downloadFile(file, buildIcs(items, guests, name, workflow), "text/calendar;charset=utf-8");
+}
+
+// ---------- iCalendar import ----------
+// VEVENTs are matched to projects by the UID our export writes (`studiocast-<id>-<kind>`) or by the
+// UID an earlier import stored on the project; anything else becomes a draft in the chosen series.
+// Planning is pure so the dialog can preview it; episode numbers are only taken when applying.
+type IcsProperty = { name: string; params: Record<string, string>; value: string };
+type IcsEvent = { uid: string; summary: string; description: string; start?: ScheduledTime; minutes?: number; cancelled: boolean };
+type IcsImportPlan = {
+  updates: { key: string; summary: string; before: Project; after: Project }[];
+  creates: { key: string; summary: string; project: Project }[];
+  skipped: { key: string; summary: string; reason: string }[];
+};
+
+const icsUnescape = (text: string) => text.replace(/\\([\\;,nN])/g, (_, c: string) => c.toLowerCase() === "n" ? "\n" : c);
+
+function icsProperty(line: string): IcsProperty | null {
+  const m = /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:]*))*)*):(.*)$/.exec(line);
+  if (!m) return null;
+  const params: Record<string, string> = {};
+  for (const x of m[2].matchAll(/;([A-Za-z0-9-]+)=("[^"]*"|[^";:]*)/g)) params[x[1].toUpperCase()] = x[2].replace(/^"|"$/g, "");
+  return { name: m[1].toUpperCase(), params, value: m[3] };
+}
+
+// DATE, UTC, TZID-qualified and floating DATE-TIME values. Dates, floating times and unknown TZIDs
+// (e.g. Windows zone names) are read as wall time in `defaultTz`.
+function icsSchedule(prop: IcsProperty, defaultTz: string): ScheduledTime | undefined {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(prop.value.trim());
+  if (!m) return undefined;
+  const [y, mo, d, h, mi] = m.slice(1, 6).map(Number);
+  const day = `${m[1]}-${m[2]}-${m[3]}`;
+  if (m[4] === undefined) return scheduleFromWallTime(day + DEFAULT_EVENT_TIME, defaultTz);
+  if (m[7]) return { at: new Date(Date.UTC(y, mo - 1, d, h, mi)).toISOString(), tz: defaultTz };
+  const tz = isValidTimeZone(prop.params.TZID) ? prop.params.TZID : defaultTz;
+  return scheduleFromWallTime(`${day}T${m[4]}:${m[5]}`, tz);
+}
+
+function icsDurationMinutes(value: string) {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) return undefined;
+  const [w, d, h, mi, sec] = m.slice(2).map(x => Number(x || 0));
+  return Math.round(((w * 7 + d) * 24 + h) * 60 + mi + sec / 60);
+}
+
+function parseIcs(text: string, defaultTz: string): IcsEvent[] {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: IcsEvent[] = [];
+  let cur: { props: IcsProperty[] } | null = null;
+  let nested = 0;
+  for (const line of lines) {
+    const prop = icsProperty(line);
+    if (!prop) continue;
+    const value = prop.value.toUpperCase();
+    if (prop.name === "BEGIN") { if (value === "VEVENT" && !cur) cur = { props: [] }; else if (cur) nested++; continue; }
+    if (prop.name === "END") {
+      if (cur && nested) nested--;
+      else if (cur && value === "VEVENT") {
+        const get = (name: string) => cur!.props.find(x => x.name === name);
+        const start = get("DTSTART") && icsSchedule(get("DTSTART")!, defaultTz);
+        const end = get("DTEND") && icsSchedule(get("DTEND")!, defaultTz);
+        const minutes = start && end ? Math.round((scheduleInstant(end) - scheduleInstant(start)) / 60000) : get("DURATION") && icsDurationMinutes(get("DURATION")!.value);
+        events.push({
+          uid: get("UID")?.value.trim() || "", start, minutes: minutes && minutes > 0 ? minutes : undefined,
+          summary: icsUnescape(get("SUMMARY")?.value || ""), description: icsUnescape(get("DESCRIPTION")?.value || ""),
+          cancelled: get("STATUS")?.value.toUpperCase() === "CANCELLED",
+        });
+        cur = null;
+      }
+      continue;
+    }
+    if (cur && !nested) cur.props.push(prop);
+  }
+  return events;
+}
+
+function planIcsImport(events: IcsEvent[], projects: Project[], series: string, status: Status = DEFAULT_WORKFLOW.stages[0].id, checklist = DEFAULT_CHECKLIST_TEMPLATE): IcsImportPlan {
+  const plan: IcsImportPlan = { updates: [], creates: [], skipped: [] };
+  const working = new Map(projects.map(p => [p.id, p] as const));
+  const season = latestSeason(projects, series);
+  events.forEach((ev, i) => {
+    const key = `${i}:${ev.uid}`;
+    const summary = ev.summary || ev.uid || "Untitled event";
+    const own = /^studiocast-(.+)-(record|publish)$/.exec(ev.uid);
+    const target = (own && working.get(own[1])) || (ev.uid ? [...working.values()].find(p => p.externalUid === ev.uid) : undefined);
+    if (!ev.start) return plan.skipped.push({ key, summary, reason: "no start time" });
+    if (ev.cancelled) return plan.skipped.push({ key, summary, reason: "cancelled in the source calendar" });
+    if (!target) {
+      const t = now();
+      plan.creates.push({ key, summary, project: {
+        id: uid("prj"), title: ev.summary || "Imported event", series, season, episodeNumber: 0, description: ev.description,
+        beforeNotes: "", afterNotes: "", status, priority: "medium", tags: [], participants: [],
+        scheduledRecordAt: ev.start, scheduledPublishAt: undefined, durationEstimateMin: ev.minutes, externalUid: ev.uid || undefined,
+        checklist: newChecklist(checklist, ev.start), progressPct: 0, createdAt: t, updatedAt: t,
+      } });
+      return;
+    }
+    const kind: ScheduleKind = own && own[1] === target.id ? own[2] as ScheduleKind : "record";
+    const current = target[SCHEDULE_FIELDS[kind]];
+    const start = scheduleInstant(current) === scheduleInstant(ev.start) ? current : ev.start;
+    const after: Project = { ...target, [SCHEDULE_FIELDS[kind]]: start, ...(kind === "record" && ev.minutes ? { durationEstimateMin: ev.minutes } : {}) };
+    if (fieldChanges(target as Record<string, unknown>, after as Record<string, unknown>).length === 0) return plan.skipped.push({ key, summary, reason: "already up to date" });
+    working.set(target.id, after);
+    const existing = plan.updates.find(u => u.after.id === target.id);
+    if (existing) { existing.after = after; existing.summary += ` · ${summary}`; }
+    else plan.updates.push({ key, summary, before: projects.find(p => p.id === target.id)!, after });
+  });
+  return plan;
+}
+
+function applyIcsImport(projects: Project[], plan: IcsImportPlan, selected: Set<string>, episodeNumbers: Map<string, number>): Project[] {
+  const t = now();
+  const updates = new Map(plan.updates.filter(u => selected.has(u.key)).map(u => [u.after.id, u.after] as const));
+  const creates = plan.creates.filter(c => selected.has(c.key)).map(c => ({ ...c.project, episodeNumber: episodeNumbers.get(c.key) || c.project.episodeNumber, updatedAt: t }));
+  return [...creates, ...projects.map(p => updates.has(p.id) ? { ...updates.get(p.id)!, updatedAt: t } : p)];
+}
+
+// ---------- Podcast feed (RSS 2.0, iTunes, Podcasting 2.0) ----------
+// One feed per series, built from its live episodes in a "completed" stage, newest first. Episodes
+// without a playable audio URL are left out; those and anything Apple Podcasts would reject are
+// reported as errors, the rest as warnings.
+const FEED_NAMESPACES = {
+  itunes: "http://www.itunes.com/dtds/podcast-1.0.dtd",
+  podcast: "https://podcastindex.org/namespace/1.0",
+  atom: "http://www.w3.org/2005/Atom",
+};
+const AUDIO_MIME_TYPES: Record<string, string> = { mp3: "audio/mpeg", m4a: "audio/x-m4a", aac: "audio/aac", ogg: "audio/ogg", opus: "audio/opus", wav: "audio/wav", flac: "audio/flac" };
+const PODCAST_PERSON_ROLES: Record<ParticipantRole, string> = { guest: "guest", "co-host": "co-host", moderator: "host" };
+
+type FeedIssue = { level: "error" | "warning"; message: string; projectId?: string };
+
+// XML 1.0 has no escape for most control characters, so they are dropped.
+const xmlEscape = (text: string) => text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+const isHttpUrl = (text?: string) => !!text && /^https?:\/\/[^\s]+$/i.test(text);
+const enclosureMimeType = (e: Enclosure) => e.mimeType || AUDIO_MIME_TYPES[e.url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() || ""] || "audio/mpeg";
+
+// "1:02:03" — the form Apple shows; minutes and seconds are always two digits.
+function formatDuration(sec: number) {
+  const t = Math.max(0, Math.round(sec));
+  return `${Math.floor(t / 3600)}:${pad2(Math.floor(t / 60) % 60)}:${pad2(t % 60)}`;
+}
+
+// Accepts "h:mm:ss", "mm:ss" or plain seconds.
+function parseDuration(text: string): number | undefined {
+  const parts = text.trim().split(":");
+  if (!text.trim() || parts.length > 3 || parts.some(x => !/^\d+(\.\d+)?$/.test(x))) return undefined;
+  return Math.round(parts.reduce((acc, x) => acc * 60 + Number(x), 0));
+}
+
+// Newest first; episodes without a publish date go last rather than topping the feed.
+const feedEpisodes = (series: Series, projects: Project[], workflow: Workflow) =>
+  projects.filter(p => isLive(p) && p.series === series.name && stageOf(workflow, p.status).kind === "completed")
+    .sort((a, b) => Number(!scheduleInstant(a.scheduledPublishAt)) - Number(!scheduleInstant(b.scheduledPublishAt))
+      || compareSchedules(b.scheduledPublishAt, a.scheduledPublishAt) || b.episodeNumber - a.episodeNumber);
+
+function feedIssues(series: Series, episodes: Project[], stamp: Date): FeedIssue[] {
+  const feed = series.feed || {};
+  const issues: FeedIssue[] = [];
+  const error = (message: string, projectId?: string) => issues.push({ level: "error", message, projectId });
+  const warn = (message: string, projectId?: string) => issues.push({ level: "warning", message, projectId });
+  if (!series.description?.trim()) error("The series has no description.");
+  if (!feed.artworkUrl) error("No artwork URL — Apple Podcasts requires cover art.");
+  else if (!isHttpUrl(feed.artworkUrl)) error("The artwork URL must start with http:// or https://.");
+  if (!feed.language) error("No language set.");
+  if (!feed.category) error("No category set.");
+  if (!feed.ownerEmail) warn("No owner email — directories use it to verify ownership.");
+  if (feed.locked && !feed.ownerEmail) warn("A locked feed needs an owner email.");
+  if (!feed.feedUrl) warn("No feed URL — the feed can't point at itself (atom:link).");
+  if (!feed.podcastGuid) warn("No podcast GUID yet — save the feed settings to assign one.");
+  for (const p of episodes) {
+    const name = `${episodeLabel(p)} “${p.title || "Untitled"}”`;
+    if (!p.enclosure?.url) { error(`${name} has no audio URL and is left out.`, p.id); continue; }
+    if (!isHttpUrl(p.enclosure.url)) { error(`${name}: the audio URL must start with http:// or https:// — left out.`, p.id); continue; }
+    if (!p.enclosure.bytes) warn(`${name}: file size unknown (written as 0).`, p.id);
+    if (!p.durationSec) warn(`${name} has no duration.`, p.id);
+    if (!p.scheduledPublishAt) warn(`${name} has no publish date.`, p.id);
+    else if (new Date(p.scheduledPublishAt.at) > stamp) warn(`${name} is dated in the future; most apps show it straight away.`, p.id);
+    if (!p.description?.trim()) warn(`${name} has no description.`, p.id);
+    if (episodeClashes(episodes, p).length) warn(`${name} shares its number with another episode.`, p.id);
+  }
+  if (!episodes.some(p => isHttpUrl(p.enclosure?.url))) warn("No completed episodes with audio yet — the feed is empty.");
+  return issues;
+}
+
+function feedItem(p: Project, guests: Guest[]): string[] {
+  const e = p.enclosure!;
+  const tag = (name: string, value?: string | number) => value === undefined || value === "" ? [] : [`      <${name}>${xmlEscape(String(value))}</${name}>`];
+  return [
+    "    <item>",
+    ...tag("title", p.title || "Untitled"),
+    ...tag("description", p.description?.trim()),
+    `      <guid isPermaLink="false">studiocast-${xmlEscape(p.id)}</guid>`,
+    ...tag("pubDate", p.scheduledPublishAt && new Date(p.scheduledPublishAt.at).toUTCString()),
+    `      <enclosure url="${xmlEscape(e.url)}" length="${e.bytes || 0}" type="${xmlEscape(enclosureMimeType(e))}"/>`,
+    ...tag("itunes:duration", p.durationSec ? formatDuration(p.durationSec) : undefined),
+    ...tag("itunes:episodeType", p.episodeType || "full"),
+    ...(p.season ? [...tag("itunes:season", p.season), ...tag("podcast:season", p.season)] : []),
+    ...(isNumbered(p) && p.episodeNumber > 0 ? [...tag("itunes:episode", p.episodeNumber), ...tag("podcast:episode", p.episodeNumber)] : []),
+    ...tag("itunes:keywords", p.tags.join(",")),
+    ...projectGuests(p, guests).map(({ guest, role }) => `      <podcast:person role="${PODCAST_PERSON_ROLES[role]}">${xmlEscape(guest.name)}</podcast:person>`),
+    "    </item>",
+  ];
+}
+
+function buildPodcastFeed(series: Series, projects: Project[], guests: Guest[], users: User[], workflow = DEFAULT_WORKFLOW, stamp = new Date()) {
+  const feed = series.feed || {};
+  const episodes = feedEpisodes(series, projects, workflow);
+  const included = episodes.filter(p => isHttpUrl(p.enclosure?.url));
+  const hosts = series.hostIds.map(id => users.find(u => u.id === id)?.name).filter((n): n is string => !!n);
+  const tag = (name: string, value?: string) => value?.trim() ? [`    <${name}>${xmlEscape(value.trim())}</${name}>`] : [];
+  const [category, subcategory] = (feed.category || "").split(">").map(x => x.trim());
+  const link = feed.siteUrl || feed.feedUrl;
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" ${Object.entries(FEED_NAMESPACES).map(([ns, url]) => `xmlns:${ns}="${url}"`).join(" ")}>`,
+    "  <channel>",
+    ...tag("title", series.name),
+    ...tag("description", series.description?.trim()),
+    ...tag("link", link),
+    ...tag("language", feed.language),
+    ...tag("copyright", feed.copyright),
+    ...tag("generator", "StudioCast"),
+    ...tag("lastBuildDate", stamp.toUTCString()),
+    ...(feed.feedUrl ? [`    <atom:link href="${xmlEscape(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`] : []),
+    ...tag("itunes:author", feed.author || hosts.join(", ")),
+    ...(feed.ownerName || feed.ownerEmail ? ["    <itunes:owner>", ...tag("itunes:name", feed.ownerName).map(x => `  ${x}`), ...tag("itunes:email", feed.ownerEmail).map(x => `  ${x}`), "    </itunes:owner>"] : []),
+    ...(feed.artworkUrl ? [
+      `    <itunes:image href="${xmlEscape(feed.artworkUrl)}"/>`,
+      ...(link ? ["    <image>", `      <url>${xmlEscape(feed.artworkUrl)}</url>`, `      <title>${xmlEscape(series.name)}</title>`, `      <link>${xmlEscape(link)}</link>`, "    </image>"] : []),
+    ] : []),
+    ...(category ? subcategory
+      ? [`    <itunes:category text="${xmlEscape(category)}">`, `      <itunes:category text="${xmlEscape(subcategory)}"/>`, "    </itunes:category>"]
+      : [`    <itunes:category text="${xmlEscape(category)}"/>`] : []),
+    ...tag("itunes:explicit", feed.explicit ? "true" : "false"),
+    ...tag("itunes:type", feed.showType || "episodic"),
+    ...tag("podcast:guid", feed.podcastGuid),
+    ...(feed.locked !== undefined ? [`    <podcast:locked${feed.ownerEmail ? ` owner="${xmlEscape(feed.ownerEmail)}"` : ""}>${feed.locked ? "yes" : "no"}</podcast:locked>`] : []),
+    ...tag("podcast:medium", "podcast"),
+    ...hosts.map(name => `    <podcast:person role="host">${xmlEscape(name)}</podcast:person>`),
+    ...included.flatMap(p => feedItem(p, guests)),
+    "  </channel>",
+    "</rss>",
+  ];
+  return { xml: lines.join("\n") + "\n", issues: feedIssues(series, episodes, stamp), included: included.length };
+}
+
+// ---------- Audio attachments ----------
+// Metadata is read in the browser: ID3 tags and the sample rate straight from the bytes, duration
+// from a media element, and the waveform by decoding with Web Audio. Decoding holds the whole file
+// as PCM, so it runs at a low sample rate that is plenty for the peaks, and recordings longer than
+// a few hours (or of unknown length and very large) go without a waveform.
+const WAVEFORM_BARS = 160;
+const WAVEFORM_SAMPLE_RATE = 3000;
+const WAVEFORM_MAX_SECONDS = 3 * 60 * 60;
+const WAVEFORM_MAX_BYTES = 150 * 1024 * 1024;
+
+const ID3_FRAMES: Record<string, keyof AudioTags> = {
+  TIT2: "title", TT2: "title", TPE1: "artist", TP1: "artist", TALB: "album", TAL: "album",
+  TYER: "year", TYE: "year", TDRC: "year", TRCK: "track", TRK: "track", TCON: "genre", TCO: "genre", COMM: "comment", COM: "comment",
+};
+
+const formatBytes = (n: number) => n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(1)} MB`;
+const syncsafe = (b: Uint8Array, at: number) => (b[at] & 0x7f) << 21 | (b[at + 1] & 0x7f) << 14 | (b[at + 2] & 0x7f) << 7 | (b[at + 3] & 0x7f);
+
+// Text in frame encoding `enc` (0 Latin-1, 1 UTF-16 with BOM, 2 UTF-16BE, 3 UTF-8); v2.4 lists are NUL-separated.
+function id3Text(bytes: Uint8Array, enc: number) {
+  let label = enc === 3 ? "utf-8" : enc === 2 ? "utf-16be" : enc === 1 ? "utf-16le" : "latin1";
+  if (enc === 1 && bytes[0] === 0xfe && bytes[1] === 0xff) label = "utf-16be";
+  return new TextDecoder(label).decode(bytes).replace(/^\ufeff/, "").split("\0").map(x => x.trim()).filter(Boolean).join(", ");
+}
+
+// Offset just past the first NUL terminator (two bytes, aligned, for UTF-16).
+function id3Terminator(bytes: Uint8Array, from: number, enc: number) {
+  const wide = enc === 1 || enc === 2;
+  for (let i = from; i + (wide ? 1 : 0) < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return bytes.length;
+}
+
+// ID3v2.2–2.4 from the start of the file. Frames we don't map, compressed or encrypted frames and
+// per-frame unsynchronisation are skipped rather than half-decoded.
+function parseId3v2(b: Uint8Array): AudioTags | undefined {
+  if (b.length < 10 || b[0] !== 0x49 || b[1] !== 0x44 || b[2] !== 0x33) return undefined;
+  const version = b[3], flags = b[5];
+  if (version < 2 || version > 4) return undefined;
+  let body = b.subarray(10, Math.min(b.length, 10 + syncsafe(b, 6)));
+  if (flags & 0x80 && version < 4) body = body.filter((x, i) => !(x === 0 && body[i - 1] === 0xff));
+  let at = 0;
+  if (flags & 0x40 && version > 2) at = version === 4 ? syncsafe(body, 0) : 4 + (body[0] << 24 | body[1] << 16 | body[2] << 8 | body[3]);
+  const idLen = version === 2 ? 3 : 4, headLen = version === 2 ? 6 : 10;
+  const tags: AudioTags = {};
+  while (at + headLen <= body.length && body[at] !== 0) {
+    const id = String.fromCharCode(...body.subarray(at, at + idLen));
+    const size = version === 2 ? body[at + 3] << 16 | body[at + 4] << 8 | body[at + 5] : version === 4 ? syncsafe(body, at + 4) : (body[at + 4] << 24 | body[at + 5] << 16 | body[at + 6] << 8 | body[at + 7]) >>> 0;
+    const frameFlags = version === 2 ? 0 : body[at + 9];
+    const data = body.subarray(at + headLen, at + headLen + size);
+    at += headLen + size;
+    const field = ID3_FRAMES[id];
+    if (!field || tags[field] || !data.length || frameFlags & (version === 4 ? 0x0e : 0xc0)) continue;
+    const enc = data[0];
+    // COMM: encoding, 3-byte language, short description, then the text.
+    const text = field === "comment" ? id3Text(data.subarray(id3Terminator(data, 4, enc)), enc) : id3Text(data.subarray(1), enc);
+    if (text) tags[field] = field === "year" ? text.slice(0, 4) : text;
+  }
+  return Object.keys(tags).length ? tags : undefined;
+}
+
+// ID3v1: the last 128 bytes of the file, fixed-width Latin-1 fields.
+function parseId3v1(b: Uint8Array): AudioTags | undefined {
+  if (b.length < 128) return undefined;
+  const t = b.subarray(b.length - 128);
+  if (t[0] !== 0x54 || t[1] !== 0x41 || t[2] !== 0x47) return undefined;
+  const field = (from: number, len: number) => new TextDecoder("latin1").decode(t.subarray(from, from + len)).replace(/\0.*$/s, "").trim() || undefined;
+  const v11 = t[125] === 0 && t[126] !== 0;
+  const tags: AudioTags = { title: field(3, 30), artist: field(33, 30), album: field(63, 30), year: field(93, 4), comment: field(97, v11 ? 28 : 30), track: v11 ? String(t[126]) : undefined };
+  (Object.keys(tags) as (keyof AudioTags)[]).forEach(k => tags[k] === undefined && delete tags[k]);
+  return Object.keys(tags).length ? tags : undefined;
+}
+
+async function readAudioTags(file: Blob): Promise<AudioTags | undefined> {
+  const head = new Uint8Array(await file.slice(0, 10).arrayBuffer());
+  if (head.length === 10 && head[0] === 0x49 && head[1] === 0x44 && head[2] === 0x33) {
+    const tags = parseId3v2(new Uint8Array(await file.slice(0, 10 + syncsafe(head, 6)).arrayBuffer()));
+    if (tags) return tags;
+  }
+  return file.size >= 128 ? parseId3v1(new Uint8Array(await file.slice(file.size - 128).arrayBuffer())) : undefined;
+}
+
+// Sample rate from the stream header: WAV `fmt `, FLAC STREAMINFO, Ogg Vorbis/Opus identification
+// header, or an MPEG audio frame at the start (after any ID3v2 tag). Other containers give undefined.
+function audioSampleRate(b: Uint8Array): number | undefined {
+  const ascii = (at: number, len: number) => String.fromCharCode(...b.subarray(at, at + len));
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WAVE") {
+    for (let at = 12; at + 16 <= b.length; at += 8 + view.getUint32(at + 4, true) + (view.getUint32(at + 4, true) & 1)) {
+      if (ascii(at, 4) === "fmt ") return view.getUint32(at + 12, true) || undefined;
+    }
+    return undefined;
+  }
+  if (ascii(0, 4) === "fLaC" && b.length >= 21) return (b[18] << 12 | b[19] << 4 | b[20] >> 4) || undefined;
+  if (ascii(0, 4) === "OggS" && b.length >= 44 && /^(\x01vorbis|OpusHead)/.test(ascii(28, 8))) return view.getUint32(40, true) || undefined;
+  if (b.length >= 3 && b[0] === 0xff && (b[1] & 0xe0) === 0xe0) {
+    const version = (b[1] >> 3) & 3, layer = (b[1] >> 1) & 3, rate = (b[2] >> 2) & 3;
+    if (version !== 1 && layer !== 0 && rate !== 3) return [44100, 48000, 32000][rate] / (version === 3 ? 1 : version === 2 ? 2 : 4);
+  }
+  return undefined;
+}
+
+async function readSampleRate(file: Blob): Promise<number | undefined> {
+  const head = new Uint8Array(await file.slice(0, 10).arrayBuffer());
+  const skip = head.length === 10 && head[0] === 0x49 && head[1] === 0x44 && head[2] === 0x33 ? 10 + syncsafe(head, 6) : 0;
+  return audioSampleRate(new Uint8Array(await file.slice(skip, skip + 4096).arrayBuffer()));
+}
+
+// Loudest sample per bar across all channels, rounded to keep the stored list small.
+function audioPeaks(channels: Float32Array[], bars = WAVEFORM_BARS): number[] {
+  const length = channels[0]?.length || 0;
+  if (!length) return [];
+  const step = length / bars;
+  return Array.from({ length: Math.min(bars, length) }, (_, i) => {
+    let peak = 0;
+    for (const data of channels) {
+      for (let j = Math.floor(i * step), end = Math.min(length, Math.floor((i + 1) * step) || 1); j < end; j++) peak = Math.max(peak, Math.abs(data[j]));
+    }
+    return Math.round(Math.min(1, peak) * 100) / 100;
+  });
+}
+
+const mediaDuration = (file: Blob) => new Promise<number | undefined>(resolve => {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio();
+  const done = (d?: number) => { URL.revokeObjectURL(url); resolve(d && isFinite(d) ? d : undefined); };
+  audio.preload = "metadata";
+  audio.onloadedmetadata = () => done(audio.duration);
+  audio.onerror = () => done();
+  audio.src = url;
+});
+
+async function analyseAudio(file: Blob): Promise<Pick<AudioAttachment, "durationSec" | "sampleRate" | "channels" | "peaks" | "tags">> {
+  const tags = await readAudioTags(file).catch(() => undefined);
+  const sampleRate = await readSampleRate(file).catch(() => undefined);
+  const durationSec = await mediaDuration(file);
+  const decodable = durationSec !== undefined ? durationSec <= WAVEFORM_MAX_SECONDS : file.size <= WAVEFORM_MAX_BYTES;
+  if (decodable && typeof OfflineAudioContext !== "undefined") {
+    try {
+      // decodeAudioData resamples to the context's rate, which keeps the PCM copy small.
+      const buf = await new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE).decodeAudioData(await file.arrayBuffer());
+      const channels = Array.from({ length: buf.numberOfChannels }, (_, i) => buf.getChannelData(i));
+      return { durationSec: durationSec ?? buf.duration, sampleRate, channels: buf.numberOfChannels, peaks: audioPeaks(channels), tags };
+    } catch {
+      // A codec Web Audio can't decode; the media element may still know the duration.
+    }
+  }
+  return { durationSec, sampleRate, tags };
+}
+
+// Marks `a` as the project's master and copies its measurements onto the project: running time,
+// the rounded estimate, and the enclosure size and type for the feed.
+function applyMasterAudio(p: Project, a: AudioAttachment): Project {
+  return {
+    ...p,
+    attachments: (p.attachments || []).map(x => x.id === a.id ? { ...x, kind: "master" } : x.kind === "master" ? { ...x, kind: "raw" } : x),
+    ...(a.durationSec ? { durationSec: Math.round(a.durationSec), durationEstimateMin: Math.max(1, Math.round(a.durationSec / 60)) } : {}),
+    enclosure: { ...p.enclosure, url: p.enclosure?.url || "", bytes: a.bytes, mimeType: a.mimeType || p.enclosure?.mimeType },
+  };
+}
+
+const attachmentBlobIds = (projects: Project[]) => projects.flatMap(p => (p.attachments || []).map(a => a.blobId));
+
+// ---------- Show notes & chapters ----------
+// Every export is generated from the project itself: title, description, chapters, links, the booked
+// guests (with their roles) and any extra credits. Nothing is stored per format.
+const CHAPTERS_JSON_VERSION = "1.2.0"; // Podcasting 2.0 JSON chapters
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_SEC = 10;
+
+type ShowNotesFormat = "json" | "id3" | "youtube" | "markdown" | "html";
+const SHOW_NOTES_FORMATS: Record<ShowNotesFormat, { label: string; ext: string; mime: string }> = {
+  json: { label: "Podcasting 2.0 chapters", ext: "chapters.json", mime: "application/json+chapters" },
+  id3: { label: "ID3 chapters (CHAP)", ext: "chapters.id3", mime: "application/octet-stream" },
+  youtube: { label: "YouTube description", ext: "youtube.txt", mime: "text/plain;charset=utf-8" },
+  markdown: { label: "Markdown", ext: "md", mime: "text/markdown;charset=utf-8" },
+  html: { label: "HTML", ext: "html", mime: "text/html;charset=utf-8" },
+};
+
+const sortChapters = (chapters: Chapter[] = []) => [...chapters].sort((a, b) => a.startSec - b.startSec);
+
+// "4:05", or "1:04:05" once any chapter needs hours, so a list lines up.
+const chapterTime = (sec: number, hours: boolean) => hours ? formatDuration(sec) : `${Math.floor(sec / 60)}:${pad2(Math.floor(sec) % 60)}`;
+const needsHours = (chapters: Chapter[]) => chapters.some(c => c.startSec >= 3600);
+
+function chapterIssues(p: Project): string[] {
+  const chapters = sortChapters(p.chapters);
+  const issues: string[] = [];
+  chapters.forEach((c, i) => {
+    if (!c.title.trim()) issues.push(`Chapter at ${chapterTime(c.startSec, true)} has no title.`);
+    if (i && c.startSec === chapters[i - 1].startSec) issues.push(`Two chapters start at ${chapterTime(c.startSec, true)}.`);
+    if (p.durationSec && c.startSec >= p.durationSec) issues.push(`“${c.title}” starts after the end of the episode.`);
+  });
+  return issues;
+}
+
+// YouTube only turns timestamps into chapters when the list starts at 0:00, has at least three
+// entries and every chapter is at least ten seconds long.
+function youtubeChapterIssues(p: Project): string[] {
+  const chapters = sortChapters(p.chapters).filter(c => !c.hidden);
+  if (!chapters.length) return [];
+  const issues: string[] = [];
+  if (chapters[0].startSec !== 0) issues.push("YouTube needs the first chapter at 0:00.");
+  if (chapters.length < YOUTUBE_MIN_CHAPTERS) issues.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters.`);
+  const short = chapters.filter((c, i) => (chapters[i + 1]?.startSec ?? p.durationSec ?? Infinity) - c.startSec < YOUTUBE_MIN_CHAPTER_SEC);
+  if (short.length) issues.push(`YouTube chapters must be at least ${YOUTUBE_MIN_CHAPTER_SEC} seconds: ${short.map(c => `“${c.title}”`).join(", ")}.`);
+  return issues;
+}
+
+function showNotesCredits(p: Project, guests: Guest[]): Credit[] {
+  return [
+    ...projectGuests(p, guests).map(({ guest, role }) => ({ id: guest.id, name: guest.name, role: role === "guest" ? (guest.company ? `Guest, ${guest.company}` : "Guest") : role[0].toUpperCase() + role.slice(1) })),
+    ...(p.credits || []).filter(c => c.name.trim()),
+  ];
+}
+
+function buildJsonChapters(p: Project) {
+  return JSON.stringify({
+    version: CHAPTERS_JSON_VERSION,
+    title: p.title || undefined,
+    podcastName: p.series,
+    ...(p.durationSec ? { duration: p.durationSec } : {}),
+    chapters: sortChapters(p.chapters).map(c => ({
+      startTime: c.startSec,
+      title: c.title,
+      ...(c.imageUrl ? { img: c.imageUrl } : {}),
+      ...(c.url ? { url: c.url } : {}),
+      ...(c.hidden ? { toc: false } : {}),
+    })),
+  }, null, 2);
+}
+
+// An ID3v2.4 tag holding only a CTOC frame and one CHAP frame per chapter (ID3v2 Chapter Frame
+// Addendum 1.0), for tagging tools that merge it into the audio file. Each CHAP carries a TIT2 title
+// and, with a link, a WXXX frame; byte offsets are left unset (0xFFFFFFFF) as the spec allows.
+function buildId3Chapters(p: Project): Uint8Array {
+  const enc = new TextEncoder();
+  const chapters = sortChapters(p.chapters);
+  const u32 = (n: number) => [n >>> 24 & 0xff, n >>> 16 & 0xff, n >>> 8 & 0xff, n & 0xff];
+  const syncsafe32 = (n: number) => [n >> 21 & 0x7f, n >> 14 & 0x7f, n >> 7 & 0x7f, n & 0x7f];
+  const frame = (id: string, body: number[]) => [...enc.encode(id), ...syncsafe32(body.length), 0, 0, ...body];
+  const cstr = (text: string) => [...enc.encode(text), 0];
+  const ids = chapters.map((_, i) => `chp${i}`);
+  const frames = [
+    ...frame("CTOC", [...cstr("toc"), 0x03 /* top-level, ordered */, ids.length, ...ids.flatMap(cstr), ...frame("TIT2", [3, ...enc.encode(p.title || "Chapters")])]),
+    ...chapters.flatMap((c, i) => {
+      const end = chapters[i + 1]?.startSec ?? Math.max(p.durationSec || 0, c.startSec);
+      return frame("CHAP", [
+        ...cstr(ids[i]), ...u32(Math.round(c.startSec * 1000)), ...u32(Math.round(end * 1000)), ...u32(0xffffffff), ...u32(0xffffffff),
+        ...frame("TIT2", [3, ...enc.encode(c.title)]),
+        ...(c.url ? frame("WXXX", [0, 0, ...enc.encode(c.url)]) : []),
+      ]);
+    }),
+  ];
+  return new Uint8Array([...enc.encode("ID3"), 4, 0, 0, ...syncsafe32(frames.length), ...frames]);
+}
+
+function buildYoutubeDescription(p: Project, guests: Guest[]) {
+  const chapters = sortChapters(p.chapters).filter(c => !c.hidden);
+  const hours = needsHours(chapters);
+  const credits = showNotesCredits(p, guests);
+  return [
+    p.description?.trim(),
+    chapters.length ? ["Chapters", ...chapters.map(c => `${chapterTime(c.startSec, hours)} ${c.title}`)].join("\n") : "",
+    p.links?.length ? ["Links", ...p.links.map(l => `${l.label}: ${l.url}`)].join("\n") : "",
+    credits.length ? ["With", ...credits.map(c => `${c.name} (${c.role})${c.url ? ` ${c.url}` : ""}`)].join("\n") : "",
+  ].filter(Boolean).join("\n\n") + "\n";
+}
+
+const mdEscape = (text: string) => text.replace(/([\\`*_{}\[\]<>#|])/g, "\\$1");
+
+function buildShowNotesMarkdown(p: Project, guests: Guest[]) {
+  const chapters = sortChapters(p.chapters).filter(c => !c.hidden);
+  const hours = needsHours(chapters);
+  const credits = showNotesCredits(p, guests);
+  // Only http(s) links, as in the HTML notes; spaces and parentheses are encoded first.
+  const link = (text: string, url?: string) => {
+    const href = url?.trim().replace(/[()\s]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+    return isHttpUrl(href) ? `[${mdEscape(text)}](${href})` : mdEscape(text);
+  };
+  return [
+    `# ${mdEscape(`${p.series} ${episodeLabel(p)}: ${p.title || "Untitled"}`)}`,
+    p.description?.trim(),
+    chapters.length ? ["## Chapters", "", ...chapters.map(c => `- \`${chapterTime(c.startSec, hours)}\` ${link(c.title, c.url)}`)].join("\n") : "",
+    p.links?.length ? ["## Links", "", ...p.links.map(l => `- ${link(l.label, l.url)}`)].join("\n") : "",
+    credits.length ? ["## Credits", "", ...credits.map(c => `- ${link(c.name, c.url)} — ${mdEscape(c.role)}`)].join("\n") : "",
+  ].filter(Boolean).join("\n\n") + "\n";
 }
 
-const getSession = (): { userId?: string } => load(LS_KEYS.session, {} as { userId?: string });
-const setSession = (userId?: string) => save(LS_KEYS.session, { userId });
+// A fragment rather than a full page, ready to paste into a CMS. Only http(s) links become anchors.
+function buildShowNotesHtml(p: Project, guests: Guest[]) {
+  const chapters = sortChapters(p.chapters).filter(c => !c.hidden);
+  const hours = needsHours(chapters);
+  const credits = showNotesCredits(p, guests);
+  const link = (text: string, url?: string) => url && /^https?:\/\//i.test(url) ? `<a href="${xmlEscape(url)}">${xmlEscape(text)}</a>` : xmlEscape(text);
+  const list = (title: string, items: string[]) => items.length ? [`<h2>${title}</h2>`, "<ul>", ...items.map(x => `  <li>${x}</li>`), "</ul>"] : [];
+  return [
+    `<h1>${xmlEscape(`${p.series} ${episodeLabel(p)}: ${p.title || "Untitled"}`)}</h1>`,
+    ...(p.description?.trim() ? p.description.trim().split(/\n\s*\n/).map(x => `<p>${xmlEscape(x).replace(/\n/g, "<br>")}</p>`) : []),
+    ...list("Chapters", chapters.map(c => `<time>${chapterTime(c.startSec, hours)}</time> ${link(c.title, c.url)}`)),
+    ...list("Links", (p.links || []).map(l => link(l.label, l.url))),
+    ...list("Credits", credits.map(c => `${link(c.name, c.url)} — ${xmlEscape(c.role)}`)),
+  ].join("\n") + "\n";
+}
 
-function ensureSeedAdmin() {
-  const users = load<User[]>(LS_KEYS.users, []);
-  if (users.length === 0) {
-    const admin: User = { id: uid("usr"), name: "Admin", email: "admin@example.com", role: "admin", createdAt: now() };
-    save(LS_KEYS.users, [admin]);
+function buildShowNotes(p: Project, guests: Guest[], format: ShowNotesFormat): string | Uint8Array {
+  switch (format) {
+    case "json": return buildJsonChapters(p);
+    case "id3": return buildId3Chapters(p);
+    case "youtube": return buildYoutubeDescription(p, guests);
+    case "markdown": return buildShowNotesMarkdown(p, guests);
+    case "html": return buildShowNotesHtml(p, guests);
   }
 }
-ensureSeedAdmin();
 
 // ---------- Tiny runtime tests (smoke + logic) ----------
-function runSmokeTests() {
+async function runSmokeTests() {
   const results: { name: string; ok: boolean; message?: string }[] = [];
   const expect = (name: string, cond: boolean, message?: string) => results.push({ name, ok: !!cond, message });
 
   try {
     // calcProgress
-    expect("progress 0%", calcProgress({ research: false, questions: false, equipment: false, thumbnails: false }) === 0);
-    expect("progress 50%", calcProgress({ research: true, questions: false, equipment: true, thumbnails: false }) === 50);
-    expect("progress 100%", calcProgress({ research: true, questions: true, equipment: true, thumbnails: true }) === 100);
+    expect("progress 0%", calcProgress(legacyChecklist({ research: false, questions: false, equipment: false, thumbnails: false })) === 0);
+    expect("progress 50%", calcProgress(legacyChecklist({ research: true, questions: false, equipment: true, thumbnails: false })) === 50);
+    expect("progress 100%", calcProgress(legacyChecklist({ research: true, questions: true, equipment: true, thumbnails: true })) === 100);
 
     // per‑series increments
     const backup = load<Record<string, number>>(LS_KEYS.seqMap, {});
@@ -142,18 +2951,439 @@ function runSmokeTests() {
     const b1 = nextEpisodeNumber("Guest Series");
     expect("series A increments", a2 === a1 + 1);
     expect("series B starts at 1", b1 === 1);
+    const peeked = peekEpisodeNumber("Main", 2);
+    expect("peek doesn't take the number", peeked === 1 && peekEpisodeNumber("Main", 2) === 1);
+    reserveEpisodeNumber("Main", 2, 5);
+    reserveEpisodeNumber("Main", 2, 3);
+    expect("reserve only raises the counter", peekEpisodeNumber("Main", 2) === 6 && peekEpisodeNumber("Main") === a2 + 1);
     save(LS_KEYS.seqMap, backup);
 
+    // Episode numbering
+    const numbered = (id: string, episodeNumber: number, extra: Partial<Project> = {}): Project => ({ ...list0(id), episodeNumber, ...extra });
+    const list0 = (id: string): Project => ({ id, title: id, series: "Main", episodeNumber: 0, status: "draft", priority: "medium", tags: [], participants: [], description: "", beforeNotes: "", afterNotes: "", checklist: [], progressPct: 0, createdAt: 0, updatedAt: 0 });
+    expect("episode labels", episodeLabel(numbered("a", 5)) === "Ep 5" && episodeLabel(numbered("a", 5, { season: 2 })) === "S02E05"
+      && episodeLabel(numbered("a", 0, { episodeType: "bonus" })) === "Bonus" && episodeLabel(numbered("a", 0, { season: 2, episodeType: "trailer" })) === "S02 Trailer");
+    const slots = [numbered("a", 1), numbered("b", 1), numbered("c", 1, { season: 2 }), numbered("d", 0, { episodeType: "bonus" }), numbered("e", 0, { episodeType: "bonus" }), numbered("f", 1, { deletedAt: 1 })];
+    const dupGroups = duplicateEpisodes(slots);
+    expect("duplicates only within a season", dupGroups.length === 1 && dupGroups[0].map(p=>p.id).join() === "a,b");
+    expect("clashes ignore trashed and bonus", episodeClashes(slots, slots[2]).length === 0 && episodeClashes(slots, slots[3]).length === 0 && episodeClashes(slots, slots[0]).map(p=>p.id).join() === "b");
+    const gappy = [numbered("x", 7, { scheduledRecordAt: { at: "2026-03-03T10:00:00.000Z", tz: "UTC" } }), numbered("y", 3, { scheduledRecordAt: { at: "2026-03-02T10:00:00.000Z", tz: "UTC" } }), numbered("z", 4, { scheduledRecordAt: { at: "2026-03-01T10:00:00.000Z", tz: "UTC" } }), numbered("w", 0, { episodeType: "bonus" })];
+    const byNumber = planRenumber(gappy, "Main", undefined, "number");
+    expect("renumber by number closes gaps", byNumber.map(c=>`${c.project.id}:${c.from}>${c.to}`).join() === "y:3>1,z:4>2,x:7>3");
+    const byDate = planRenumber(gappy, "Main", undefined, "recorded");
+    expect("renumber by record date", byDate.map(c=>`${c.project.id}:${c.to}`).join() === "z:1,y:2,x:3");
+    const renumbered = applyRenumber(gappy, byDate);
+    expect("apply renumber leaves bonus alone", renumbered[3] === gappy[3] && renumbered.map(p=>p.episodeNumber).join() === "3,2,1,0");
+    expect("renumber is a no-op when consecutive", planRenumber(renumbered, "Main", undefined, "recorded").length === 0);
+    const seasonMap = rebuildSeqMap([numbered("a", 4), numbered("b", 2, { season: 2 }), numbered("c", 0, { episodeType: "trailer", season: 3 })], {});
+    expect("seq map counts seasons apart", seasonMap["Main"] === 4 && seasonMap["Main#S2"] === 2 && seasonMap["Main#S3"] === undefined);
+    expect("season counters follow a rename", JSON.stringify(renameSeriesCounter({ Main: 4, "Main#S2": 2, Mainly: 1 }, "Main", "Core")) === JSON.stringify({ Mainly: 1, Core: 4, "Core#S2": 2 }));
+    expect("latest season", latestSeason([numbered("a", 1), numbered("b", 1, { season: 3 }), numbered("c", 1, { season: 2 })], "Main") === 3);
+
     // quick search smoke
     const list: Project[] = [
-      { id: "a", title: "Alpha", series: "Main", episodeNumber: 1, status: "draft", priority: "high", tags: ["news"], description: "", beforeNotes: "", afterNotes: "", checklist: { research: true, questions: false, equipment: false, thumbnails: false }, progressPct: 25, createdAt: now(), updatedAt: now() },
-      { id: "b", title: "Beta",  series: "Main", episodeNumber: 2, status: "active", priority: "medium", tags: ["tech"], description: "", beforeNotes: "", afterNotes: "", checklist: { research: true, questions: true, equipment: false, thumbnails: false }, progressPct: 50, createdAt: now(), updatedAt: now() },
+      { id: "a", title: "Alpha", series: "Main", episodeNumber: 1, status: "draft", priority: "high", tags: ["news"], participants: [], description: "", beforeNotes: "", afterNotes: "", checklist: legacyChecklist({ research: true }), progressPct: 25, createdAt: now(), updatedAt: now() },
+      { id: "b", title: "Beta",  series: "Main", episodeNumber: 2, status: "active", priority: "medium", tags: ["tech"], participants: [], description: "", beforeNotes: "", afterNotes: "", checklist: legacyChecklist({ research: true, questions: true }), progressPct: 50, createdAt: now(), updatedAt: now() },
     ];
     const filtered = list.filter(p => p.tags.includes("tech"));
     expect("tag filter finds tech", filtered.length === 1 && filtered[0].id === "b");
 
     // fields present
     expect("project has before/after", "beforeNotes" in list[0] && "afterNotes" in list[0]);
+
+    // backup / restore
+    const ws: Workspace = { users: [], projects: [list[0]], guests: [], series: [], seqMap: { Main: 1 }, settings: { openaiKey: "sk-local", enableChat: true } };
+    const bundle = parseBackup(JSON.stringify(buildBackup({ ...ws, projects: list, seqMap: { Main: 2 } })));
+    expect("backup strips openaiKey", bundle.data.settings.openaiKey === undefined);
+    expect("backup keeps secrets when asked", buildBackup(ws, { includeSecrets: true }).data.settings.openaiKey === "sk-local");
+    const merged = applyBackup(ws, { ...bundle, data: { ...bundle.data, projects: [{ ...list[0], title: "Alpha (remote)" }, list[1]] } }, "merge");
+    expect("merge adds new records", merged.added === 1 && merged.next.projects.length === 2);
+    expect("merge reports id conflicts", merged.conflicts.length === 1 && merged.conflicts[0].id === "a" && merged.next.projects[0].title === "Alpha");
+    expect("merge keeps highest seq", merged.next.seqMap.Main === 2);
+    const replacedWs = applyBackup(ws, bundle, "replace");
+    expect("replace keeps local key", replacedWs.next.settings.openaiKey === "sk-local" && replacedWs.next.projects.length === 2);
+    const withLogin: User = { id: "u-b", name: "B", email: "b@studio.com", role: "admin", createdAt: 0, passwordHash: "pbkdf2-sha256$1$salt$hash" };
+    const pendingUser: User = { id: "u-p", name: "P", email: "p@studio.com", role: "member", createdAt: 0, invite: { token: "live-token", expiresAt: now() + 1000 } };
+    const exported = JSON.stringify(buildBackup({ ...ws, users: [withLogin, pendingUser] }));
+    expect("backup strips password hashes and invite tokens", !exported.includes("passwordHash") && !exported.includes("live-token") && !exported.includes('"invite"'));
+    const restored = applyBackup({ ...ws, users: [withLogin] }, parseBackup(exported), "replace");
+    expect("restore keeps local credentials", restored.next.users.find(u => u.id === "u-b")?.passwordHash === withLogin.passwordHash && !restored.next.users.find(u => u.id === "u-p")?.invite);
+    expect("merge without secrets is not a conflict", applyBackup({ ...ws, users: [withLogin] }, parseBackup(exported), "merge").conflicts.length === 0);
+    // schema migrations
+    const v1 = upgradeFrom([{ id: "old", title: "Legacy", episodeNumber: 7, status: "bogus", checklist: { research: true } }], MIGRATIONS[0].steps, 0)[0] as Project;
+    expect("v1 project gets default series", v1.series === DEFAULT_SERIES && v1.status === "draft");
+    expect("v1 project gets notes + progress", v1.beforeNotes === "" && v1.afterNotes === "" && v1.progressPct === 25 && Array.isArray(v1.tags));
+    expect("migration chains end at current keys", MIGRATIONS.every(c => c.steps[c.steps.length - 1].to === LS_KEYS[c.name]));
+    const rebuilt = rebuildSeqMap([v1, { ...list[1], series: "Other", episodeNumber: 3 }], { Main: 2 }, 5);
+    expect("seqMap rebuilt from episodes + legacy seq", rebuilt.Main === 7 && rebuilt.Other === 3);
+
+    let rejected = false; try { parseBackup("{\"format\":\"other\"}"); } catch { rejected = true; }
+    expect("rejects foreign backups", rejected);
+    const badRole = JSON.stringify({ ...buildBackup(ws), data: { ...ws, users: [{ id: "x", email: "x@studio.com", role: "owner" }] } });
+    let invalid = ""; try { parseBackup(badRole); } catch (e: any) { invalid = e.message; }
+    const blobCheck = decodeBackupBlobs({ ok: "data:text/plain;base64,aGk=", broken: "data:image/png;base64,@@@", wrong: 42 });
+    expect("bundled blobs decoded before restore", blobCheck.blobs.length === 1 && blobCheck.invalid.join() === "broken,wrong");
+    expect("rejects backups with invalid records", /users with a missing or invalid role \(id x\)/.test(invalid));
+
+    // storage adapters
+    const blob = dataUrlToBlob("data:text/plain;base64,aGk=");
+    expect("data URL → blob", blob.size === 2 && blob.type === "text/plain");
+    const full = createLocalStorageAdapter({ getItem: () => null, removeItem: () => {}, setItem: () => { throw new Error("QuotaExceededError"); } });
+    const failure = await full.setItem("k", "v").then(() => "", (e: any) => String(e?.message));
+    expect("quota failure surfaces from adapter", /Quota/.test(failure));
+    const oldLs = new Map<string, string>([[LS_KEYS.seq, "9"], [LS_KEYS.projects, "[]"]]);
+    const fakeLs = { getItem: (k: string) => oldLs.get(k) ?? null, removeItem: (k: string) => { oldLs.delete(k); } };
+    const copied = new Map<string, string>();
+    await importFromLocalStorage({ ...full, getItem: async k => copied.get(k) ?? null, setItem: async (k, v) => { copied.set(k, v); } }, fakeLs);
+    expect("IndexedDB import leaves the legacy counter for migrations", oldLs.get(LS_KEYS.seq) === "9" && !oldLs.has(LS_KEYS.projects) && copied.get(LS_KEYS.projects) === "[]");
+
+    // sync against the reference server
+    const server = createMockSyncServer();
+    const cfg: SyncConfig = { enabled: true, endpoint: "http://mock.local/api" };
+    const commit = (st: SyncState, res: SyncResult): SyncState => ({ ...st, queue: st.queue.filter(m => !res.sentIds.includes(m.id)), known: res.known, conflicts: res.conflicts, cursor: res.cursor });
+    let clientA = enqueueChanges(EMPTY_SYNC_STATE, "project", [], [list[0]]);
+    const pushA = await syncOnce(clientA, cfg, server.fetch);
+    clientA = commit(clientA, pushA);
+    expect("sync pushes queued records", server.records.size === 1 && clientA.queue.length === 0 && pushA.incoming.length === 0);
+    let clientB = EMPTY_SYNC_STATE;
+    const pullB = await syncOnce(clientB, cfg, server.fetch);
+    clientB = commit(clientB, pullB);
+    expect("sync pulls remote records", applyRemote<Project>([], "project", pullB.incoming)[0]?.id === "a");
+    const editA = { ...list[0], title: "Edited by A", updatedAt: list[0].updatedAt + 1 };
+    clientA = commit(clientA, await syncOnce(enqueueChanges(clientA, "project", [list[0]], [editA]), cfg, server.fetch));
+    const editB = { ...list[0], title: "Edited by B", updatedAt: list[0].updatedAt + 2 };
+    const pushB = await syncOnce(enqueueChanges(clientB, "project", [list[0]], [editB]), cfg, server.fetch);
+    expect("stale edit is a conflict", pushB.conflicts.length === 1 && (pushB.conflicts[0].remote as Project).title === "Edited by A" && pushB.incoming.length === 0);
+    const showRecord: Series = { id: "sr", name: "Synced Show", slug: "synced-show", hostIds: [], createdAt: 1, updatedAt: 1 };
+    await syncOnce(enqueueChanges(EMPTY_SYNC_STATE, "series", [], [showRecord]), cfg, server.fetch);
+    const pullSeries = await syncOnce(EMPTY_SYNC_STATE, cfg, server.fetch);
+    expect("series records sync", applyRemote<Series>([], "series", pullSeries.incoming)[0]?.name === "Synced Show" && applyRemote<Project>([], "project", pullSeries.incoming).every(p => p.id !== "sr"));
+    // authentication
+    const hash = await hashPassword("correct horse", 1000);
+    expect("password verifies", await verifyPassword("correct horse", hash));
+    expect("wrong password rejected", !(await verifyPassword("wrong horse", hash)));
+    expect("hashes are salted", hash !== await hashPassword("correct horse", 1000));
+    const invited: User = { id: "u1", name: "New", email: "new@studio.com", role: "member", createdAt: now(), invite: { token: "tok", expiresAt: now() + 1000 } };
+    const joined = await acceptInvite([invited], "tok", "Newbie", "longenough", 1000);
+    expect("invite sets password + clears token", !joined.invite && !!joined.passwordHash && joined.name === "Newbie");
+    let expired = ""; await acceptInvite([{ ...invited, invite: { token: "tok", expiresAt: now() - 1 } }], "tok", "", "longenough", 1000).catch(e => { expired = e.message; });
+    expect("expired invite rejected", /expired/.test(expired));
+    let pendingErr = ""; await localSignIn([invited], "new@studio.com", "whatever1").catch(e => { pendingErr = e.message; });
+    expect("pending invite cannot sign in", /invite/.test(pendingErr));
+    const legacyAdmin: User = { id: "la", name: "Admin", email: "admin@example.com", role: "admin", createdAt: 0 };
+    let claimErr = ""; await localSignIn([legacyAdmin], "admin@example.com", "anything8").catch(e => { claimErr = e.message; });
+    expect("legacy account is never claimed at sign-in", /no password yet/.test(claimErr));
+    const secured = await secureWorkspace([legacyAdmin, { ...legacyAdmin, id: "lm", role: "member" }], "la", "longenough", 1000);
+    expect("one-time securing sets a legacy admin's password", !!secured.passwordHash && needsSecuring([legacyAdmin]) && !needsSecuring([secured, { ...legacyAdmin, id: "la2" }]));
+    let memberErr = ""; await secureWorkspace([legacyAdmin, { ...legacyAdmin, id: "lm", role: "member" }], "lm", "longenough", 1000).catch(e => { memberErr = e.message; });
+    expect("securing only applies to admin accounts", /admin accounts/.test(memberErr));
+    expect("session expiry enforced", isSessionValid({ userId: "u", expiresAt: now() + 1000 }) && !isSessionValid({ userId: "u", expiresAt: now() - 1 }) && !isSessionValid({ userId: "u" }));
+    const idp = await createMockOidcIssuer();
+    const oidcCfg: OidcConfig = { issuer: idp.issuer, clientId: idp.clientId, redirectUri: "https://app.local/" };
+    const pendingStore = new Map<string, string>();
+    const kv: KeyValueStore = { getItem: k => pendingStore.get(k) ?? null, setItem: (k, v) => { pendingStore.set(k, v); }, removeItem: k => { pendingStore.delete(k); } };
+    const authUrl = await beginOidcLogin(oidcCfg, kv, idp.fetch);
+    const claims = await completeOidcLogin(oidcCfg, idp.authorize(authUrl, { sub: "sub-1", email: "New@studio.com", email_verified: true, name: "SSO Person" }), kv, idp.fetch);
+    expect("OIDC code flow verifies ID token", claims.sub === "sub-1");
+    expect("OIDC links invited account by email", userForClaims([invited], claims).oidcSubject === "sub-1");
+    let unverified = ""; try { userForClaims([invited], { ...claims, email_verified: false }); } catch (e: any) { unverified = e.message; }
+    expect("OIDC never links an unverified email", /not verified/.test(unverified) && userForClaims([{ ...invited, oidcSubject: "sub-1" }], { ...claims, email_verified: undefined }).id === "u1");
+    let forged = ""; await completeOidcLogin(oidcCfg, new URLSearchParams({ code: "x", state: "nope" }), kv, idp.fetch).catch(e => { forged = e.message; });
+    expect("OIDC rejects unknown state", /pending request/.test(forged));
+    // permissions
+    const admin: User = { id: "ad", name: "Ada", email: "ada@studio.com", role: "admin", createdAt: 0, passwordHash: "x" };
+    const team = [admin, { ...invited, role: "admin" as Role }, { ...admin, id: "pr", role: "producer" as Role }];
+    expect("producer can delete projects, not manage team", can(team[2], "projects.delete") && !can(team[2], "team.manage"));
+    expect("guest-viewer is read-only", ROLE_PERMISSIONS["guest-viewer"].length === 0 && !can({ ...admin, role: "guest-viewer" }, "projects.edit"));
+    expect("last admin cannot be demoted", !!lastAdminProblem(team, "ad", "member") && !!lastAdminProblem(team, "ad", null));
+    expect("other admins can be demoted", !lastAdminProblem([...team, { ...admin, id: "ad2" }], "ad", "member") && !lastAdminProblem(team, "pr", null));
+    expect("trashed or credential-less admins don't count", !!lastAdminProblem([...team, { ...admin, id: "ad3", deletedAt: 1 }, { ...admin, id: "ad4", passwordHash: undefined }], "ad", "member"));
+    expect("unsynced delete is dropped", enqueueChanges(EMPTY_SYNC_STATE, "guest", [{ id: "g", name: "G", createdAt: 1 }], []).queue.length === 0);
+    // activity log
+    const ep: Project = { id: "ep", title: "Pilot", series: "S", episodeNumber: 1, status: "draft", priority: "medium", tags: [], participants: [], checklist: legacyChecklist({}), progressPct: 0, createdAt: 0, updatedAt: 0 };
+    const edited = { ...ep, updatedAt: 5, checklist: ep.checklist.map(i => i.id === "research" ? { ...i, done: true } : i) };
+    const [upd] = activityFor("project", [ep], [edited], { id: "ad", name: "Ada" });
+    expect("activity flattens nested field diffs", upd?.action === "update" && upd.changes.length === 1 && upd.changes[0].field === "checklist.research.done" && upd.changes[0].to === true);
+    expect("activity skips no-op updates", activityFor("project", [ep], [{ ...ep, updatedAt: 9 }], { name: "x" }).length === 0);
+    const acts = activityFor("project", [ep], [{ ...ep, id: "ep2" }], { name: "x" }).map(e => e.action).sort().join(",");
+    expect("activity records create + purge", acts === "create,purge");
+    const [pw] = activityFor("user", [admin], [{ ...admin, passwordHash: "secret" }], { name: "x" });
+    expect("activity redacts secrets", pw?.changes[0].to === "(hidden)");
+    const logged = Array.from({ length: ACTIVITY_LIMIT + 2 }, (_, i) => ({ ...pw, id: `a${i}`, at: ACTIVITY_MAX_AGE_MS + i }));
+    const pruned = pruneActivity([{ ...pw, id: "stale", at: 0 }, ...logged], ACTIVITY_MAX_AGE_MS + ACTIVITY_LIMIT);
+    expect("activity log is capped by age and count", pruned.length === ACTIVITY_LIMIT && pruned[0].id === "a2" && !pruned.some(e => e.id === "stale"));
+    // trash & undo
+    const trashed = trashRecords([ep, { ...ep, id: "ep2" }], ["ep"], "ad");
+    expect("trash stamps deletedAt + updatedAt", !!trashed[0].deletedAt && trashed[0].deletedBy === "ad" && trashed[0].updatedAt > 0 && isLive(trashed[1]));
+    expect("trash logs delete, restore logs restore", activityFor("project", [ep], trashed, { name: "x" })[0]?.action === "delete" && activityFor("project", trashed, restoreRecords(trashed, ["ep"]), { name: "x" })[0]?.action === "restore");
+    expect("restore clears trash fields", restoreRecords(trashed, ["ep"]).every(p => isLive(p) && !("deletedBy" in p)));
+    const base = [ep, { ...ep, id: "ep2" }, { ...ep, id: "ep3" }];
+    const bulkTrashed = trashRecords(base, ["ep", "ep2"], "ad");
+    const { upserts: changed, before: prior } = diffById(base, bulkTrashed);
+    const remoteEdit = bulkTrashed.map(p => p.id === "ep3" ? { ...p, title: "From sync" } : p);
+    const undone = applyUndoPatch(remoteEdit, changed, changed.map(x => prior.get(x.id)!));
+    expect("undo restores bulk-trashed records", undone.filter(isLive).length === 3);
+    expect("undo keeps interleaved sync edits", undone.find(p => p.id === "ep3")?.title === "From sync");
+    expect("undo of create removes the record", applyUndoPatch(base, [{ id: "ep3" }], []).length === 2);
+    const photoGuest: Guest = { id: "pg", name: "Pic", photoId: "ph1", createdAt: 0 };
+    expect("blob refs cover photos, artwork and recordings", blobRefs([photoGuest, { id: "s", artworkId: "art" }, { id: "p", attachments: [{ blobId: "au" }] }, { id: "none" }]).join() === "ph1,art,au");
+    expect("blobs held by undo history survive a purge", unreferencedBlobs(new Set(["ph1", "ph2"]), new Set(), new Set(blobRefs([photoGuest]))).join() === "ph2");
+    const member: User = { ...admin, id: "mb", role: "member" };
+    const trashEntry: UndoEntry = { entity: "project", label: "trashed 2 projects", before: changed.map(x => prior.get(x.id)!), after: changed };
+    expect("undo re-checks delete rights", !!undoProblem(trashEntry, "undo", member, [admin, member]) && !undoProblem(trashEntry, "undo", admin, [admin, member]));
+    const memberAsAdmin: User = { ...member, role: "admin" }, adminAsMember: User = { ...admin, role: "member" }, memberInUtc: User = { ...member, timezone: "UTC" };
+    const promote: UndoEntry = { entity: "user", label: "updated Mo", before: [member], after: [memberAsAdmin] };
+    const demoteAda: UndoEntry = { entity: "user", label: "updated Ada", before: [adminAsMember], after: [admin] };
+    expect("undo keeps the last admin", /last admin/.test(undoProblem(demoteAda, "undo", admin, [admin, member])) && !undoProblem(promote, "undo", admin, [admin, memberAsAdmin]));
+    expect("own profile edits undo without team rights", !undoProblem({ entity: "user", label: "updated Mo", before: [member], after: [memberInUtc] }, "undo", member, [admin, member]));
+    expect("undo label summarises bulk actions", undoLabel("project", activityFor("project", base, bulkTrashed, { name: "x" })) === "trashed 2 projects");
+    // time zones
+    const berlin = scheduleFromWallTime("2024-03-31T01:30", "Europe/Berlin")!;
+    expect("wall time converts to an instant across DST", berlin.at === "2024-03-31T00:30:00.000Z" && scheduleFromWallTime("2024-03-31T03:30", "Europe/Berlin")!.at === "2024-03-31T01:30:00.000Z");
+    expect("instants render in any zone", wallTimeIn(berlin.at, "America/New_York") === "2024-03-30T20:30" && wallTimeIn(berlin.at, "Europe/Berlin") === "2024-03-31T01:30");
+    const legacy = upgradeProjectSchedule({ ...ep, scheduledRecordAt: "2024-07-01T10:00" as any, scheduledPublishAt: "" as any }, "America/New_York");
+    expect("legacy schedule strings upgrade to instants", legacy.scheduledRecordAt?.at === "2024-07-01T14:00:00.000Z" && legacy.scheduledRecordAt.tz === "America/New_York" && legacy.scheduledPublishAt === undefined);
+    expect("upgraded projects are left alone", upgradeProjectSchedule(legacy, "UTC") === legacy);
+    const late = scheduleFromWallTime("2024-05-01T23:30", "UTC")!, early = scheduleFromWallTime("2024-05-01T22:00", "Asia/Tokyo")!;
+    expect("schedules sort by instant, not by string", compareSchedules(early, late) < 0 && compareSchedules(late, undefined) < 0);
+    expect("zones are shown studio, guest, viewer without repeats", scheduleZones({ studio: "UTC", viewer: "UTC" }, [{ id: "g", name: "Kim", timezone: "Asia/Tokyo", createdAt: 0 }]).map(z => z.label).join(",") === "Studio,Kim" && scheduleZones({ studio: "UTC", viewer: "UTC" }, [{ id: "g", name: "Kim", timezone: "Not/AZone", createdAt: 0 }]).length === 1);
+    // calendar
+    const grid = monthGrid("2024-05-17");
+    expect("month grid starts on Sunday and covers the month", grid.length === 42 && parseDay(grid[0]).getDay() === 0 && grid.includes("2024-05-01") && grid.includes("2024-05-31"));
+    expect("week grid spans Sunday–Saturday", weekGrid("2024-05-01").join(",") === "2024-04-28,2024-04-29,2024-04-30,2024-05-01,2024-05-02,2024-05-03,2024-05-04");
+    const moved = rescheduleBy(scheduleFromWallTime("2024-03-30T14:30", "Europe/Berlin")!, dayDiff("2024-03-30", "2024-04-02"));
+    expect("drag keeps wall time in the event's zone", wallTimeIn(moved.at, "Europe/Berlin") === "2024-04-02T14:30" && moved.tz === "Europe/Berlin");
+    const evs = calendarEvents([{ ...ep, scheduledRecordAt: scheduleFromWallTime("2024-05-02T10:00", "UTC"), scheduledPublishAt: scheduleFromWallTime("2024-05-02T08:00", "Asia/Tokyo") }], "America/Los_Angeles");
+    expect("calendar places events on the viewer's days", evs.map(e => `${e.kind}@${e.day} ${e.time}`).join(",") === "publish@2024-05-01 16:00,record@2024-05-02 03:00");
+    expect("series colours are stable", seriesColor("Main") === seriesColor("Main"));
+    // iCalendar
+    const icsGuest: Guest = { id: "g1", name: "Dr. \"Q\", PhD", email: "q@example.com", createdAt: 0 };
+    const ics = buildIcs([{ project: { ...ep, title: "Semi; colon, comma", description: "Line 1\nLine 2 " + "x".repeat(120), participants: [{ guestId: "g1", role: "guest" }], durationEstimateMin: 90, scheduledRecordAt: scheduleFromWallTime("2024-05-02T10:00", "Europe/London") }, kind: "record" }], [icsGuest], "Test");
+    const icsLines = ics.split("\r\n");
+    expect("ics uses CRLF and folds at 75 octets", !/[^\r]\n/.test(ics) && icsLines.every(l => new TextEncoder().encode(l).length <= 75));
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect("ics escapes text", unfolded.includes("SUMMARY:S Ep 1: Semi\\; colon\\, comma (record)") && unfolded.includes("Line 1\\nLine 2"));
+    expect("ics writes UTC instants with DTEND from duration", unfolded.includes("DTSTART:20240502T090000Z") && unfolded.includes("DTEND:20240502T103000Z"));
+    expect("ics adds guest as attendee with stable UID", unfolded.includes('ATTENDEE;CN="Dr. Q, PhD";ROLE=REQ-PARTICIPANT:mailto:q@example.com') && unfolded.includes("UID:studiocast-ep-record"));
+    // iCalendar import
+    const scheduled: Project = { ...ep, scheduledRecordAt: scheduleFromWallTime("2024-05-02T10:00", "Europe/Berlin"), durationEstimateMin: 45 };
+    const roundTrip = parseIcs(buildIcs([{ project: scheduled, kind: "record" }], [], "T"), "UTC");
+    expect("ics import round-trips our own export", roundTrip.length === 1 && roundTrip[0].start?.at === scheduled.scheduledRecordAt!.at && roundTrip[0].minutes === 45 && planIcsImport(roundTrip, [scheduled], "S").skipped[0]?.reason === "already up to date");
+    const external = parseIcs([
+      "BEGIN:VCALENDAR", "BEGIN:VEVENT", "UID:studiocast-ep-record", "DTSTART:20240503T110000Z", "DURATION:PT1H30M", "END:VEVENT",
+      "BEGIN:VEVENT", "UID:abc@example.com", "SUMMARY:Booking\\, with Sam", "DESCRIPTION:Line\\nTwo", "DTSTART;TZID=America/New_York:20240115T090000", "DTEND;TZID=America/New_York:20240115T100000",
+      "BEGIN:VALARM", "DESCRIPTION:alarm", "END:VALARM", "END:VEVENT",
+      "BEGIN:VEVENT", "UID:day@example.com", "DTSTART;VALUE=DATE:20240601", "END:VEVENT",
+      "BEGIN:VEVENT", "UID:gone@example.com", "DTSTART:20240601T100000Z", "STATUS:CANCELLED", "END:VEVENT", "END:VCALENDAR",
+    ].join("\r\n"), "Europe/Paris");
+    expect("ics import reads TZID, nested components and escapes", external[1].start?.at === "2024-01-15T14:00:00.000Z" && external[1].start.tz === "America/New_York" && external[1].minutes === 60 && external[1].summary === "Booking, with Sam" && external[1].description === "Line\nTwo");
+    expect("ics import reads dates in the default zone", external[2].start?.at === "2024-06-01T07:00:00.000Z" && external[2].start.tz === "Europe/Paris");
+    const icsPlan = planIcsImport(external, [scheduled], "Guests");
+    expect("ics import plans updates, creates and skips", icsPlan.updates.length === 1 && icsPlan.updates[0].after.scheduledRecordAt?.at === "2024-05-03T11:00:00.000Z" && icsPlan.updates[0].after.durationEstimateMin === 90 && icsPlan.creates.length === 2 && icsPlan.skipped.length === 1);
+    const imported = applyIcsImport([scheduled], icsPlan, new Set([icsPlan.updates[0].key, icsPlan.creates[0].key]), new Map([[icsPlan.creates[0].key, 7]]));
+    expect("ics import applies selected changes only", imported.length === 2 && imported.some(p => p.externalUid === "abc@example.com" && p.episodeNumber === 7 && p.series === "Guests"));
+    expect("ics imports join the series' latest season", planIcsImport(external.slice(0, 1), [{ ...scheduled, id: "s2", series: "Guests", season: 2 }], "Guests").creates[0]?.project.season === 2);
+    expect("re-importing matches by stored UID", planIcsImport(external.slice(1, 2), imported, "Guests").creates.length === 0);
+    // Podcast feed
+    expect("durations format and parse", formatDuration(3723) === "1:02:03" && parseDuration("1:02:03") === 3723 && parseDuration("45:30") === 2730 && parseDuration("90") === 90 && parseDuration("1:x") === undefined);
+    const show: Series = { ...newSeries("S", []), description: "A show <about> things & stuff", hostIds: ["u1"], feed: { artworkUrl: "https://cdn.example.com/art.jpg", language: "en-us", category: "Society & Culture > Documentary", ownerEmail: "me@example.com", podcastGuid: "917393e3-1b1e-5cef-ace4-edaa54e1f810", locked: true } };
+    const aired: Project = { ...ep, status: "completed", season: 2, tags: ["ai", "ethics"], participants: [{ guestId: "g1", role: "guest" }], description: "Talk", enclosure: { url: "https://cdn.example.com/ep1.m4a", bytes: 1234 }, durationSec: 3723, scheduledPublishAt: scheduleFromWallTime("2024-05-02T10:00", "UTC") };
+    const feedOf = (list: Project[], series = show) => buildPodcastFeed(series, list, [{ id: "g1", name: "Ann & Co", createdAt: 0 }], [{ id: "u1", name: "Hosty" } as User], DEFAULT_WORKFLOW, new Date("2024-06-01T00:00:00Z"));
+    const rss = feedOf([aired, { ...aired, id: "draft", status: "draft" }, { ...aired, id: "bonus", episodeType: "bonus", episodeNumber: 0, enclosure: undefined }]);
+    expect("feed declares the namespaces", rss.xml.includes('xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"') && rss.xml.includes('xmlns:podcast="https://podcastindex.org/namespace/1.0"'));
+    expect("feed escapes text", rss.xml.includes("<description>A show &lt;about&gt; things &amp; stuff</description>") && rss.xml.includes('<podcast:person role="guest">Ann &amp; Co</podcast:person>'));
+    expect("feed channel tags", rss.xml.includes('<itunes:category text="Society &amp; Culture">') && rss.xml.includes('<itunes:category text="Documentary"/>') && rss.xml.includes('<podcast:locked owner="me@example.com">yes</podcast:locked>') && rss.xml.includes("<itunes:author>Hosty</itunes:author>"));
+    expect("feed item maps the project", rss.xml.includes('<enclosure url="https://cdn.example.com/ep1.m4a" length="1234" type="audio/x-m4a"/>') && rss.xml.includes("<pubDate>Thu, 02 May 2024 10:00:00 GMT</pubDate>")
+      && rss.xml.includes("<itunes:duration>1:02:03</itunes:duration>") && rss.xml.includes("<itunes:episode>1</itunes:episode>") && rss.xml.includes("<podcast:season>2</podcast:season>") && rss.xml.includes("<itunes:keywords>ai,ethics</itunes:keywords>") && rss.xml.includes('<guid isPermaLink="false">studiocast-ep</guid>'));
+    expect("feed takes completed episodes with audio only", rss.included === 1 && (rss.xml.match(/<item>/g) || []).length === 1 && rss.issues.some(x => x.level === "error" && x.projectId === "bonus") && !rss.issues.some(x => x.projectId === "draft"));
+    const older: Project = { ...aired, id: "older", episodeNumber: 0, scheduledPublishAt: scheduleFromWallTime("2024-04-01T10:00", "UTC") };
+    expect("feed lists newest first and unscheduled last", feedEpisodes(show, [{ ...aired, id: "undated", scheduledPublishAt: undefined }, older, aired], DEFAULT_WORKFLOW).map(p => p.id).join() === "ep,older,undated");
+    const bare = feedOf([{ ...aired, enclosure: { url: "https://cdn.example.com/ep1.mp3" }, durationSec: undefined }], { ...show, description: "", feed: undefined });
+    expect("feed flags missing channel fields", ["description", "artwork", "language", "category"].every(w => bare.issues.some(x => x.level === "error" && x.message.toLowerCase().includes(w))));
+    expect("feed warns about missing size and duration", bare.issues.some(x => x.level === "warning" && x.message.includes("file size")) && bare.issues.some(x => x.level === "warning" && x.message.includes("no duration")) && bare.xml.includes('length="0" type="audio/mpeg"'));
+    // Audio attachments
+    const bytesOf = (...parts: (number[] | string)[]) => new Uint8Array(parts.flatMap(x => typeof x === "string" ? [...new TextEncoder().encode(x)] : x));
+    const frame23 = (id: string, data: Uint8Array) => bytesOf(id, [0, 0, data.length >> 8, data.length & 0xff, 0, 0], [...data]);
+    const id3v23 = (frames: Uint8Array[]) => { const body = bytesOf(...frames.map(f => [...f]), [0, 0, 0, 0]); return bytesOf("ID3", [3, 0, 0, 0, 0, body.length >> 7, body.length & 0x7f], [...body]); };
+    const v23 = parseId3v2(id3v23([
+      frame23("TIT2", bytesOf([0], "Pilot")),
+      frame23("TPE1", bytesOf([1, 0xff, 0xfe], [...new Uint8Array(new Uint16Array([...("Zoë")].map(c => c.charCodeAt(0))).buffer)])),
+      frame23("COMM", bytesOf([3], "eng", [0], "Recorded live")),
+      frame23("TYER", bytesOf([0], "2024")),
+      frame23("APIC", bytesOf([0], "image/png", [0, 3, 0, 1, 2, 3])),
+    ]));
+    expect("id3v2.3 text, UTF-16 and comment frames", v23?.title === "Pilot" && v23.artist === "Zoë" && v23.comment === "Recorded live" && v23.year === "2024" && v23.album === undefined);
+    const v24 = parseId3v2(bytesOf("ID3", [4, 0, 0, 0, 0, 0, 28], "TDRC", [0, 0, 0, 5, 0, 0], [3], "2023", "TCON", [0, 0, 0, 3, 0, 0], [3], "Ta"));
+    expect("id3v2.4 syncsafe frames", v24?.year === "2023" && v24.genre === "Ta");
+    expect("no ID3 header", parseId3v2(bytesOf("RIFF....WAVE")) === undefined);
+    const id3Tail = new Uint8Array(200);
+    id3Tail.set(bytesOf("TAG", "Old title"), 72); id3Tail.set(bytesOf("Someone"), 72 + 33); id3Tail[72 + 126] = 7;
+    expect("id3v1 fixed fields and track", JSON.stringify(parseId3v1(id3Tail)) === JSON.stringify({ title: "Old title", artist: "Someone", track: "7" }));
+    const wave = new Float32Array([0, 0.5, -1, 0.25, 0.1, -0.1, 0, 0]);
+    const wavHead = new Uint8Array(44); wavHead.set([..."RIFF"].map(c => c.charCodeAt(0)), 0); wavHead.set([..."WAVEfmt "].map(c => c.charCodeAt(0)), 8);
+    new DataView(wavHead.buffer).setUint32(16, 16, true); new DataView(wavHead.buffer).setUint32(24, 22050, true);
+    expect("sample rate read from WAV and MP3 headers", audioSampleRate(wavHead) === 22050 && audioSampleRate(new Uint8Array([0xff, 0xfb, 0x90, 0x64])) === 44100
+      && audioSampleRate(new Uint8Array([0xff, 0xf3, 0x84, 0x64])) === 24000 && audioSampleRate(new Uint8Array(16)) === undefined);
+    expect("waveform peaks per bar across channels", audioPeaks([wave, new Float32Array(8).fill(0.3)], 4).join() === "0.5,1,0.3,0.3" && audioPeaks([], 4).length === 0);
+    const take = (id: string, kind: AudioKind, extra: Partial<AudioAttachment> = {}): AudioAttachment => ({ id, blobId: `b-${id}`, name: `${id}.mp3`, kind, mimeType: "audio/mpeg", bytes: 100, addedAt: 0, ...extra });
+    const mastered = applyMasterAudio({ ...ep, enclosure: { url: "https://cdn.example.com/x.mp3" }, attachments: [take("old", "master"), take("new", "raw", { bytes: 5_000_000, durationSec: 1889.6 })] }, take("new", "raw", { bytes: 5_000_000, durationSec: 1889.6 }));
+    expect("master audio feeds duration and enclosure", mastered.attachments!.map(a => a.kind).join() === "raw,master" && mastered.durationSec === 1890 && mastered.durationEstimateMin === 31
+      && mastered.enclosure?.bytes === 5_000_000 && mastered.enclosure.url === "https://cdn.example.com/x.mp3");
+    expect("attachment blob ids", attachmentBlobIds([mastered, ep]).join() === "b-old,b-new");
+    // Show notes & chapters
+    const noted: Project = { ...ep, title: "Pilot *live*", description: "Intro para.\n\nSecond <para>", durationSec: 4000, participants: [{ guestId: "g1", role: "guest" }, { guestId: "g2", role: "co-host" }],
+      chapters: [{ id: "c2", startSec: 95, title: "Topic", url: "https://example.com/a (b)" }, { id: "c1", startSec: 0, title: "Intro" }, { id: "c3", startSec: 3700, title: "Ads", hidden: true }, { id: "c4", startSec: 3705, title: "Outro" }],
+      links: [{ id: "l1", label: "Site", url: "https://example.com" }], credits: [{ id: "k1", name: "Ed", role: "Editor" }] };
+    const notedGuests: Guest[] = [{ id: "g1", name: "Ann", company: "Acme", createdAt: 0 }, { id: "g2", name: "Bo", createdAt: 0 }];
+    const jsonChapters = JSON.parse(buildJsonChapters(noted));
+    expect("json chapters sorted with toc and url", jsonChapters.version === "1.2.0" && jsonChapters.chapters.map((c: any) => c.startTime).join() === "0,95,3700,3705" && jsonChapters.chapters[2].toc === false && jsonChapters.chapters[1].url === "https://example.com/a (b)" && jsonChapters.duration === 4000);
+    const yt = buildYoutubeDescription(noted, notedGuests);
+    expect("youtube timestamps skip hidden chapters and use hours when needed", yt.includes("0:00:00 Intro\n0:01:35 Topic\n1:01:45 Outro") && !yt.includes("Ads") && yt.includes("Ann (Guest, Acme)") && yt.includes("Bo (Co-host)") && yt.includes("Ed (Editor)"));
+    expect("youtube chapter rules", youtubeChapterIssues(noted).length === 0 && youtubeChapterIssues({ ...noted, chapters: [{ id: "x", startSec: 5, title: "Late" }, { id: "y", startSec: 9, title: "Short" }] }).length === 3);
+    expect("chapter issues", chapterIssues({ ...noted, chapters: [{ id: "x", startSec: 10, title: "" }, { id: "y", startSec: 10, title: "B" }, { id: "z", startSec: 5000, title: "C" }] }).length === 3);
+    const md = buildShowNotesMarkdown(noted, notedGuests);
+    expect("markdown show notes", md.startsWith("# S Ep 1: Pilot \\*live\\*\n") && md.includes("- `0:01:35` [Topic](https://example.com/a%20%28b%29)") && md.includes("## Links\n\n- [Site](https://example.com)") && md.includes("- Ed — Editor"));
+    expect("markdown links only http(s) urls", buildShowNotesMarkdown({ ...noted, links: [{ id: "l2", label: "Bad", url: "javascript:alert(1)" }] }, notedGuests).includes("- Bad\n"));
+    const html = buildShowNotesHtml(noted, notedGuests);
+    expect("html show notes escape text", html.includes("<p>Intro para.</p>\n<p>Second &lt;para&gt;</p>") && html.includes('<time>0:01:35</time> <a href="https://example.com/a (b)">Topic</a>') && html.includes("<li>Ann — Guest, Acme</li>"));
+    const chap = buildId3Chapters(noted);
+    const chapText = new TextDecoder("latin1").decode(chap);
+    const chapFrame = chapText.indexOf("CHAP");
+    expect("id3 chapter tag", chapText.startsWith("ID3\u0004") && syncsafe(chap, 6) === chap.length - 10 && (chapText.match(/CHAP/g) || []).length === 4 && chapText.includes("toc\u0000\u0003\u0004chp0\u0000")
+      && chapText.slice(chapFrame + 10, chapFrame + 15) === "chp0\u0000" && chap[chapFrame + 20] === 0x01 && chap[chapFrame + 21] === 0x73 && chapText.includes("WXXX"));
+    expect("id3 reader skips chapter frames", parseId3v2(chap) === undefined);
+    // Board
+    const card = (id: string, status: Status, boardRank?: number, createdAt = 0): Project => ({ ...ep, id, status, boardRank, createdAt });
+    const board = [card("a", "draft", 0), card("b", "draft", 1), card("c", "draft"), card("d", "active", 0)];
+    expect("board puts unranked cards last", boardColumn(board, "draft").map(p => p.id).join() === "a,b,c");
+    const reordered = moveOnBoard(board, "c", "draft", "a").next;
+    expect("board reorders within a column", boardColumn(reordered, "draft").map(p => p.id).join() === "c,a,b" && reordered.find(p => p.id === "d") === board[3]);
+    const crossed = moveOnBoard(board, "a", "active", undefined).next;
+    expect("board moves across columns", crossed.find(p => p.id === "a")?.status === "active" && boardColumn(crossed, "active").map(p => p.id).join() === "d,a" && crossed.find(p => p.id === "a")!.updatedAt > 0);
+    const blocked = moveOnBoard(board, "a", "active", undefined, { active: 1 });
+    expect("board enforces WIP limits on entry only", !!blocked.error && blocked.next === board && !moveOnBoard(board, "d", "active", undefined, { active: 1 }).error);
+    // Checklists
+    const legacyProject = upgradeProjectChecklist({ ...ep, checklist: { research: true, thumbnails: true } as any });
+    expect("legacy checklist flags become template items", legacyProject.checklist.map((i: ChecklistItem) => `${i.id}:${i.done}`).join() === "research:true,questions:false,equipment:false,thumbnails:true" && legacyProject.progressPct === 50);
+    expect("upgraded checklists are left alone", upgradeProjectChecklist(legacyProject) === legacyProject);
+    const interview: ChecklistTemplateItem[] = [{ id: "release", label: "Guest release signed", assigneeId: "u1", dueDaysBefore: 3 }, { id: "mic", label: "Mic check" }];
+    const fresh = newChecklist(interview, scheduleFromWallTime("2024-03-01T10:00", "Europe/London"));
+    expect("new checklist copies the template with due dates", fresh.length === 2 && fresh[0].assigneeId === "u1" && fresh[0].due === "2024-02-27" && fresh[1].due === undefined && !fresh[0].done);
+    expect("progress follows the actual items", calcProgress([{ ...fresh[0], done: true }, fresh[1], { id: "x", label: "x", done: true }]) === 67 && calcProgress([]) === 0);
+    const undated = newChecklist(interview);
+    const dated = fillChecklistDueDates([undated[0], undated[1], { id: "x", label: "x", done: false, due: "2024-01-01" }], interview, scheduleFromWallTime("2024-03-01T10:00", "Europe/London"));
+    expect("record date fills missing template due dates", undated[0].due === undefined && dated[0].due === "2024-02-27" && dated[1].due === undefined && dated[2].due === "2024-01-01");
+    expect("missing template items are found by id", missingChecklistItems([fresh[1]], interview).map(i => i.id).join() === "release");
+    const solo = newSeries("Solo", [], { checklist: [] });
+    expect("series without a template use the default", checklistTemplateFor([solo], "Solo").length === 0 && checklistTemplateFor([solo], "Main") === DEFAULT_CHECKLIST_TEMPLATE);
+    // Series
+    expect("slugs are ascii and unique", slugify("Café Talks: Live!") === "cafe-talks-live" && uniqueSlug("Café Talks", ["cafe-talks", "cafe-talks-2"]) === "cafe-talks-3" && slugify("¿?") === "series");
+    const shows = ensureSeries([solo], ["Solo", "Main", "Main", ""]);
+    expect("missing series get records", shows.length === 2 && shows[1].name === "Main" && shows[1].slug === "main" && ensureSeries(shows, ["Main"]) === shows);
+    expect("series names and slugs must be unique", seriesProblem(shows, { id: "new", name: " main ", slug: "x" }).includes("already a series") && seriesProblem(shows, { id: "new", name: "Other", slug: "solo" }).includes("slug")
+      && seriesProblem(shows, { id: "new", name: "Other", slug: "Bad Slug" }).includes("lower-case") && seriesProblem(shows, { ...shows[1], name: "Main Show" }) === "");
+    const renamedEps = renameSeriesProjects([{ ...ep, id: "s1", series: "Solo" }, { ...ep, id: "s2", series: "Main", deletedAt: 1 }, { ...ep, id: "s3", series: "Main" }], "Main", "Main Show");
+    expect("renames move every episode", renamedEps.map(p => p.series).join() === "Solo,Main Show,Main Show" && renamedEps[0].updatedAt === ep.updatedAt);
+    expect("renames move the episode counter", JSON.stringify(renameSeriesCounter({ Main: 4, Solo: 2, "Main Show": 1 }, "Main", "Main Show")) === JSON.stringify({ Solo: 2, "Main Show": 4 }));
+    const fromSettings = seriesFromLegacy([], ["Main", "Solo"], { Solo: interview, Gone: [] });
+    expect("legacy templates move onto series", fromSettings.created === 3 && fromSettings.moved === 2 && seriesNamed(fromSettings.series, "Solo")!.checklist === interview && !seriesNamed(fromSettings.series, "Main")!.checklist);
+    const clash = applyBackup({ ...ws, series: [solo] }, { ...bundle, data: { ...bundle.data, series: [{ ...solo, id: "other" }, shows[1]] } }, "merge");
+    expect("restoring skips series whose name is taken", clash.next.series.map(x => x.name).join() === "Solo,Main" && clash.conflicts.some(c => c.kind === "series" && c.id === "other"));
+    // Participants
+    const single = upgradeProjectParticipants({ ...ep, participants: undefined, guestId: "g1" } as any);
+    expect("single guest becomes a participant", single.participants.length === 1 && single.participants[0].role === "guest" && !("guestId" in single) && upgradeProjectParticipants(single) === single);
+    const panelGuests: Guest[] = [{ id: "g1", name: "Ann", email: "ann@example.com", createdAt: 0 }, { id: "g2", name: "Bo", createdAt: 0 }, { id: "g3", name: "Cy", email: "cy@example.com", createdAt: 0 }];
+    const panel: Project = { ...ep, participants: [{ guestId: "g1", role: "guest" }, { guestId: "g2", role: "co-host" }, { guestId: "g3", role: "moderator" }, { guestId: "gone", role: "guest" }], scheduledRecordAt: scheduleFromWallTime("2024-05-02T10:00", "UTC") };
+    expect("participant names show roles and skip missing guests", participantNames(panel, panelGuests) === "Ann, Bo (co-host), Cy (moderator)");
+    const panelIcs = buildIcs([{ project: panel, kind: "record" }], panelGuests, "T").replace(/\r\n /g, "");
+    expect("ics invites every participant with an email", panelIcs.includes('ATTENDEE;CN="Ann";ROLE=REQ-PARTICIPANT:mailto:ann@example.com') && panelIcs.includes('ROLE=CHAIR:mailto:cy@example.com') && (panelIcs.match(/ATTENDEE/g) || []).length === 2);
+    const later = { ...panel, id: "p2", participants: [{ guestId: "g2", role: "guest" as const }], scheduledRecordAt: scheduleFromWallTime("2024-06-02T10:00", "UTC") };
+    expect("guest appearances are newest first with roles", guestAppearances([panel, later], "g2").map(a => `${a.project.id}:${a.role}`).join() === "p2:guest,ep:co-host" && guestAppearances([panel], "nobody").length === 0);
+    // Guest outreach
+    const prospect: Guest = { id: "g9", name: "Pat", createdAt: 0, contactLog: [{ id: "c1", on: "2024-03-05", channel: "email", summary: "Intro" }] };
+    expect("guests without a stage are prospects", outreachStage(prospect) === "prospect");
+    const contacted = logContact(prospect, { on: "2024-03-07", channel: "call", summary: "Pitched", byId: "u1" });
+    expect("logging contact keeps newest first and moves prospects on", contacted.contactLog!.map(c => c.on).join() === "2024-03-07,2024-03-05" && contacted.outreach === "contacted");
+    expect("logging contact keeps later stages", logContact({ ...prospect, outreach: "confirmed" }, { on: "2024-03-01", channel: "email", summary: "Prep" }).outreach === "confirmed");
+    const reminders: Guest[] = [{ ...prospect, id: "a", followUp: { due: "2024-03-09" } }, { ...prospect, id: "b", followUp: { due: "2024-03-01" } }, { ...prospect, id: "c", followUp: { due: "2024-03-11" } }, { ...prospect, id: "d" }];
+    expect("follow-ups due are most overdue first", followUpsDue(reminders, "2024-03-09").map(g => g.id).join() === "b,a");
+    // Guest directory
+    const bios: Guest = { id: "s1", name: "José Álvarez", company: "Acme", bio: "Works on solar batteries", topics: "Energy, climate; energy", createdAt: 0 };
+    expect("search folds accents and needs every word", guestMatches(bios, "jose SOLAR") && guestMatches(bios, "") && !guestMatches(bios, "jose wind"));
+    expect("topics are split and de-duplicated", guestTopics(bios).join("|") === "Energy|climate" && guestTopics({ ...bios, topics: undefined }).length === 0);
+    const dupes = findDuplicateGuests([
+      { id: "d1", name: "Dr. Jane Smith", email: "Jane@Example.com", createdAt: 1 },
+      { id: "d2", name: "Jane Smyth", createdAt: 2 },
+      { id: "d3", name: "J. Smith", email: " jane@example.com", createdAt: 3 },
+      { id: "d4", name: "Bob Jones", createdAt: 4 },
+      { id: "d5", name: "Rob Jones", createdAt: 5 },
+      { id: "d6", name: "Al", createdAt: 6 },
+      { id: "d7", name: "Ed", createdAt: 7 },
+      { id: "d8", name: "Smyth, Jane", createdAt: 8 },
+      { id: "d9", name: "Kim Lee", email: "kim.lee@studio.com", createdAt: 9 },
+      { id: "d10", name: "K. Lee", email: "kim.le@studio.com", createdAt: 10 },
+      { id: "d11", name: "Tim Bill", createdAt: 11 },
+      { id: "d12", name: "Tom Hill", createdAt: 12 },
+    ]);
+    expect("duplicates match on near-identical emails or names", dupes.map(d => `${d.a.id}${d.b.id}:${d.reason}`).join() === "d1d2:name,d1d3:email,d1d8:name,d2d8:name,d4d5:name,d9d10:email");
+    const kept = mergeGuests({ id: "k", name: "Jane", email: "", topics: "AI", outreach: "prospect", followUp: { due: "2024-05-01" }, createdAt: 5, contactLog: [{ id: "x", on: "2024-01-02", channel: "email", summary: "a" }] },
+      { id: "m", name: "Jane S", email: "j@example.com", topics: "ai, Robots", outreach: "confirmed", followUp: { due: "2024-04-01" }, notes: "vegan", createdAt: 2, contactLog: [{ id: "y", on: "2024-02-01", channel: "call", summary: "b" }] });
+    expect("merge fills gaps and keeps the kept record's values", kept.id === "k" && kept.name === "Jane" && kept.email === "j@example.com" && kept.topics === "AI, Robots" && kept.outreach === "confirmed" && kept.notes === "vegan");
+    expect("merge combines logs and keeps the earliest follow-up", kept.contactLog!.map(c => c.id).join() === "y,x" && kept.followUp!.due === "2024-04-01" && kept.createdAt === 2);
+    const untouched: Project = { ...ep, id: "r3", participants: [{ guestId: "z", role: "guest" }] };
+    const repointed = repointParticipants([
+      { ...ep, id: "r1", participants: [{ guestId: "m", role: "guest" }] },
+      { ...ep, id: "r2", participants: [{ guestId: "m", role: "guest" }, { guestId: "k", role: "co-host" }] },
+      untouched,
+    ], "m", "k");
+    expect("merging re-points bookings without doubling up", repointed.map(p => p.participants.map(x => `${x.guestId}:${x.role}`).join("+")).join() === "k:guest,k:co-host,z:guest" && repointed[2] === untouched);
+    // Guest import / export
+    const table = parseCsv('\uFEFFFirst Name;Last Name;E-mail;Notes\r\n"Ada";Lovelace;ada@example.com;"says ""hi""\nlater"\r\n;;bad-email;\r\n\r\n');
+    expect("csv parses quotes, line breaks and semicolons", table.length === 3 && table[1][3] === 'says "hi"\nlater' && table[2][2] === "bad-email");
+    const csvMap = guessCsvMapping(table[0]);
+    expect("csv headers map to guest fields", csvMap.join() === "firstName,lastName,email,notes");
+    const csvPlan = planGuestImport(csvGuests(table.slice(1), csvMap), [{ id: "x", name: "Someone", email: "ADA@example.com", createdAt: 0 }]);
+    expect("csv import validates and flags duplicates", csvPlan[0].guest.name === "Ada Lovelace" && csvPlan[0].duplicateOf === "Someone" && !csvPlan[0].errors.length
+      && csvPlan[1].errors.join() === "missing name,invalid email “bad-email”");
+    const csvOut = buildGuestsCsv([{ id: "c", name: "Lee, Sam", notes: 'a "b"', company: "=HYPERLINK(\"http://x\")", outreach: "thanked", createdAt: 0 }]);
+    const csvBack = parseCsv(csvOut);
+    const csvAgain = csvGuests(csvBack.slice(1), guessCsvMapping(csvBack[0]))[0];
+    expect("csv export defuses formulas", csvBack[1].includes("'=HYPERLINK(\"http://x\")"));
+    expect("csv export round-trips", csvAgain.name === "Lee, Sam" && csvAgain.notes === 'a "b"' && csvAgain.outreach === "thanked" && csvAgain.company === "=HYPERLINK(\"http://x\")");
+    const cardGuest: Guest = { id: "v", name: "Dr. Ana María Ruiz", company: "Lab; Inc", email: "ana@example.com", bio: "Line one\nLine two, more", socials: "https://a.example\n@ana", topics: "Space, AI", timezone: "Europe/Madrid", createdAt: 0 };
+    const vcf = buildVcards([cardGuest], { v: "data:image/png;base64," + "A".repeat(200) });
+    expect("vcards are folded and embed the photo", vcf.split("\r\n").every(l => l.length <= 75) && vcf.includes("PHOTO;ENCODING=b;TYPE=PNG:") && vcf.includes("N:Ruiz;Dr. Ana María;;;"));
+    const [cardBack] = parseVcards(vcf);
+    expect("vcards round-trip", cardBack.name === cardGuest.name && cardBack.company === "Lab; Inc" && cardBack.bio === cardGuest.bio && cardBack.socials === cardGuest.socials
+      && cardBack.topics === "Space, AI" && cardBack.timezone === "Europe/Madrid" && cardBack.photoDataUrl === "data:image/png;base64," + "A".repeat(200));
+    const v21 = parseVcards("BEGIN:VCARD\nVERSION:2.1\nN:Doe;John;;Mr.;\nitem1.EMAIL;INTERNET:j@x.org\nEMAIL;INTERNET;PREF:john@x.org\nEND:VCARD\nBEGIN:VCARD\nFN:Solo\nEND:VCARD");
+    const badPhoto = planGuestImport([{ name: "Pic", photoDataUrl: "data:image/jpeg;base64,@@not base64@@" }], []);
+    expect("unreadable vcard photo dropped with a warning", !badPhoto[0].guest.photoDataUrl && badPhoto[0].warnings.join() === "unreadable photo dropped" && !badPhoto[0].errors.length);
+    expect("vcard 2.1 names and preferred emails are read", v21.length === 2 && v21[0].name === "Mr. John Doe" && v21[0].email === "john@x.org" && v21[1].name === "Solo");
+    // Assignments
+    const owned: Project = { ...ep, id: "own", assigneeId: "u1", scheduledPublishAt: scheduleFromWallTime("2024-03-10T23:30", "UTC"),
+      checklist: [{ id: "a", label: "Book studio", done: false, assigneeId: "u1", due: "2024-03-01" }, { id: "b", label: "Mic check", done: true, assigneeId: "u1" }, { id: "c", label: "Release", done: false, assigneeId: "u2" }] };
+    const mineNow = openWork([owned, { ...owned, id: "old", status: "completed" }, { ...owned, id: "gone", deletedAt: 1 }], DEFAULT_WORKFLOW, "Asia/Tokyo", "u1");
+    expect("my work lists open assigned items by due date", mineNow.map(w => w.key).join() === "own:a,own" && mineNow[1].due === "2024-03-11");
+    expect("overdue compares calendar days", isOverdue(mineNow[0], "2024-03-02") && !isOverdue(mineNow[0], "2024-03-01") && !isOverdue({ ...mineNow[0], due: undefined }, "2099-01-01"));
+    const ticked = setChecklistItemDone(owned, "a", true);
+    expect("ticking an item updates progress", ticked.progressPct === 67 && openWork([ticked], DEFAULT_WORKFLOW, "UTC", "u1").length === 1);
+    // Workflow
+    const flow = normalizeWorkflow({ stages: [
+      { id: "booked", label: "Booked", kind: "draft", color: "zinc", next: ["recorded", "nope"] },
+      { id: "recorded", label: "Recorded", kind: "active", color: "blue", next: ["done"] },
+      { id: "done", label: "Done", kind: "completed", color: "emerald", next: [], guards: ["checklistComplete", "publishDateSet", "bogus"] },
+    ] });
+    expect("workflow drops unknown transitions and guards", flow.stages[0].next.join() === "recorded" && flow.stages[2].guards.join() === "checklistComplete,publishDateSet");
+    expect("workflow falls back to the default when malformed", normalizeWorkflow({ stages: [{ id: "a" }, { id: "a" }] }) === DEFAULT_WORKFLOW && normalizeWorkflow(undefined) === DEFAULT_WORKFLOW);
+    const booked = { ...ep, status: "booked" };
+    expect("workflow blocks transitions not listed", /Can't move/.test(transitionProblem(flow, booked, "done", "booked")) && !transitionProblem(flow, booked, "recorded", "booked"));
+    const ready = { ...ep, status: "recorded", checklist: ep.checklist.map(i => ({ ...i, done: true })) };
+    expect("workflow guards name what is missing", transitionProblem(flow, ready, "done", "recorded") === "“Done” needs publish date set." && !transitionProblem(flow, { ...ready, scheduledPublishAt: scheduleFromWallTime("2024-05-02T10:00", "UTC") }, "done", "recorded"));
+    const bulkMoved = bulkMove([booked, ready, { ...ep, id: "other", status: "done" }], ["ep", "other"], "recorded", flow);
+    expect("bulk move applies rules per project", bulkMoved.next[0].status === "recorded" && bulkMoved.skipped.length === 1 && bulkMoved.skipped[0].project.id === "other");
+    expect("board respects the workflow", /Can't move/.test(moveOnBoard([booked], "ep", "done", undefined, {}, flow).error || ""));
+    expect("unknown stages can move anywhere", !transitionProblem(flow, booked, "recorded", "gone") && stageOf(flow, "gone").label === "gone");
   } catch (e: any) {
     results.push({ name: "tests crashed", ok: false, message: e?.message || String(e) });
   }
@@ -175,83 +3405,321 @@ function TestResultsPanel({ results }: { results: { name: string; ok: boolean; m
   );
 }
 
-// ---------- Main App ----------
-export default function StudioCastPortal() {
-  const [users, setUsers] = useState<User[]>(() => load<User[]>(LS_KEYS.users, []));
-  const [projects, setProjects] = useState<Project[]>(() => load<Project[]>(LS_KEYS.projects, []));
-  const [guests, setGuests] = useState<Guest[]>(() => load<Guest[]>(LS_KEYS.guests, []));
-  const [settings, setSettings] = useState(() => load<{ openaiKey?: string; enableChat?: boolean }>(LS_KEYS.settings, { enableChat: false }));
+// ---------- Main App ----------
+export default function StudioCastPortal() {
+  const [ready, setReady] = useState(false);
+  const [users, setUsersRaw] = useState<User[]>([]);
+  const [projects, setProjectsRaw] = useState<Project[]>([]);
+  const [guests, setGuestsRaw] = useState<Guest[]>([]);
+  const [series, setSeriesRaw] = useState<Series[]>([]);
+  const [settings, setSettings] = useState<Settings>({ enableChat: false });
+  const [sessionUserId, setSessionUserId] = useState<string | undefined>();
+  const activity = useActivityLog(ready);
+  const [authError, setAuthError] = useState("");
+  const [testResults, setTestResults] = useState<{ name: string; ok: boolean; message?: string }[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+    initStorage().then(async () => {
+      if (!alive) return;
+      setUsersRaw(load<User[]>(LS_KEYS.users, []));
+      setProjectsRaw(load<Project[]>(LS_KEYS.projects, []));
+      setGuestsRaw(load<Guest[]>(LS_KEYS.guests, []));
+      setSeriesRaw(load<Series[]>(LS_KEYS.series, []));
+      setSettings(load<Settings>(LS_KEYS.settings, { enableChat: false }));
+      setSessionUserId(getSession().userId);
+      setReady(true);
+      const params = new URLSearchParams(location.search);
+      const oidc = load<Settings>(LS_KEYS.settings, {}).oidc;
+      if (oidc && params.has("state") && (params.has("code") || params.has("error"))) {
+        history.replaceState(null, "", location.pathname + location.hash);
+        completeOidcLogin(oidc, params)
+          .then(claims => {
+            const u = userForClaims(load<User[]>(LS_KEYS.users, []).filter(isLive), claims);
+            setUsers(prev => prev.map(x => x.id === u.id ? u : x));
+            setSession(u.id, "oidc"); setSessionUserId(u.id);
+          })
+          .catch(e => setAuthError(e?.message || String(e)));
+      }
+      const results = await runSmokeTests();
+      if (alive) setTestResults(results);
+    });
+    return () => { alive = false; };
+  }, []);
+
+  const currentUser = users.find(u => u.id === sessionUserId && isLive(u));
+  const actor: Actor = currentUser ? { id: currentUser.id, name: currentUser.name } : { name: "Sign-in" };
+  const undoHistory = useUndoHistory();
+  const setUsers = useAuditedSetter(users, setUsersRaw, "user", actor, activity.append, currentUser && undoHistory.record);
+  const setProjects = useAuditedSetter(projects, setProjectsRaw, "project", actor, activity.append, undoHistory.record);
+  const setGuests = useAuditedSetter(guests, setGuestsRaw, "guest", actor, activity.append, undoHistory.record);
+  const setSeries = useAuditedSetter(series, setSeriesRaw, "series", actor, activity.append, undoHistory.record);
+  const setSeriesForProjects = useAuditedSetter(series, setSeriesRaw, "series", { name: "System" }, activity.append);
+  const syncActor: Actor = { name: "Sync" };
+  const setProjectsFromSync = useAuditedSetter(projects, setProjectsRaw, "project", syncActor, activity.append);
+  const setGuestsFromSync = useAuditedSetter(guests, setGuestsRaw, "guest", syncActor, activity.append);
+  const setSeriesFromSync = useAuditedSetter(series, setSeriesRaw, "series", syncActor, activity.append);
+
+  useEffect(() => { if (ready) save(LS_KEYS.users, users); }, [ready, users]);
+  useEffect(() => { if (ready) save(LS_KEYS.projects, projects); }, [ready, projects]);
+  useEffect(() => { if (ready) save(LS_KEYS.guests, guests); }, [ready, guests]);
+  useEffect(() => { if (ready) save(LS_KEYS.series, series); }, [ready, series]);
+  // Projects arriving from sync or a restored backup may name a series we have no record for yet.
+  useEffect(() => { if (ready) setSeriesForProjects(prev => ensureSeries(prev, projects.map(p => p.series))); }, [ready, projects, setSeriesForProjects]);
+  useEffect(() => { if (ready) save(LS_KEYS.settings, settings); }, [ready, settings]);
+
+  const sync = useSync({ ready, config: settings.sync, projects, setProjects: setProjectsFromSync, guests, setGuests: setGuestsFromSync, series, setSeries: setSeriesFromSync });
+
+  const handleLogin = (u: User, provider: AuthProviderId) => { setSession(u.id, provider); setSessionUserId(u.id); setAuthError(""); };
+  useBlobSweep(ready, { projects, guests, series }, undoHistory);
+
+  const handleLogout = () => { setSession(undefined); setSessionUserId(undefined); undoHistory.clear(); };
+
+  const undoSetters = { user: setUsers, project: setProjects, guest: setGuests, series: setSeries };
+  const replay = (dir: "undo" | "redo") => {
+    const stack = dir === "undo" ? undoHistory.past : undoHistory.future;
+    const entry = stack[stack.length - 1];
+    const problem = entry && undoProblem(entry, dir, currentUser, users);
+    if (problem) return alert(problem);
+    undoHistory.step(dir, undoSetters);
+  };
+  const undo: UndoHandle = {
+    undoLabel: undoHistory.past[undoHistory.past.length - 1]?.label,
+    redoLabel: undoHistory.future[undoHistory.future.length - 1]?.label,
+    undo: () => replay("undo"),
+    redo: () => replay("redo"),
+  };
+
+  // Drop back to the sign-in screen once the session record expires.
+  useEffect(() => {
+    if (!sessionUserId) return;
+    const timer = setInterval(() => { if (!getSession().userId) { setSessionUserId(undefined); setAuthError("Your session expired — please sign in again."); } }, 60000);
+    return () => clearInterval(timer);
+  }, [sessionUserId]);
+
+  if (!ready) return <div className="min-h-screen bg-slate-950 text-slate-400 flex items-center justify-center">Loading workspace…</div>;
+
+  return (
+    <>
+      <StorageErrorBanner />
+      {!currentUser ? <AuthScreen users={users.filter(isLive)} setUsers={setUsers} onLogin={handleLogin} oidc={settings.oidc} error={authError} testResults={testResults} /> : (
+        <Shell
+          users={users} setUsers={setUsers}
+          projects={projects} setProjects={setProjects}
+          guests={guests} setGuests={setGuests}
+          series={series} setSeries={setSeries}
+          currentUser={currentUser} onLogout={handleLogout}
+          testResults={testResults}
+          settings={settings} setSettings={setSettings}
+          sync={sync} activity={activity.entries} undo={undo}
+        />
+      )}
+    </>
+  );
+}
+
+function StorageErrorBanner(){
+  const [errors, setErrors] = useState<StorageError[]>(() => storageFallback ? [storageFallback] : []);
+  useEffect(() => onStorageError(e => setErrors(prev => [...prev.filter(x => x.key !== e.key), e])), []);
+  if (errors.length === 0) return null;
+  return (
+    <div className="fixed top-0 inset-x-0 z-[60] bg-red-950/95 border-b border-red-800 text-red-100 text-sm">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex items-start justify-between gap-4">
+        <div>
+          <div className="font-semibold">{storageFallback && errors.includes(storageFallback)
+            ? `Couldn't open ${storageFallback.key} — this session is using localStorage, so its workspace and changes are separate.`
+            : `Saving failed on ${storage.name} — recent changes may be lost on reload.`}</div>
+          {errors.map(e=> <div key={e.key} className="text-xs text-red-200">{e.key}: {e.message}</div>)}
+        </div>
+        <button onClick={()=>setErrors([])} className="px-3 py-1 rounded-lg bg-red-900 hover:bg-red-800">Dismiss</button>
+      </div>
+    </div>
+  );
+}
+
+// Object URL for a stored blob, revoked when the id changes or the component unmounts.
+function useBlobUrl(id?: string){
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    if (!id) { setUrl(undefined); return; }
+    let objectUrl: string | undefined;
+    let alive = true;
+    getBlob(id).then(b => { if (alive && b) { objectUrl = URL.createObjectURL(b); setUrl(objectUrl); } });
+    return () => { alive = false; if (objectUrl) URL.revokeObjectURL(objectUrl); };
+  }, [id]);
+  return url;
+}
 
-  const session = useMemo(getSession, []);
-  const currentUser = users.find(u => u.id === session.userId);
+function GuestPhoto({ guest, className }:{ guest: Guest; className: string }){
+  const url = useBlobUrl(guest.photoId);
+  const src = url || guest.photoDataUrl;
+  return src ? <img src={src} alt={guest.name || "guest"} className={classNames("object-cover", className)} /> : null;
+}
 
-  useEffect(() => save(LS_KEYS.users, users), [users]);
-  useEffect(() => save(LS_KEYS.projects, projects), [projects]);
-  useEffect(() => save(LS_KEYS.guests, guests), [guests]);
-  useEffect(() => save(LS_KEYS.settings, settings), [settings]);
+function SeriesArtwork({ series, className }:{ series: Series; className: string }){
+  const url = useBlobUrl(series.artworkId);
+  if (url) return <img src={url} alt={`${series.name} artwork`} className={classNames("object-cover", className)} />;
+  return <div className={classNames("flex items-center justify-center bg-gradient-to-br from-slate-700 to-slate-800 text-slate-300 font-semibold", className)}>{series.name.slice(0, 2).toUpperCase()}</div>;
+}
 
-  const [testResults] = useState(runSmokeTests());
+// ---------- UI Pieces ----------
+function AuthScreen({ users, setUsers, onLogin, oidc, error: initialError, testResults }: {
+  users: User[]; setUsers: React.Dispatch<React.SetStateAction<User[]>>;
+  onLogin: (u: User, provider: AuthProviderId) => void;
+  oidc?: OidcConfig; error?: string;
+  testResults: { name: string; ok: boolean; message?: string }[];
+}){
+  const inviteToken = useMemo(() => new URLSearchParams(location.hash.slice(1)).get("invite") || "", []);
+  const [mode, setMode] = useState<"signin"|"invite">(inviteToken ? "invite" : "signin");
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [token, setToken] = useState(inviteToken);
+  const [error, setError] = useState(initialError || "");
+  const [busy, setBusy] = useState(false);
+  useEffect(() => { if (initialError) setError(initialError); }, [initialError]);
+  const setup = users.length === 0;
 
-  const handleLogin = (email: string, name?: string) => {
-    if (!email.trim()) return alert('Email required');
-    let u = users.find(u => u.email.toLowerCase() === email.toLowerCase());
-    if (!u) { u = { id: uid("usr"), name: name || email.split("@")[0], email, role: "member", createdAt: now() }; setUsers(prev => [...prev, u!]); }
-    setSession(u.id); window.location.reload();
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true); setError("");
+    try { await fn(); } catch (e: any) { setError(e?.message || String(e)); } finally { setBusy(false); }
   };
-  const handleLogout = () => { setSession(undefined); window.location.reload(); };
+  const replaceUser = (u: User) => setUsers(prev => prev.map(x => x.id === u.id ? u : x));
 
-  if (!currentUser) return <AuthScreen onLogin={handleLogin} testResults={testResults} />;
+  const signIn = () => run(async () => { onLogin(await localSignIn(users, email, password), "local"); });
+  const legacyAdmins = users.filter(u => isLive(u) && u.role === "admin" && isUnclaimed(u));
+  const securing = !setup && mode === "signin" && needsSecuring(users);
+  const [secureId, setSecureId] = useState("");
+  const [confirmed, setConfirmed] = useState(false);
+  const secure = () => run(async () => {
+    if (!confirmed) throw new Error("Confirm that you administer this workspace.");
+    const u = await secureWorkspace(users, secureId || legacyAdmins[0]?.id, password);
+    replaceUser(u);
+    onLogin(u, "local");
+  });
+  const createAdmin = () => run(async () => {
+    if (!name.trim() || !email.trim()) throw new Error("Name and email are required.");
+    const problem = passwordProblem(password);
+    if (problem) throw new Error(problem);
+    const admin: User = { id: uid("usr"), name: name.trim(), email: email.trim(), role: "admin", createdAt: now(), passwordHash: await hashPassword(password) };
+    setUsers([admin]); onLogin(admin, "local");
+  });
+  const accept = () => run(async () => {
+    const u = await acceptInvite(users, token, name, password);
+    replaceUser(u);
+    history.replaceState(null, "", location.pathname + location.search);
+    onLogin(u, "local");
+  });
+  const sso = () => run(async () => { location.assign(await beginOidcLogin(oidc!)); });
 
-  return (
-    <Shell
-      users={users} setUsers={setUsers}
-      projects={projects} setProjects={setProjects}
-      guests={guests} setGuests={setGuests}
-      currentUser={currentUser} onLogout={handleLogout}
-      testResults={testResults}
-      settings={settings} setSettings={setSettings}
-    />
-  );
-}
+  const input = "w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 focus:outline-none focus:ring focus:ring-blue-500";
+  const primary = "mt-6 w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-500 transition font-semibold disabled:opacity-50";
 
-// ---------- UI Pieces ----------
-function AuthScreen({ onLogin, testResults }: { onLogin: (email: string, name?: string) => void; testResults: { name: string; ok: boolean; message?: string }[] }){
-  const [email, setEmail] = useState("");
-  const [name, setName] = useState("");
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 flex items-center justify-center p-6">
       <div className="w-full max-w-md bg-slate-900/60 border border-slate-800 rounded-2xl p-8 shadow-xl">
         <div className="text-center mb-6">
           <h1 className="text-2xl font-bold tracking-tight">🎙️ StudioCast Portal</h1>
-          <p className="text-sm text-slate-400 mt-1">Local-first MVP — sign in with an email to start.</p>
+          <p className="text-sm text-slate-400 mt-1">
+            {setup ? "First run — create the admin account for this workspace." : mode==="invite" ? "Accept your invite and choose a password." : securing ? "No admin can sign in to this workspace yet." : "Sign in to your workspace."}
+          </p>
         </div>
-        <label className="block text-sm mb-2">Email</label>
-        <input value={email} onChange={e=>setEmail(e.target.value)} placeholder="you@studio.com" className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 focus:outline-none focus:ring focus:ring-blue-500"/>
-        <label className="block text-sm mt-4 mb-2">Name (new users)</label>
-        <input value={name} onChange={e=>setName(e.target.value)} placeholder="Your name" className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 focus:outline-none focus:ring focus:ring-blue-500"/>
-        <button onClick={()=>onLogin(email, name)} className="mt-6 w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-500 transition font-semibold">Enter Portal</button>
+
+        {(setup || mode==="invite") && (<>
+          <label className="block text-sm mb-2">Name</label>
+          <input value={name} onChange={e=>setName(e.target.value)} placeholder="Your name" className={input}/>
+        </>)}
+        {mode==="invite" && !setup && (<>
+          <label className="block text-sm mt-4 mb-2">Invite code</label>
+          <input value={token} onChange={e=>setToken(e.target.value)} placeholder="from your invite link" className={classNames(input, "font-mono text-xs")}/>
+        </>)}
+        {securing && (<>
+          <p className="text-sm text-slate-300">This workspace was created before accounts had passwords. Set a password for one of its admin accounts; everyone else then gets an invite link from the Team page.</p>
+          <label className="block text-sm mt-4 mb-2">Admin account</label>
+          <select value={secureId || legacyAdmins[0]?.id} onChange={e=>setSecureId(e.target.value)} className={input}>
+            {legacyAdmins.map(u=> <option key={u.id} value={u.id}>{u.name} · {u.email}</option>)}
+          </select>
+        </>)}
+        {(setup || mode==="signin") && !securing && (<>
+          <label className={classNames("block text-sm mb-2", setup && "mt-4")}>Email</label>
+          <input value={email} onChange={e=>setEmail(e.target.value)} placeholder="you@studio.com" className={input}/>
+        </>)}
+        <label className="block text-sm mt-4 mb-2">Password</label>
+        <input type="password" value={password} onChange={e=>setPassword(e.target.value)} onKeyDown={e=>{ if(e.key==="Enter") (setup?createAdmin:mode==="invite"?accept:securing?secure:signIn)(); }} placeholder={setup || mode==="invite" || securing ? `at least ${MIN_PASSWORD_LENGTH} characters` : ""} className={input}/>
+        {securing && (
+          <label className="flex items-start gap-2 mt-4 text-sm text-slate-300">
+            <input type="checkbox" checked={confirmed} onChange={e=>setConfirmed(e.target.checked)} className="mt-1 accent-blue-500" />
+            I administer this workspace. This is a one-time step; afterwards this screen only offers normal sign-in.
+          </label>
+        )}
+
+        {error && <div className="mt-4 text-sm text-red-300">{error}</div>}
+
+        {setup ? <button onClick={createAdmin} disabled={busy} className={primary}>Create Admin &amp; Enter</button>
+          : mode==="invite" ? <button onClick={accept} disabled={busy} className={primary}>Join Workspace</button>
+          : securing ? <button onClick={secure} disabled={busy || !confirmed} className={primary}>Secure Workspace &amp; Enter</button>
+          : <button onClick={signIn} disabled={busy} className={primary}>Enter Portal</button>}
+
+        {!setup && oidc?.issuer && oidc.clientId && (
+          <button onClick={sso} disabled={busy} className="mt-3 w-full py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50">Sign in with SSO</button>
+        )}
+        {!setup && (
+          <button onClick={()=>{ setMode(mode==="invite"?"signin":"invite"); setError(""); }} className="mt-3 w-full text-sm text-slate-400 hover:text-slate-200">
+            {mode==="invite" ? "Already have an account? Sign in" : "Have an invite code?"}
+          </button>
+        )}
 
         <TestResultsPanel results={testResults} />
 
         <div className="mt-6 text-xs text-slate-500">
-          <p>Seed admin: <span className="font-mono">admin@example.com</span> (auto-provisioned on first load).</p>
-          <p className="mt-1">Admins can promote/demote users in Team.</p>
+          <p>New team members join through an invite link from an admin (Team page).</p>
+          <p className="mt-1">Sessions expire after {SESSION_TTL_MS / 3600000} hours.</p>
         </div>
       </div>
     </div>
   );
 }
 
-function Shell({ users, setUsers, projects, setProjects, guests, setGuests, currentUser, onLogout, testResults, settings, setSettings }:{
+function Shell({ users, setUsers, projects, setProjects, guests, setGuests, series, setSeries, currentUser, onLogout, testResults, settings, setSettings, sync, activity, undo }:{
   users: User[]; setUsers: React.Dispatch<React.SetStateAction<User[]>>;
   projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
   guests: Guest[]; setGuests: React.Dispatch<React.SetStateAction<Guest[]>>;
+  series: Series[]; setSeries: React.Dispatch<React.SetStateAction<Series[]>>;
   currentUser: User; onLogout: ()=>void; testResults: { name: string; ok: boolean; message?: string }[];
-  settings: { openaiKey?: string; enableChat?: boolean }; setSettings: React.Dispatch<React.SetStateAction<{ openaiKey?: string; enableChat?: boolean }>>;
+  settings: Settings; setSettings: React.Dispatch<React.SetStateAction<Settings>>;
+  sync: SyncHandle; activity: ActivityEntry[]; undo: UndoHandle;
 }){
-  const [tab, setTab] = useState<"dashboard"|"projects"|"team"|"guests"|"settings">("dashboard");
+  const [tab, setTab] = useState<"dashboard"|"mywork"|"projects"|"calendar"|"series"|"team"|"guests"|"trash"|"settings">("dashboard");
   const [showChat, setShowChat] = useState(false);
+  const [toast, setToast] = useState("");
   useEffect(()=>{ if(!settings.enableChat) setShowChat(false); }, [settings.enableChat]);
+  useEffect(()=>{ if (!toast) return; const t = setTimeout(()=>setToast(""), 4000); return ()=>clearTimeout(t); }, [toast]);
+
+  const zones: ZonePrefs = {
+    viewer: isValidTimeZone(currentUser.timezone) ? currentUser.timezone! : browserTimeZone(),
+    studio: isValidTimeZone(settings.studioTimezone) ? settings.studioTimezone! : browserTimeZone(),
+  };
+  const workflow = useMemo(()=>normalizeWorkflow(settings.workflow), [settings.workflow]);
+  const liveUsers = useMemo(()=>users.filter(isLive), [users]);
+  const liveProjects = useMemo(()=>projects.filter(isLive), [projects]);
+  const liveGuests = useMemo(()=>guests.filter(isLive), [guests]);
+  const canTrash = can(currentUser, "projects.delete") || can(currentUser, "guests.delete") || can(currentUser, "team.manage");
+  const followUps = followUpsDue(liveGuests, wallTimeIn(new Date(), zones.viewer).slice(0, 10)).length;
+  const tabs = [
+    {k:"dashboard", label:"Dashboard"},
+    {k:"mywork", label:"My Work"},
+    {k:"projects", label:"Projects"},
+    {k:"calendar", label:"Calendar"},
+    {k:"series", label:"Series"},
+    {k:"team", label:"Team"},
+    {k:"guests", label: followUps ? `Guests (${followUps})` : "Guests"},
+    ...(canTrash ? [{k:"trash", label:"Trash"}] : []),
+    {k:"settings", label:"Settings"},
+  ];
+
+  const runUndo = () => { if (undo.undoLabel) { setToast(`Undid: ${undo.undoLabel}`); undo.undo(); } };
+  const runRedo = () => { if (undo.redoLabel) { setToast(`Redid: ${undo.redoLabel}`); undo.redo(); } };
+  useUndoShortcuts({ ...undo, undo: runUndo, redo: runRedo });
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
@@ -265,91 +3733,145 @@ function Shell({ users, setUsers, projects, setProjects, guests, setGuests, curr
             </div>
           </div>
           <nav className="hidden md:flex gap-2">
-            {[
-              {k:"dashboard", label:"Dashboard"},
-              {k:"projects", label:"Projects"},
-              {k:"team", label:"Team"},
-              {k:"guests", label:"Guests"},
-              {k:"settings", label:"Settings"},
-            ].map(x => (
+            {tabs.map(x => (
               <button key={x.k} onClick={()=>setTab(x.k as any)} className={classNames("px-3 py-2 rounded-lg text-sm", tab===x.k?"bg-slate-800":"hover:bg-slate-800/60")}>{x.label}</button>
             ))}
           </nav>
           <div className="flex items-center gap-3">
+            <div className="flex">
+              <button onClick={runUndo} disabled={!undo.undoLabel} title={undo.undoLabel ? `Undo: ${undo.undoLabel} (Ctrl+Z)` : "Nothing to undo"} className="px-2 py-2 rounded-l-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-40">↶</button>
+              <button onClick={runRedo} disabled={!undo.redoLabel} title={undo.redoLabel ? `Redo: ${undo.redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"} className="px-2 py-2 rounded-r-lg bg-slate-800 hover:bg-slate-700 text-sm border-l border-slate-700 disabled:opacity-40">↷</button>
+            </div>
+            <SyncBadge sync={sync} onOpen={()=>setTab("settings")} />
             {settings.enableChat && (
               <button onClick={()=>setShowChat(v=>!v)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Research</button>
             )}
-            <span className="text-sm text-slate-300">{currentUser.name} <span className="text-slate-500">({currentUser.role})</span></span>
+            <span className="text-sm text-slate-300">{currentUser.name} <span className="text-slate-500">({ROLE_LABELS[currentUser.role]})</span></span>
             <button onClick={onLogout} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Logout</button>
           </div>
         </div>
         <div className="md:hidden px-4 pb-3 flex gap-2">
-          {[
-            {k:"dashboard", label:"Dashboard"},
-            {k:"projects", label:"Projects"},
-            {k:"team", label:"Team"},
-            {k:"guests", label:"Guests"},
-            {k:"settings", label:"Settings"},
-          ].map(x => (
+          {tabs.map(x => (
             <button key={x.k} onClick={()=>setTab(x.k as any)} className={classNames("px-3 py-2 rounded-lg text-sm flex-1", tab===x.k?"bg-slate-800":"hover:bg-slate-800/60")}>{x.label}</button>
           ))}
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6">
-        {tab === "dashboard" && <Dashboard projects={projects} guests={guests} />}
-        {tab === "projects" && (<ProjectsPage projects={projects} setProjects={setProjects} guests={guests} />)}
-        {tab === "team" && (<TeamPage users={users} setUsers={setUsers} currentUser={currentUser} />)}
-        {tab === "guests" && (<GuestsPage guests={guests} setGuests={setGuests} />)}
-        {tab === "settings" && <SettingsPage testResults={testResults} settings={settings} setSettings={setSettings} />}
+        <MigrationNotice />
+        {tab === "dashboard" && <Dashboard projects={liveProjects} guests={liveGuests} users={users} activity={activity} zones={zones} workflow={workflow} />}
+        {tab === "mywork" && (<MyWorkPage projects={liveProjects} setProjects={setProjects} guests={liveGuests} users={liveUsers} currentUser={currentUser} activity={activity} zones={zones} workflow={workflow} seriesList={series} />)}
+        {tab === "projects" && (<ProjectsPage projects={liveProjects} setProjects={setProjects} guests={liveGuests} users={liveUsers} currentUser={currentUser} activity={activity} zones={zones} workflow={workflow} seriesList={series}
+          wipLimits={settings.wipLimits} onWipLimitsChange={wipLimits=>setSettings(prev=>({...prev, wipLimits}))} />)}
+        {tab === "calendar" && (<CalendarPage projects={liveProjects} setProjects={setProjects} guests={liveGuests} users={liveUsers} currentUser={currentUser} activity={activity} zones={zones} workflow={workflow} seriesList={series} />)}
+        {tab === "team" && (<TeamPage users={liveUsers} setUsers={setUsers} currentUser={currentUser} />)}
+        {tab === "series" && (<SeriesPage seriesList={series} setSeriesList={setSeries} projects={projects} setProjects={setProjects} guests={liveGuests} users={liveUsers} currentUser={currentUser} workflow={workflow} />)}
+        {tab === "guests" && (<GuestsPage guests={liveGuests} setGuests={setGuests} projects={liveProjects} setProjects={setProjects} users={liveUsers} currentUser={currentUser} zones={zones}
+          notDupes={settings.notDuplicateGuests} onNotDupesChange={notDuplicateGuests=>setSettings(prev=>({...prev, notDuplicateGuests}))} />)}
+        {tab === "trash" && canTrash && (<TrashPage users={users} setUsers={setUsers} projects={projects} setProjects={setProjects} guests={guests} setGuests={setGuests} currentUser={currentUser} />)}
+        {tab === "settings" && <SettingsPage testResults={testResults} settings={settings} setSettings={setSettings} users={users} setUsers={setUsers} projects={projects} setProjects={setProjects} guests={guests} setGuests={setGuests} series={series} setSeries={setSeries} sync={sync} currentUser={currentUser} />}
       </main>
 
       {settings.enableChat && showChat && <ResearchChat onClose={()=>setShowChat(false)} openaiKey={settings.openaiKey} />}
+      {toast && <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-xl bg-slate-800 border border-slate-700 text-sm shadow-xl">{toast}</div>}
     </div>
   );
 }
 
-function Stat({label, value}:{label:string; value:string}){
+function MigrationNotice(){
+  const [report, setReport] = useState(() => load<MigrationReport | null>(LS_KEYS.migrationReport, null));
+  if (!report || report.seen) return null;
+  const dismiss = () => { const seen = { ...report, seen: true }; save(LS_KEYS.migrationReport, seen); setReport(seen); };
   return (
-    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+    <div className="mb-6 p-4 rounded-2xl bg-amber-900/20 border border-amber-800/60 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="font-semibold text-amber-200">Your data was upgraded to the latest format</div>
+        <button onClick={dismiss} className="px-3 py-1 rounded-lg bg-slate-800 hover:bg-slate-700">Dismiss</button>
+      </div>
+      <div className="text-xs text-slate-400 mt-1">{new Date(report.ranAt).toLocaleString()}</div>
+      <ul className="mt-2 grid gap-2">
+        {report.entries.map((e, i)=> (
+          <li key={i}>
+            <div className="text-amber-100">{e.step}</div>
+            {e.details.map((d, j)=> <div key={j} className="text-xs text-slate-300">• {d}</div>)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SyncBadge({ sync, onOpen }:{ sync: SyncHandle; onOpen: ()=>void }){
+  if (sync.status === "off") return null;
+  const conflicts = sync.conflicts.length;
+  const [label, tone] =
+    conflicts ? [`${conflicts} conflict${conflicts===1?"":"s"}`, "bg-amber-500"] :
+    sync.status === "syncing" ? ["Syncing…", "bg-blue-400 animate-pulse"] :
+    sync.status === "offline" ? [`Offline${sync.pending ? ` · ${sync.pending} pending` : ""}`, "bg-slate-500"] :
+    sync.status === "error" ? ["Sync error", "bg-red-500"] :
+    sync.pending ? [`${sync.pending} pending`, "bg-blue-400"] : ["Synced", "bg-emerald-500"];
+  const title = sync.error || (sync.lastSyncedAt ? `Last synced ${new Date(sync.lastSyncedAt).toLocaleString()}` : "Not synced yet");
+  return (
+    <button onClick={onOpen} title={title} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs inline-flex items-center gap-2">
+      <span className={classNames("w-2 h-2 rounded-full", tone)} />{label}
+    </button>
+  );
+}
+
+function Stat({label, value, alert}:{label:string; value:string; alert?: boolean}){
+  return (
+    <div className={classNames("p-4 rounded-2xl bg-slate-900 border", alert ? "border-red-800 text-red-300" : "border-slate-800")}>
       <div className="text-xs text-slate-400">{label}</div>
       <div className="text-2xl font-semibold mt-1">{value}</div>
     </div>
   )
 }
 
-function Dashboard({ projects, guests }:{ projects: Project[]; guests: Guest[] }){
-  const active = projects.filter(p=>p.status!=="archived");
-  const completed = projects.filter(p=>p.status==="completed");
+function Dashboard({ projects, guests, users, activity, zones, workflow }:{ projects: Project[]; guests: Guest[]; users: User[]; activity: ActivityEntry[]; zones: ZonePrefs; workflow: Workflow }){
+  const kindOf = (p: Project) => stageOf(workflow, p.status).kind;
+  const active = projects.filter(p=>kindOf(p)!=="archived");
+  const completed = projects.filter(p=>kindOf(p)==="completed");
   const avgProgress = Math.round((active.reduce((sum,p)=>sum+p.progressPct,0) / Math.max(1, active.length)));
+  const today = wallTimeIn(new Date(), zones.viewer).slice(0, 10);
+  const overdue = openWork(projects, workflow, zones.viewer).filter(w=>isOverdue(w, today));
   const next = projects
-    .filter(p=>p.status!=="archived")
+    .filter(p=>kindOf(p)!=="archived")
     .filter(p=>p.scheduledRecordAt)
-    .sort((a,b)=> (a.scheduledRecordAt||"").localeCompare(b.scheduledRecordAt||""))
+    .sort((a,b)=> compareSchedules(a.scheduledRecordAt, b.scheduledRecordAt))
     .slice(0,5);
 
   return (
     <div className="grid gap-6">
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
         <Stat label="Projects" value={String(projects.length)} />
         <Stat label="Active" value={String(active.length)} />
         <Stat label="Completed" value={String(completed.length)} />
         <Stat label="Avg Progress" value={`${isNaN(avgProgress)?0:avgProgress}%`} />
+        <Stat label="Overdue" value={String(overdue.length)} alert={overdue.length>0} />
       </div>
 
+      {overdue.length>0 && (
+        <section>
+          <h2 className="text-lg font-semibold mb-3 text-red-300">Overdue Work</h2>
+          <WorkList items={overdue.slice(0, 10)} today={today} users={users} />
+          {overdue.length>10 && <div className="text-xs text-slate-400 mt-2">…and {overdue.length-10} more.</div>}
+        </section>
+      )}
+
       <section>
         <h2 className="text-lg font-semibold mb-3">Upcoming Sessions</h2>
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-3">
           {next.length===0 && <div className="text-slate-400">No upcoming scheduled recordings yet.</div>}
           {next.map(p=> (
             <div key={p.id} className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
-              <div className="text-sm text-slate-400">{p.series} · Ep {p.episodeNumber} · {p.priority.toUpperCase()}</div>
+              <div className="text-sm text-slate-400">{p.series} · {episodeLabel(p)} · {p.priority.toUpperCase()}</div>
               <div className="font-semibold mt-1">{p.title}</div>
-              <div className="text-sm text-slate-400 mt-1">Record: {p.scheduledRecordAt?.slice(0,16).replace('T',' ') || 'TBD'}</div>
+              {p.participants.length>0 && <div className="text-sm text-slate-300 mt-1">with {participantNames(p, guests)}</div>}
+              <ScheduleTimes label="Record" at={p.scheduledRecordAt} zones={zones} guests={projectGuests(p, guests).map(x=>x.guest)} className="text-sm text-slate-400 mt-1" />
               <ProgressBar pct={p.progressPct} />
               <div className="mt-3 flex gap-2">
-                {p.scheduledRecordAt && <IcsButton label="Add Record to Calendar" p={p} kind="record" />}
-                {p.scheduledPublishAt && <IcsButton label="Add Publish to Calendar" p={p} kind="publish" />}
+                {p.scheduledRecordAt && <IcsButton label="Add Record to Calendar" p={p} kind="record" guests={guests} workflow={workflow} />}
+                {p.scheduledPublishAt && <IcsButton label="Add Publish to Calendar" p={p} kind="publish" guests={guests} workflow={workflow} />}
               </div>
             </div>
           ))}
@@ -361,13 +3883,64 @@ function Dashboard({ projects, guests }:{ projects: Project[]; guests: Guest[] }
         <div className="flex gap-2 flex-wrap">
           {guests.slice(0,12).map(g=> (
             <div key={g.id} className="px-3 py-2 rounded-full bg-slate-900 border border-slate-800 text-sm inline-flex items-center gap-2">
-              {g.photoDataUrl && <img src={g.photoDataUrl} alt="guest" className="w-5 h-5 rounded-full object-cover" />}
+              <GuestPhoto guest={g} className="w-5 h-5 rounded-full" />
               <span>{g.name}</span>
             </div>
           ))}
           {guests.length===0 && <div className="text-slate-400">No guests yet — add them in Guests tab.</div>}
         </div>
       </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Recent Activity</h2>
+        <ActivityFeed entries={activity} users={users} filterable limit={50} />
+      </section>
+    </div>
+  );
+}
+
+function ActivityFeed({ entries, users, filterable, limit }:{ entries: ActivityEntry[]; users?: User[]; filterable?: boolean; limit?: number }){
+  const [actorId, setActorId] = useState("all");
+  const [entity, setEntity] = useState<ActivityEntity|"all">("all");
+  const [open, setOpen] = useState<string|null>(null);
+  const actors = Array.from(new Map(entries.map(e => [e.actorId || e.actorName, users?.find(u=>u.id===e.actorId)?.name || e.actorName] as const)));
+  const shown = entries
+    .filter(e => actorId === "all" || (e.actorId || e.actorName) === actorId)
+    .filter(e => entity === "all" || e.entity === entity)
+    .slice().reverse().slice(0, limit);
+
+  return (
+    <div className="grid gap-2">
+      {filterable && (
+        <div className="flex gap-2 text-sm">
+          <select value={actorId} onChange={e=>setActorId(e.target.value)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="all">Everyone</option>
+            {actors.map(([k, name])=> <option key={k} value={k}>{name}</option>)}
+          </select>
+          <select value={entity} onChange={e=>setEntity(e.target.value as any)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 capitalize">
+            <option value="all">All types</option>
+            {ACTIVITY_ENTITIES.map(x=> <option key={x} value={x}>{x==="series" ? x : `${x}s`}</option>)}
+          </select>
+        </div>
+      )}
+      {shown.length===0 && <div className="text-slate-400 text-sm">No activity recorded yet.</div>}
+      {shown.map(e=> (
+        <div key={e.id} className="px-3 py-2 rounded-xl bg-slate-900 border border-slate-800 text-sm">
+          <button onClick={()=>setOpen(open===e.id?null:e.id)} className="w-full text-left flex items-center justify-between gap-3">
+            <span><b>{e.actorName}</b> {ACTIVITY_VERBS[e.action]} {e.entity} <span className="text-slate-300">{e.label}</span></span>
+            <span className="text-xs text-slate-500 shrink-0">{new Date(e.at).toLocaleString()}</span>
+          </button>
+          {open===e.id && e.changes.length>0 && (
+            <div className="mt-2 grid gap-1 text-xs">
+              {e.changes.map(c=> (
+                <div key={c.field} className="font-mono text-slate-400">
+                  {c.field}: <span className="text-red-300 line-through">{formatChangeValue(c.from)}</span> → <span className="text-emerald-300">{formatChangeValue(c.to)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
     </div>
   );
 }
@@ -380,10 +3953,71 @@ function ProgressBar({pct}:{pct:number}){
   )
 }
 
-function ProjectsPage({ projects, setProjects, guests }:{ projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>; guests: Guest[] }){
+// Assigned work, due date first; overdue rows are flagged. Pass `users` to show who owns each row.
+function WorkList({ items, today, users, onOpen, onToggle }:{
+  items: WorkItem[]; today: string; users?: User[];
+  onOpen?: (p: Project)=>void; onToggle?: (w: WorkItem, done: boolean)=>void;
+}){
+  return (
+    <div className="grid gap-2">
+      {items.map(w=> {
+        const late = isOverdue(w, today);
+        return (
+          <div key={w.key} className={classNames("flex items-center gap-3 p-3 rounded-xl bg-slate-900 border text-sm", late ? "border-red-800 bg-red-900/10" : "border-slate-800")}>
+            {w.item && onToggle
+              ? <input type="checkbox" checked={w.item.done} onChange={e=>onToggle(w, e.target.checked)} aria-label={`Mark “${w.label}” done`} className="accent-blue-500" />
+              : <span className="w-4 text-center text-slate-500" title={w.item ? "Checklist item" : "Episode"}>{w.item ? "☐" : "🎙"}</span>}
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">{w.label}</div>
+              <div className="text-xs text-slate-400 truncate">{w.project.series} · {episodeLabel(w.project)}{w.item ? ` · ${w.project.title || "Untitled"}` : ""}</div>
+            </div>
+            {users && <span className="text-xs text-slate-400">{users.find(u=>u.id===w.assigneeId)?.name || "Former member"}</span>}
+            <span className={classNames("text-xs whitespace-nowrap", late ? "text-red-300 font-semibold" : "text-slate-400")}>{w.due ? `${late ? "Overdue · " : "Due "}${w.due}` : "No due date"}</span>
+            {onOpen && <button onClick={()=>onOpen(w.project)} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Open</button>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function MyWorkPage({ projects, setProjects, guests, users, currentUser, activity, zones, workflow, seriesList }:{
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>; guests: Guest[]; users: User[]; currentUser: User; activity: ActivityEntry[]; zones: ZonePrefs;
+  workflow: Workflow; seriesList: Series[];
+}){
+  const [draft, setDraft] = useState<Project | null>(null);
+  const canEdit = can(currentUser, "projects.edit");
+  const today = wallTimeIn(new Date(), zones.viewer).slice(0, 10);
+  const mine = useMemo(()=>openWork(projects, workflow, zones.viewer, currentUser.id), [projects, workflow, zones.viewer, currentUser.id]);
+  const overdue = mine.filter(w=>isOverdue(w, today)).length;
+  const toggle = (w: WorkItem, done: boolean) => setProjects(prev => prev.map(p=>p.id===w.project.id ? setChecklistItemDone(p, w.item!.id, done) : p));
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold">My Work</h2>
+        <div className="text-sm text-slate-400">{mine.length} open{overdue>0 && <> · <span className="text-red-300">{overdue} overdue</span></>}</div>
+      </div>
+      {mine.length===0
+        ? <div className="text-slate-400">Nothing assigned to you right now.</div>
+        : <WorkList items={mine} today={today} onOpen={canEdit ? p=>setDraft({...p}) : undefined} onToggle={canEdit ? toggle : undefined} />}
+      {draft && (
+        <ProjectEditor draft={draft} setDraft={setDraft} projects={projects} setProjects={setProjects} guests={guests} users={users} activity={activity} zones={zones} workflow={workflow} seriesList={seriesList} canEdit={canEdit} onClose={()=>setDraft(null)} />
+      )}
+    </div>
+  );
+}
+
+function ProjectsPage({ projects, setProjects, guests, users, currentUser, activity, zones, workflow, seriesList, wipLimits, onWipLimitsChange }:{
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>; guests: Guest[]; users: User[]; currentUser: User; activity: ActivityEntry[]; zones: ZonePrefs;
+  workflow: Workflow; seriesList: Series[];
+  wipLimits?: Settings["wipLimits"]; onWipLimitsChange?: (limits: Settings["wipLimits"])=>void;
+}){
+  const [view, setView] = useState<"grid"|"board">("grid");
   const [query, setQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<Status|"all">("all");
   const [priorityFilter, setPriorityFilter] = useState<Priority|"all">("all");
+  const [assigneeFilter, setAssigneeFilter] = useState<string>("all"); // "all", "none" or a user id
   const [sortKey, setSortKey] = useState<"updatedAt"|"progress"|"episode">("updatedAt");
   const [showForm, setShowForm] = useState(false);
   const [draft, setDraft] = useState<Project | null>(null);
@@ -392,6 +4026,7 @@ function ProjectsPage({ projects, setProjects, guests }:{ projects: Project[]; s
     let list = [...projects];
     if (statusFilter!=="all") list = list.filter(p=>p.status===statusFilter);
     if (priorityFilter!=="all") list = list.filter(p=>p.priority===priorityFilter);
+    if (assigneeFilter!=="all") list = list.filter(p=>(p.assigneeId || "none")===assigneeFilter);
     if (query.trim()) {
       const q = query.toLowerCase();
       list = list.filter(p => p.title.toLowerCase().includes(q) || (p.description||"").toLowerCase().includes(q) || p.tags.join(" ").toLowerCase().includes(q) || p.series.toLowerCase().includes(q));
@@ -400,52 +4035,51 @@ function ProjectsPage({ projects, setProjects, guests }:{ projects: Project[]; s
     if (sortKey === "progress") list.sort((a,b)=>b.progressPct - a.progressPct);
     if (sortKey === "episode")  list.sort((a,b)=>{
       if (a.series !== b.series) return a.series.localeCompare(b.series);
-      return a.episodeNumber - b.episodeNumber;
+      return (a.season || 0) - (b.season || 0) || a.episodeNumber - b.episodeNumber;
     });
     return list;
-  }, [projects, statusFilter, priorityFilter, query, sortKey]);
+  }, [projects, statusFilter, priorityFilter, assigneeFilter, query, sortKey]);
 
-  const allSeries = Array.from(new Set(projects.map(p=>p.series))).sort();
+  const canEdit = can(currentUser, "projects.edit");
+  const canDelete = can(currentUser, "projects.delete");
+  const canBulk = can(currentUser, "projects.bulk");
 
   const openNew = () => {
-    const defaultSeries = allSeries[0] || "Main";
-    const ep = nextEpisodeNumber(defaultSeries);
+    if (!canEdit) return;
+    const defaultSeries = activeSeries(seriesList)[0]?.name || DEFAULT_SERIES;
+    const season = latestSeason(projects, defaultSeries);
     setDraft({
-      id: uid("prj"), title: "", series: defaultSeries, episodeNumber: ep, description: "",
+      id: uid("prj"), title: "", series: defaultSeries, season, episodeNumber: peekEpisodeNumber(defaultSeries, season), description: "",
       beforeNotes: "", afterNotes: "",
-      status: "draft", priority: "medium", tags: [],
-      scheduledRecordAt: "", scheduledPublishAt: "", durationEstimateMin: undefined,
-      guestId: undefined,
-      checklist: { research:false, questions:false, equipment:false, thumbnails:false },
+      status: workflow.stages[0].id, priority: "medium", tags: [],
+      scheduledRecordAt: undefined, scheduledPublishAt: undefined, durationEstimateMin: seriesNamed(seriesList, defaultSeries)?.defaultDurationMin,
+      participants: [],
+      checklist: newChecklist(checklistTemplateFor(seriesList, defaultSeries)),
       progressPct: 0, createdAt: now(), updatedAt: now(),
     });
     setShowForm(true);
   };
 
-  const openEdit = (p: Project) => { setDraft({...p}); setShowForm(true); };
+  const openEdit = (p: Project) => { if (!canEdit) return; setDraft({...p}); setShowForm(true); };
+  const duplicates = useMemo(()=>duplicateEpisodes(projects), [projects]);
+  const [renumber, setRenumber] = useState<{ series: string; season?: number } | null>(null);
 
-  const saveDraft = () => {
-    if (!draft) return;
-    const copy = {...draft};
-    copy.progressPct = calcProgress(copy.checklist);
-    copy.updatedAt = now();
-    setProjects(prev => prev.some(p=>p.id===copy.id) ? prev.map(p=>p.id===copy.id?copy:p) : [copy, ...prev]);
-    setShowForm(false); setDraft(null);
-  };
 
-  const remove = (id: string) => { if (confirm("Delete this project?")) setProjects(prev => prev.filter(p=>p.id!==id)); };
+  const remove = (id: string) => {
+    if (!canDelete) return alert("You don't have permission to delete projects.");
+    setProjects(prev => trashRecords(prev, [id], currentUser.id));
+  };
 
-  const bulk = (action: "complete"|"archive"|"delete") => {
+  // `action` is "delete" or the id of the stage to move the selection to.
+  const bulk = (action: "delete" | Status) => {
+    if (!canBulk) return alert("You don't have permission to run bulk actions.");
     const selected = document.querySelectorAll<HTMLInputElement>('input[name="sel-project"]:checked');
     const ids = Array.from(selected).map(x=>x.value);
     if (ids.length===0) return alert("Select at least one project.");
-    if (action === "delete" && !confirm(`Delete ${ids.length} projects?`)) return;
-    setProjects(prev => prev.map(p=>{
-      if (!ids.includes(p.id)) return p;
-      if (action === "complete") return {...p, status:"completed", updatedAt: now()};
-      if (action === "archive")  return {...p, status:"archived",  updatedAt: now()};
-      return p;
-    }).filter(p=>action!=="delete" || !ids.includes(p.id)));
+    if (action === "delete") return setProjects(prev => trashRecords(prev, ids, currentUser.id));
+    const { skipped } = bulkMove(projects, ids, action, workflow);
+    setProjects(prev => bulkMove(prev, ids, action, workflow).next);
+    if (skipped.length) alert(`${skipped.length} project${skipped.length===1?"":"s"} not moved:\n${skipped.map(x=>`• ${x.project.title || "Untitled"}: ${x.reason}`).join("\n")}`);
   };
 
   return (
@@ -459,7 +4093,7 @@ function ProjectsPage({ projects, setProjects, guests }:{ projects: Project[]; s
           <label className="text-xs text-slate-400">Status</label>
           <select value={statusFilter} onChange={e=>setStatusFilter(e.target.value as any)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
             <option value="all">All</option>
-            {STATUSES.map(s=> <option key={s} value={s}>{s}</option>)}
+            {workflow.stages.map(s=> <option key={s.id} value={s.id}>{s.label}</option>)}
           </select>
         </div>
         <div>
@@ -470,114 +4104,779 @@ function ProjectsPage({ projects, setProjects, guests }:{ projects: Project[]; s
           </select>
         </div>
         <div>
+          <label className="text-xs text-slate-400">Assignee</label>
+          <select value={assigneeFilter} onChange={e=>setAssigneeFilter(e.target.value)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="all">Anyone</option>
+            <option value={currentUser.id}>Me</option>
+            <option value="none">Unassigned</option>
+            {users.filter(u=>u.id!==currentUser.id).map(u=> <option key={u.id} value={u.id}>{u.name}</option>)}
+          </select>
+        </div>
+        {view==="grid" && <div>
           <label className="text-xs text-slate-400">Sort by</label>
           <select value={sortKey} onChange={e=>setSortKey(e.target.value as any)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
             <option value="updatedAt">Last Updated</option>
             <option value="progress">Progress</option>
             <option value="episode">Series · Episode #</option>
           </select>
-        </div>
+        </div>}
         <div className="flex gap-2">
-          <button onClick={openNew} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">New Project</button>
-          <div className="relative group">
+          <div className="flex gap-1 p-1 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+            {(["grid","board"] as const).map(v=> (
+              <button key={v} onClick={()=>setView(v)} className={classNames("px-3 py-1 rounded-md capitalize", view===v?"bg-slate-800":"hover:bg-slate-800/60")}>{v}</button>
+            ))}
+          </div>
+          {canEdit && <button onClick={openNew} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">New Project</button>}
+          {canBulk && <button onClick={()=>setRenumber({ series: activeSeries(seriesList)[0]?.name || DEFAULT_SERIES })} className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700">Renumber…</button>}
+          {canBulk && view==="grid" && <div className="relative group">
             <button className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700">Bulk…</button>
             <div className="absolute hidden group-hover:block right-0 mt-2 w-40 rounded-xl bg-slate-900 border border-slate-800 p-1">
-              <button onClick={()=>bulk("complete")} className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-800">Mark Completed</button>
-              <button onClick={()=>bulk("archive")}  className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-800">Archive</button>
+              {workflow.stages.map(st=> <button key={st.id} onClick={()=>bulk(st.id)} className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-800">Move to {st.label}</button>)}
               <button onClick={()=>bulk("delete")}   className="w-full text-left px-3 py-2 rounded-lg hover:bg-red-900/30 text-red-300">Delete</button>
             </div>
+          </div>}
+        </div>
+      </div>
+
+      {duplicates.length>0 && (
+        <div className="p-3 rounded-2xl bg-amber-900/20 border border-amber-800 text-sm grid gap-1">
+          <div className="font-semibold text-amber-200">Duplicate episode numbers</div>
+          {duplicates.map(group=> (
+            <div key={group[0].id} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{group[0].series} {episodeLabel(group[0])}</span>
+              <span className="text-slate-400">{group.map(p=>p.title || "Untitled").join(" · ")}</span>
+              {canBulk && <button onClick={()=>setRenumber({ series: group[0].series, season: group[0].season })} className="ml-auto px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Renumber…</button>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {view==="board" ? (
+        <ProjectBoard visible={filtered} projects={projects} setProjects={setProjects} guests={guests} workflow={workflow} canEdit={canEdit} onOpen={openEdit}
+          limits={wipLimits} onLimitsChange={can(currentUser, "settings.workspace") ? onWipLimitsChange : undefined} />
+      ) : (
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {filtered.map(p=> <ProjectCard key={p.id} p={p} guests={guests} assignee={users.find(u=>u.id===p.assigneeId)} zones={zones} workflow={workflow} onEdit={canEdit ? ()=>openEdit(p) : undefined} onDelete={canDelete ? ()=>remove(p.id) : undefined} selectable={canBulk} />)}
+        {filtered.length===0 && (<div className="text-slate-400">No projects found. Create one to get started.</div>)}
+      </div>
+      )}
+
+      {showForm && draft && (
+        <ProjectEditor draft={draft} setDraft={setDraft} projects={projects} setProjects={setProjects} guests={guests} users={users} activity={activity} zones={zones} workflow={workflow} seriesList={seriesList} canEdit={canEdit} onClose={()=>{setShowForm(false); setDraft(null);}} />
+      )}
+      {renumber && (
+        <RenumberDialog initial={renumber} projects={projects} setProjects={setProjects} seriesList={seriesList} onClose={()=>setRenumber(null)} />
+      )}
+    </div>
+  );
+}
+
+function RenumberDialog({ initial, projects, setProjects, seriesList, onClose }:{
+  initial: { series: string; season?: number }; projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  seriesList: Series[]; onClose: ()=>void;
+}){
+  const [series, setSeries] = useState(initial.series);
+  const [season, setSeason] = useState(initial.season || 0);
+  const [order, setOrder] = useState<RenumberOrder>("number");
+  const [start, setStart] = useState(1);
+  const seasons = seasonsOf(projects, series);
+  const allSeries = [...new Set([series, ...seriesList.map(x=>x.name)])].sort();
+  const changes = useMemo(()=>planRenumber(projects, series, season || undefined, order, start), [projects, series, season, order, start]);
+  const count = projects.filter(p=>isLive(p) && isNumbered(p) && p.series===series && (p.season || 0)===season).length;
+
+  const apply = () => {
+    setProjects(prev=>applyRenumber(prev, changes));
+    // The counter only ever moves up: numbers the renumber frees may already be out in a feed or a
+    // trashed episode, so they are not handed out again.
+    const map = load<Record<string, number>>(LS_KEYS.seqMap, {});
+    const key = seqKey(series, season || undefined);
+    save(LS_KEYS.seqMap, { ...map, [key]: Math.max(map[key] || 0, count ? start + count - 1 : 0) });
+    onClose();
+  };
+
+  return (
+    <Modal onClose={onClose} title="Renumber episodes">
+      <div className="grid gap-4">
+        <div className="grid md:grid-cols-4 gap-3 text-sm">
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Series</label>
+            <select value={series} onChange={e=>{ setSeries(e.target.value); setSeason(seasonsOf(projects, e.target.value)[0] || 0); }} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+              {allSeries.map(x=> <option key={x} value={x}>{x}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Season</label>
+            <select value={season} onChange={e=>setSeason(Number(e.target.value))} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+              {[...new Set([season, ...seasons])].map(n=> <option key={n} value={n}>{n ? `Season ${n}` : "No season"}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Order by</label>
+            <select value={order} onChange={e=>setOrder(e.target.value as RenumberOrder)} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+              <option value="number">Current number</option>
+              <option value="recorded">Record date</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Start at</label>
+            <input type="number" min={1} value={start} onChange={e=>setStart(Math.max(1, Math.floor(Number(e.target.value)) || 1))} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+          </div>
+        </div>
+        <div className="grid gap-1 text-sm max-h-80 overflow-auto">
+          {changes.map(c=> (
+            <div key={c.project.id} className="flex gap-3 px-2 py-1 rounded-lg bg-slate-900 border border-slate-800">
+              <span className="font-mono w-28"><span className="text-red-300 line-through">{episodeLabel({ ...c.project, episodeNumber: c.from })}</span> → <span className="text-emerald-300">{episodeLabel({ ...c.project, episodeNumber: c.to })}</span></span>
+              <span className="truncate">{c.project.title || "Untitled"}</span>
+            </div>
+          ))}
+          {changes.length===0 && <div className="text-slate-400">{count ? "These episodes are already numbered consecutively." : "No numbered episodes here."}</div>}
+        </div>
+        <div className="text-xs text-slate-400">Bonus and trailer episodes aren't numbered and are left alone.</div>
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Cancel</button>
+          <button onClick={apply} disabled={changes.length===0} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold disabled:opacity-50">Renumber {changes.length} episode{changes.length===1?"":"s"}</button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+// Status columns with drag-and-drop. Keyboard: focus a card, ←/→ moves it to the previous/next
+// column, ↑/↓ reorders it, Enter opens it.
+function ProjectBoard({ visible, projects, setProjects, guests, workflow, canEdit, onOpen, limits, onLimitsChange }:{
+  visible: Project[]; projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>; guests: Guest[]; workflow: Workflow;
+  canEdit: boolean; onOpen: (p: Project)=>void;
+  limits?: Settings["wipLimits"]; onLimitsChange?: (limits: Settings["wipLimits"])=>void;
+}){
+  const [dragId, setDragId] = useState<string|null>(null);
+  const [announce, setAnnounce] = useState("");
+  const [focusId, setFocusId] = useState<string|null>(null);
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+  useEffect(()=>{ if (focusId) cardRefs.current.get(focusId)?.focus(); }, [focusId, projects]);
+
+  const shown = new Set(visible.map(p=>p.id));
+  const columns = workflow.stages.map(stage=>({ stage, status: stage.id, cards: boardColumn(projects, stage.id).filter(p=>shown.has(p.id)) }));
+
+  const move = (id: string, status: Status, beforeId?: string) => {
+    if (!canEdit) return;
+    const { error } = moveOnBoard(projects, id, status, beforeId, limits, workflow);
+    if (error) return setAnnounce(error);
+    setProjects(prev => moveOnBoard(prev, id, status, beforeId, limits, workflow).next);
+    const card = projects.find(p=>p.id===id);
+    setAnnounce(`Moved “${card?.title || "Untitled"}” to ${stageOf(workflow, status).label}.`);
+    setFocusId(id);
+  };
+
+  const onKey = (e: React.KeyboardEvent, p: Project, col: Project[]) => {
+    const i = col.findIndex(x=>x.id===p.id);
+    const ids = workflow.stages.map(st=>st.id);
+    const s = ids.indexOf(p.status);
+    if (e.key === "Enter") return onOpen(p);
+    if (e.key === "ArrowLeft" && s > 0) move(p.id, ids[s-1]);
+    else if (e.key === "ArrowRight" && s < ids.length-1) move(p.id, ids[s+1]);
+    else if (e.key === "ArrowUp" && i > 0) move(p.id, p.status, col[i-1].id);
+    else if (e.key === "ArrowDown" && i < col.length-1) move(p.id, p.status, col[i+2]?.id);
+    else return;
+    e.preventDefault();
+  };
+  const setLimit = (status: Status, value: string) => {
+    const n = Math.max(0, Math.floor(Number(value)));
+    onLimitsChange?.({ ...limits, [status]: n || undefined });
+  };
+
+  return (
+    <div className="grid gap-2">
+      <div aria-live="polite" className="text-xs text-slate-400 min-h-[1rem]">{announce}</div>
+      <div className="grid md:grid-cols-2 xl:grid-cols-4 gap-3">
+        {columns.map(({ stage, status, cards })=> {
+          const total = boardColumn(projects, status).length;
+          const limit = limits?.[status];
+          return (
+            <section key={status} aria-label={`${stage.label} column`}
+              onDragOver={e=>{ if (canEdit && dragId) e.preventDefault(); }}
+              onDrop={e=>{ e.preventDefault(); if (dragId) move(dragId, status); setDragId(null); }}
+              className="p-2 rounded-2xl bg-slate-900/60 border border-slate-800 grid content-start gap-2 min-h-[12rem]">
+              <div className="flex items-center justify-between px-1">
+                <span className={classNames("text-xs px-2 py-1 rounded-full font-medium", badgeColor(stage))}>{stage.label}</span>
+                <span className={classNames("text-xs flex items-center gap-1", limit && total>limit ? "text-red-300" : limit && total===limit ? "text-amber-300" : "text-slate-400")}>
+                  {total}{!onLimitsChange && limit ? ` / ${limit}` : ""}
+                  {onLimitsChange && <>
+                    <span>/</span>
+                    <input type="number" min={0} value={limit ?? ""} onChange={e=>setLimit(status, e.target.value)} placeholder="∞" aria-label={`WIP limit for ${stage.label}`} className="w-12 px-1 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-200" />
+                  </>}
+                </span>
+              </div>
+              {cards.map(p=> (
+                <div key={p.id}
+                  ref={el=>{ if (el) cardRefs.current.set(p.id, el); else cardRefs.current.delete(p.id); }}
+                  tabIndex={0}
+                  role="button"
+                  aria-label={`${p.title || "Untitled"}, ${p.series} ${episodeLabel(p)}, ${stage.label}`}
+                  draggable={canEdit}
+                  onDragStart={()=>setDragId(p.id)}
+                  onDragEnd={()=>setDragId(null)}
+                  onDragOver={e=>{ if (canEdit && dragId) e.preventDefault(); }}
+                  onDrop={e=>{ e.preventDefault(); e.stopPropagation(); if (dragId && dragId!==p.id) move(dragId, status, p.id); setDragId(null); }}
+                  onKeyDown={e=>canEdit && onKey(e, p, cards)}
+                  onClick={()=>canEdit && onOpen(p)}
+                  className={classNames("p-3 rounded-xl bg-slate-900 border border-slate-800 text-sm focus:outline-none focus:ring focus:ring-blue-600", canEdit && "cursor-grab", dragId===p.id && "opacity-50")}>
+                  <div className="text-xs text-slate-400">{p.series} · {episodeLabel(p)} · <span className="uppercase">{p.priority}</span></div>
+                  <div className="font-medium mt-1">{p.title || "Untitled"}</div>
+                  {p.participants.length>0 && <div className="text-xs text-slate-400 mt-1">with {participantNames(p, guests) || "unknown guests"}</div>}
+                  <ProgressBar pct={p.progressPct} />
+                </div>
+              ))}
+              {cards.length===0 && <div className="text-xs text-slate-500 px-1">No projects.</div>}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// The edit modal shared by the Projects list and the Calendar.
+function ProjectEditor({ draft, setDraft, projects, setProjects, guests, users, activity, zones, workflow, seriesList, canEdit, onClose }:{
+  draft: Project; setDraft: (p: Project)=>void;
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  guests: Guest[]; users: User[]; activity: ActivityEntry[]; zones: ZonePrefs;
+  workflow: Workflow; seriesList: Series[]; canEdit: boolean; onClose: ()=>void;
+}){
+  const allSeries = activeSeries(seriesList).map(x=>x.name);
+  const savedStatus = projects.find(p=>p.id===draft.id)?.status;
+  // New drafts (and drafts moved to another series) only preview the next number; it is taken on save.
+  const [autoNumber, setAutoNumber] = useState(savedStatus === undefined);
+  const editDraft = (edited: Project) => {
+    const next = edited.scheduledRecordAt?.at === draft.scheduledRecordAt?.at ? edited
+      : {...edited, checklist: fillChecklistDueDates(edited.checklist, checklistTemplateFor(seriesList, edited.series), edited.scheduledRecordAt)};
+    const numbered = isNumbered(next);
+    if (next.episodeNumber !== draft.episodeNumber) { setAutoNumber(false); return setDraft(next); }
+    if (numbered && (autoNumber || !next.episodeNumber) && (next.season !== draft.season || next.episodeType !== draft.episodeType)) {
+      setAutoNumber(true);
+      return setDraft({...next, episodeNumber: peekEpisodeNumber(next.series, next.season)});
+    }
+    setDraft(numbered ? next : {...next, episodeNumber: 0});
+  };
+  const clashes = episodeClashes(projects, draft);
+  // Files uploaded while editing; they are removed again unless the draft is saved with them.
+  const storedAudio = useRef<string[]>([]);
+  const cancel = () => { storedAudio.current.forEach(deleteBlob); storedAudio.current = []; onClose(); };
+  const saveDraft = () => {
+    if (!canEdit) return;
+    const problem = transitionProblem(workflow, draft, draft.status, savedStatus);
+    if (problem) return alert(problem);
+    const copy = {...draft};
+    if (!isNumbered(copy)) copy.episodeNumber = 0;
+    else if (autoNumber) copy.episodeNumber = peekEpisodeNumber(copy.series, copy.season);
+    const taken = episodeClashes(projects, copy);
+    if (taken.length && !confirm(`${copy.series} ${episodeLabel(copy)} is already “${taken[0].title || "Untitled"}”. Save with a duplicate number?`)) return;
+    if (isNumbered(copy)) reserveEpisodeNumber(copy.series, copy.season, copy.episodeNumber);
+    copy.progressPct = calcProgress(copy.checklist);
+    copy.updatedAt = now();
+    // Recordings the saved project drops are left to the blob sweep; only never-saved uploads go now.
+    const kept = new Set(attachmentBlobIds([copy]));
+    storedAudio.current.filter(id=>!kept.has(id)).forEach(deleteBlob);
+    storedAudio.current = [];
+    setProjects(prev => prev.some(p=>p.id===copy.id) ? prev.map(p=>p.id===copy.id?copy:p) : [copy, ...prev]);
+    onClose();
+  };
+
+  return (
+    <Modal onClose={cancel} title={draft.title?`Edit: ${draft.title}`:"New Project"}>
+      <ProjectForm draft={draft} setDraft={editDraft} guests={guests} users={users} zones={zones} workflow={workflow} savedStatus={savedStatus}
+        template={checklistTemplateFor(seriesList, draft.series)} onSave={saveDraft} onSeriesChange={(s)=>{
+        const season = latestSeason(projects, s);
+        // An untouched checklist follows the series; one with progress is kept as is.
+        const checklist = draft.checklist.some(i=>i.done) ? draft.checklist : newChecklist(checklistTemplateFor(seriesList, s), draft.scheduledRecordAt);
+        setAutoNumber(true);
+        setDraft({...draft, series: s, season, episodeNumber: isNumbered(draft) ? peekEpisodeNumber(s, season) : 0, checklist, durationEstimateMin: draft.durationEstimateMin ?? seriesNamed(seriesList, s)?.defaultDurationMin});
+      }} allSeries={allSeries} autoNumber={autoNumber} clashes={clashes} onAudioStored={id=>storedAudio.current.push(id)} />
+      {projects.some(p=>p.id===draft.id) && (
+        <details className="mt-4">
+          <summary className="cursor-pointer text-sm text-slate-300">History</summary>
+          <div className="mt-2 max-h-64 overflow-auto"><ActivityFeed entries={activity.filter(e=>e.entity==="project" && e.entityId===draft.id)} /></div>
+        </details>
+      )}
+    </Modal>
+  );
+}
+
+function CalendarPage({ projects, setProjects, guests, users, currentUser, activity, zones, workflow, seriesList }:{
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>; guests: Guest[]; users: User[]; currentUser: User; activity: ActivityEntry[]; zones: ZonePrefs;
+  workflow: Workflow; seriesList: Series[];
+}){
+  const today = wallTimeIn(new Date(), zones.viewer).slice(0, 10);
+  const [view, setView] = useState<"month"|"week">("month");
+  const [anchor, setAnchor] = useState(today);
+  const [draft, setDraft] = useState<Project | null>(null);
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const [exportSeries, setExportSeries] = useState("");
+  const [importEvents, setImportEvents] = useState<IcsEvent[] | null>(null);
+  const importRef = useRef<HTMLInputElement|null>(null);
+  const canEdit = can(currentUser, "projects.edit");
+
+  const events = useMemo(()=>calendarEvents(projects, zones.viewer), [projects, zones.viewer]);
+  const byDay = useMemo(()=>{
+    const m = new Map<string, CalendarEvent[]>();
+    events.forEach(e=>m.set(e.day, [...(m.get(e.day) || []), e]));
+    return m;
+  }, [events]);
+  const allSeries = Array.from(new Set(events.map(e=>e.project.series))).sort();
+
+  const days = view === "month" ? monthGrid(anchor) : weekGrid(anchor);
+  const title = view === "month"
+    ? parseDay(anchor).toLocaleDateString(undefined, { month: "long", year: "numeric" })
+    : `${parseDay(days[0]).toLocaleDateString()} – ${parseDay(days[6]).toLocaleDateString()}`;
+  const move = (n: number) => {
+    if (view === "week") return setAnchor(addDays(anchor, 7 * n));
+    const d = parseDay(anchor.slice(0, 8) + "01"); d.setMonth(d.getMonth() + n); setAnchor(dayKey(d));
+  };
+
+  const drop = (day: string, data: string) => {
+    const [id, kind, from] = data.split("|");
+    const field = SCHEDULE_FIELDS[kind as ScheduleKind];
+    const days = from ? dayDiff(from, day) : 0;
+    if (!canEdit || !field || !days) return;
+    setProjects(prev => prev.map((p): Project => {
+      const at = p[field];
+      return p.id === id && at ? { ...p, [field]: rescheduleBy(at, days), updatedAt: now() } : p;
+    }));
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-wrap gap-2 items-center justify-between">
+        <div className="flex items-center gap-2">
+          <button onClick={()=>move(-1)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">‹</button>
+          <button onClick={()=>setAnchor(today)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Today</button>
+          <button onClick={()=>move(1)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">›</button>
+          <h2 className="text-lg font-semibold ml-2">{title}</h2>
+        </div>
+        <div className="flex flex-wrap gap-2 items-center">
+          <select value={exportSeries} onChange={e=>setExportSeries(e.target.value)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+            <option value="">All series</option>
+            {allSeries.map(x=> <option key={x} value={x}>{x}</option>)}
+          </select>
+          <button onClick={()=>exportIcs(projects, guests, exportSeries || undefined, workflow)} disabled={events.length===0} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50">Export .ics</button>
+          {canEdit && <>
+            <button onClick={()=>importRef.current?.click()} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Import .ics</button>
+            <input ref={importRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={async e=>{
+              const file = e.target.files?.[0]; e.target.value = "";
+              if (!file) return;
+              const parsed = parseIcs(await file.text(), zones.studio);
+              if (parsed.length===0) return alert("No events found in that file.");
+              setImportEvents(parsed);
+            }} />
+          </>}
+          <div className="flex gap-1 p-1 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+            {(["month","week"] as const).map(v=> (
+              <button key={v} onClick={()=>setView(v)} className={classNames("px-3 py-1 rounded-md capitalize", view===v?"bg-slate-800":"hover:bg-slate-800/60")}>{v}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-slate-400">
+        {allSeries.map(x=> <span key={x} className="flex items-center gap-1"><span className={classNames("size-3 rounded", seriesColor(x))} />{x}</span>)}
+        <span>🎙 record · 📣 publish · dashed = draft · ✓ = completed · faded = archived</span>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map(d=> <div key={d} className="text-xs text-slate-500 px-1">{d}</div>)}
+        {days.map(day=> (
+          <div key={day}
+            onDragOver={e=>{ if (canEdit) { e.preventDefault(); setDragOver(day); } }}
+            onDragLeave={()=>setDragOver(cur=>cur===day?null:cur)}
+            onDrop={e=>{ e.preventDefault(); setDragOver(null); drop(day, e.dataTransfer.getData("text/plain")); }}
+            className={classNames("p-1.5 rounded-lg bg-slate-900 border border-slate-800 grid content-start gap-1", view==="month" ? "min-h-[6rem]" : "min-h-[16rem]", view==="month" && day.slice(0,7)!==anchor.slice(0,7) && "opacity-50", dragOver===day && "ring ring-blue-600")}>
+            <div className={classNames("text-xs", day===today ? "text-blue-300 font-semibold" : "text-slate-400")}>{Number(day.slice(8))}</div>
+            {(byDay.get(day) || []).map(ev=> (
+              <div key={`${ev.project.id}-${ev.kind}`}
+                draggable={canEdit}
+                onDragStart={e=>e.dataTransfer.setData("text/plain", `${ev.project.id}|${ev.kind}|${ev.day}`)}
+                onClick={()=>{ if (canEdit) setDraft({...ev.project}); }}
+                title={`${ev.project.series} ${episodeLabel(ev.project)}: ${ev.project.title} — ${ev.kind} ${formatInZone(ev.at.at, ev.at.tz)} (${ev.project.status})`}
+                className={classNames("px-1.5 py-0.5 rounded text-[11px] truncate", seriesColor(ev.project.series), eventStatusClass(stageOf(workflow, ev.project.status).kind), canEdit && "cursor-pointer")}>
+                {ev.kind==="record" ? "🎙" : "📣"} {ev.time} {stageOf(workflow, ev.project.status).kind==="completed" && "✓ "}{ev.project.title || "Untitled"}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <ProjectEditor draft={draft} setDraft={setDraft} projects={projects} setProjects={setProjects} guests={guests} users={users} activity={activity} zones={zones} workflow={workflow} seriesList={seriesList} canEdit={canEdit} onClose={()=>setDraft(null)} />
+      )}
+      {importEvents && (
+        <IcsImportDialog events={importEvents} projects={projects} setProjects={setProjects} zones={zones} workflow={workflow} seriesList={seriesList} onClose={()=>setImportEvents(null)} />
+      )}
+    </div>
+  );
+}
+
+function IcsImportRow({ checked, onToggle, children }:{ checked: boolean; onToggle: ()=>void; children: React.ReactNode }){
+  return (
+    <label className="flex items-start gap-2 p-2 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+      <input type="checkbox" checked={checked} onChange={onToggle} className="mt-1 accent-blue-500" />
+      <div className="min-w-0">{children}</div>
+    </label>
+  );
+}
+
+function IcsImportDialog({ events, projects, setProjects, zones, workflow, seriesList, onClose }:{
+  events: IcsEvent[]; projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>; zones: ZonePrefs;
+  workflow: Workflow; seriesList: Series[]; onClose: ()=>void;
+}){
+  const allSeries = activeSeries(seriesList).map(x=>x.name);
+  const [series, setSeries] = useState(allSeries[0] || DEFAULT_SERIES);
+  const plan = useMemo(()=>{
+    const target = series.trim() || DEFAULT_SERIES;
+    return planIcsImport(events, projects, target, workflow.stages[0].id, checklistTemplateFor(seriesList, target));
+  }, [events, projects, series, workflow, seriesList]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const toggle = (key: string) => setExcluded(prev => { const next = new Set(prev); next.has(key) ? next.delete(key) : next.add(key); return next; });
+  const selected = new Set([...plan.updates, ...plan.creates].map(x=>x.key).filter(k=>!excluded.has(k)));
+
+  const apply = () => {
+    const numbers = new Map(plan.creates.filter(c=>selected.has(c.key)).map(c=>[c.key, nextEpisodeNumber(c.project.series, c.project.season)] as const));
+    setProjects(prev => applyIcsImport(prev, plan, selected, numbers));
+    onClose();
+  };
+
+  return (
+    <Modal onClose={onClose} title={`Import ${events.length} calendar event${events.length===1?"":"s"}`}>
+      <div className="grid gap-4 max-h-[70vh] overflow-auto">
+        <div>
+          <label className="text-xs text-slate-400">Series for new projects</label>
+          <select value={series} onChange={e=>setSeries(e.target.value)} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            {[...new Set([series, ...allSeries])].map(x=> <option key={x} value={x}>{x}</option>)}
+          </select>
+        </div>
+        {plan.updates.length>0 && <section className="grid gap-2">
+          <div className="text-sm font-semibold">Update {plan.updates.length} project{plan.updates.length===1?"":"s"}</div>
+          {plan.updates.map(u=> (
+            <IcsImportRow key={u.key} checked={!excluded.has(u.key)} onToggle={()=>toggle(u.key)}>
+              <div className="font-medium">{activityLabel("project", u.before)}</div>
+              {fieldChanges(u.before as Record<string, unknown>, u.after as Record<string, unknown>).map(c=> (
+                <div key={c.field} className="font-mono text-xs text-slate-400">{c.field}: <span className="text-red-300 line-through">{formatChangeValue(c.from)}</span> → <span className="text-emerald-300">{formatChangeValue(c.to)}</span></div>
+              ))}
+            </IcsImportRow>
+          ))}
+        </section>}
+        {plan.creates.length>0 && <section className="grid gap-2">
+          <div className="text-sm font-semibold">Create {plan.creates.length} draft project{plan.creates.length===1?"":"s"} in “{series.trim() || DEFAULT_SERIES}”</div>
+          {plan.creates.map(c=> (
+            <IcsImportRow key={c.key} checked={!excluded.has(c.key)} onToggle={()=>toggle(c.key)}>
+              <div className="font-medium truncate">{c.project.title}</div>
+              <div className="text-xs text-slate-400">Record {c.project.scheduledRecordAt && formatInZone(c.project.scheduledRecordAt.at, zones.viewer)}{c.project.durationEstimateMin ? ` · ${c.project.durationEstimateMin} min` : ""}</div>
+            </IcsImportRow>
+          ))}
+        </section>}
+        {plan.skipped.length>0 && <section className="grid gap-1">
+          <div className="text-sm font-semibold text-slate-400">Skipped {plan.skipped.length}</div>
+          {plan.skipped.map(x=> <div key={x.key} className="text-xs text-slate-500">{x.summary} — {x.reason}</div>)}
+        </section>}
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <button onClick={onClose} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Cancel</button>
+        <button onClick={apply} disabled={selected.size===0} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold disabled:opacity-50">Apply {selected.size} change{selected.size===1?"":"s"}</button>
+      </div>
+    </Modal>
+  );
+}
+
+function eventStatusClass(kind: StageKind){
+  switch(kind){
+    case "draft":     return "border border-dashed border-white/50";
+    case "active":    return "border border-transparent";
+    case "completed": return "border border-transparent opacity-75";
+    case "archived":  return "border border-transparent opacity-40 line-through";
+  }
+}
+
+const STAGE_BADGE: Record<StageColor, string> = {
+  zinc:    "bg-zinc-800 text-zinc-300",
+  blue:    "bg-blue-800/30 text-blue-300 border border-blue-700/40",
+  cyan:    "bg-cyan-800/30 text-cyan-300 border border-cyan-700/40",
+  violet:  "bg-violet-800/30 text-violet-300 border border-violet-700/40",
+  amber:   "bg-amber-800/30 text-amber-300 border border-amber-700/40",
+  emerald: "bg-emerald-800/30 text-emerald-300 border border-emerald-700/40",
+  rose:    "bg-rose-800/30 text-rose-300 border border-rose-700/40",
+  slate:   "bg-slate-800 text-slate-400",
+};
+
+function badgeColor(stage: WorkflowStage){
+  return STAGE_BADGE[stage.color];
+}
+
+function IcsButton({ label, p, kind, guests, workflow }:{ label:string; p:Project; kind:ScheduleKind; guests: Guest[]; workflow: Workflow }){
+  const makeIcs = () => downloadFile(`${icsUid(p.id, kind)}.ics`, buildIcs([{ project: p, kind }], guests, `${p.series} ${episodeLabel(p)}`, workflow), "text/calendar;charset=utf-8");
+  return <button onClick={makeIcs} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">{label}</button>;
+}
+
+function ProjectCard({p, guests, assignee, zones, workflow, onEdit, onDelete, selectable}:{p:Project; guests: Guest[]; assignee?: User; zones: ZonePrefs; workflow: Workflow; onEdit?:()=>void; onDelete?:()=>void; selectable?: boolean}){
+  const billed = projectGuests(p, guests);
+  const stage = stageOf(workflow, p.status);
+  return (
+    <div className="group rounded-2xl border border-slate-800 bg-slate-900/60 p-4 hover:shadow-xl hover:-translate-y-0.5 transition">
+      <div className="flex items-center justify-between">
+        <div className={classNames("text-xs px-2 py-1 rounded-full font-medium inline-flex items-center gap-2", badgeColor(stage))}>
+          <span>{stage.label}</span>
+        </div>
+        <div className="text-xs text-slate-400">{p.series} · {episodeLabel(p)}</div>
+      </div>
+      <div className="mt-2 font-semibold text-lg">{p.title || "Untitled"}</div>
+      <div className="mt-1 text-sm text-slate-400 line-clamp-2">{p.description || "No description"}</div>
+      <div className="mt-3 flex flex-wrap gap-2">
+        {p.tags.map(t=> <span key={t} className="text-xs px-2 py-1 rounded-full bg-slate-800 border border-slate-700">#{t}</span>)}
+      </div>
+      <div className="mt-3 text-xs text-slate-400">
+        Priority: <span className="uppercase font-medium text-slate-200">{p.priority}</span>
+        {p.assigneeId && <> · Assignee: <span className="font-medium text-slate-200">{assignee?.name || "Former member"}</span></>}
+      </div>
+      {billed.length>0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {billed.map(({ guest, role })=> (
+            <span key={guest.id} className="text-xs pl-1 pr-2 py-0.5 rounded-full bg-slate-800 border border-slate-700 inline-flex items-center gap-1">
+              <GuestPhoto guest={guest} className="w-4 h-4 rounded-full" />
+              {guest.name}{role!=="guest" && <span className="text-slate-400">· {role}</span>}
+            </span>
+          ))}
+        </div>
+      )}
+      <ProgressBar pct={p.progressPct} />
+      <div className="mt-3 grid gap-1 text-xs text-slate-400">
+        <ScheduleTimes label="Record" at={p.scheduledRecordAt} zones={zones} guests={billed.map(x=>x.guest)} />
+        <ScheduleTimes label="Publish" at={p.scheduledPublishAt} zones={zones} />
+      </div>
+      <div className="mt-4 flex gap-2">
+        {onEdit && <button onClick={onEdit} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Edit</button>}
+        {onDelete && <button onClick={onDelete} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600 text-sm">Delete</button>}
+        {p.scheduledRecordAt && <IcsButton label="Calendar (Record)" p={p} kind="record" guests={guests} workflow={workflow} />}
+        {p.scheduledPublishAt && <IcsButton label="Calendar (Publish)" p={p} kind="publish" guests={guests} workflow={workflow} />}
+      </div>
+      {selectable && <input type="checkbox" name="sel-project" value={p.id} className="mt-3 accent-blue-500" />}
+    </div>
+  );
+}
+
+// A session time in the studio's zone, plus the guest's and the viewer's when those differ.
+function ScheduleTimes({ label, at, zones, guests, className }:{ label: string; at?: ScheduledTime; zones: ZonePrefs; guests?: Guest[]; className?: string }){
+  if (!at) return <div className={className}>{label}: TBD</div>;
+  const list = scheduleZones(zones, guests);
+  const firstDay = wallTimeIn(at.at, list[0].tz).slice(0, 10);
+  return (
+    <div className={className}>
+      {label}: {list.map((z, i)=> (
+        <span key={z.tz} title={z.tz} className={i ? "text-slate-500" : undefined}>
+          {i ? " · " : ""}{list.length>1 && `${z.label} `}{formatInZone(at.at, z.tz, i===0 || wallTimeIn(at.at, z.tz).slice(0, 10)!==firstDay)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Wall-clock time plus the zone it is meant in; changing the zone keeps the wall-clock time.
+function ScheduleInput({ value, defaultTz, onChange }:{ value?: ScheduledTime; defaultTz: string; onChange: (v?: ScheduledTime)=>void }){
+  const [pendingTz, setPendingTz] = useState<string>();
+  const tz = value?.tz || pendingTz || defaultTz;
+  const wall = value ? wallTimeIn(value.at, value.tz) : "";
+  return (
+    <div className="flex gap-2">
+      <input type="datetime-local" value={wall} onChange={e=>onChange(scheduleFromWallTime(e.target.value, tz))} className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+      <TimeZoneSelect value={tz} onChange={next=>wall ? onChange(scheduleFromWallTime(wall, next)) : setPendingTz(next)} className="w-36 px-2 py-2 rounded-lg bg-slate-900 border border-slate-800 text-xs" />
+    </div>
+  );
+}
+
+// Edits as free text and commits on blur, so partial input like "1:0" isn't rewritten while typing.
+function DurationInput({ value, onChange, placeholder = "0:45:00" }:{ value?: number; onChange: (sec?: number)=>void; placeholder?: string }){
+  const [text, setText] = useState<string>();
+  const shown = text ?? (value !== undefined ? formatDuration(value) : "");
+  const invalid = !!shown.trim() && parseDuration(shown) === undefined;
+  const commit = () => { if (text === undefined) return; if (!invalid) onChange(parseDuration(text) || undefined); setText(undefined); };
+  return (
+    <input value={shown} placeholder={placeholder} onChange={e=>setText(e.target.value)} onBlur={commit} onKeyDown={e=>e.key==="Enter" && commit()}
+      className={classNames("w-full px-3 py-2 rounded-lg bg-slate-900 border", invalid ? "border-red-700" : "border-slate-800")} />
+  );
+}
+
+function AudioAttachmentsEditor({ attachments, onAdd, onChange, onUseAsMaster, onStored }:{
+  attachments: AudioAttachment[]; onAdd: (a: AudioAttachment)=>void; onChange: (list: AudioAttachment[])=>void;
+  onUseAsMaster: (a: AudioAttachment)=>void; onStored: (blobId: string)=>void;
+}){
+  const inputRef = useRef<HTMLInputElement|null>(null);
+  const [busy, setBusy] = useState<string[]>([]);
+  const addFiles = async (files: File[]) => {
+    for (const file of files) {
+      setBusy(b=>[...b, file.name]);
+      const blobId = uid("audio");
+      if (await putBlob(blobId, file)) {
+        onStored(blobId);
+        const meta = await analyseAudio(file);
+        onAdd({ id: uid("att"), blobId, name: file.name, kind: "raw", mimeType: file.type || enclosureMimeType({ url: file.name }), bytes: file.size, addedAt: now(), ...meta });
+      } else {
+        alert(`Could not store ${file.name} — see the error banner for details. Large recordings need the IndexedDB storage backend.`);
+      }
+      setBusy(b=>b.filter(n=>n!==file.name));
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      {attachments.map(a=> (
+        <div key={a.id} className="p-3 rounded-xl bg-slate-900 border border-slate-800 grid gap-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={classNames("text-xs px-2 py-0.5 rounded-full", a.kind==="master" ? "bg-emerald-900/40 text-emerald-300" : "bg-slate-800 text-slate-400")}>{a.kind}</span>
+            <span className="font-medium truncate min-w-0">{a.name}</span>
+            <span className="text-xs text-slate-400">
+              {[a.durationSec && formatDuration(a.durationSec), formatBytes(a.bytes), a.sampleRate && `${(a.sampleRate/1000).toFixed(1)} kHz`, a.channels && (a.channels===1 ? "mono" : a.channels===2 ? "stereo" : `${a.channels} ch`)].filter(Boolean).join(" · ")}
+            </span>
+            <span className="ml-auto flex gap-2">
+              {a.kind!=="master" && <button onClick={()=>onUseAsMaster(a)} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Use as master</button>}
+              <button onClick={()=>onChange(attachments.filter(x=>x.id!==a.id))} aria-label={`Remove ${a.name}`} className="text-slate-400 hover:text-white">✕</button>
+            </span>
           </div>
+          {a.tags && <div className="text-xs text-slate-500">{[a.tags.title, a.tags.artist, a.tags.album, a.tags.year, a.tags.track && `#${a.tags.track}`, a.tags.genre].filter(Boolean).join(" · ")}{a.tags.comment && ` — ${a.tags.comment}`}</div>}
+          <AudioWaveform blobId={a.blobId} peaks={a.peaks} />
         </div>
+      ))}
+      {busy.map(n=> <div key={n} className="text-xs text-slate-400">Reading {n}…</div>)}
+      <div>
+        <button onClick={()=>inputRef.current?.click()} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">+ Add audio…</button>
+        <input ref={inputRef} type="file" accept="audio/*" multiple className="hidden" onChange={e=>{ const files = [...(e.target.files || [])]; e.target.value = ""; addFiles(files); }} />
       </div>
-
-      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
-        {filtered.map(p=> <ProjectCard key={p.id} p={p} onEdit={()=>openEdit(p)} onDelete={()=>remove(p.id)} />)}
-        {filtered.length===0 && (<div className="text-slate-400">No projects found. Create one to get started.</div>)}
-      </div>
-
-      {showForm && draft && (
-        <Modal onClose={()=>{setShowForm(false); setDraft(null);}} title={draft?.title?`Edit: ${draft.title}`:"New Project"}>
-          <ProjectForm draft={draft} setDraft={setDraft} guests={guests} onSave={saveDraft} onSeriesChange={(s)=>{
-            const newEp = nextEpisodeNumber(s);
-            setDraft({...draft, series: s, episodeNumber: newEp});
-          }} allSeries={allSeries} />
-        </Modal>
-      )}
     </div>
   );
 }
 
-function badgeColor(status: Status){
-  switch(status){
-    case "draft":     return "bg-zinc-800 text-zinc-300";
-    case "active":    return "bg-blue-800/30 text-blue-300 border border-blue-700/40";
-    case "completed": return "bg-emerald-800/30 text-emerald-300 border border-emerald-700/40";
-    case "archived":  return "bg-slate-800 text-slate-400";
-  }
-}
-
-function IcsButton({ label, p, kind }:{ label:string; p:Project; kind:"record"|"publish" }){
-  const makeIcs = () => {
-    const dt = kind === "record" ? p.scheduledRecordAt : p.scheduledPublishAt;
-    if (!dt) return;
-    const start = dt.replace(/[-:]/g, "").replace("T", "T");
-    const uidStr = `studiocast-${p.id}-${kind}`;
-    const summary = `${p.series} Ep ${p.episodeNumber}: ${p.title} (${kind})`;
-    const body = [
-      "BEGIN:VCALENDAR",
-      "VERSION:2.0",
-      "PRODID:-//StudioCast//EN",
-      "BEGIN:VEVENT",
-      `UID:${uidStr}`,
-      `DTSTAMP:${start}Z`,
-      `DTSTART:${start}Z`,
-      `SUMMARY:${summary}`,
-      "END:VEVENT",
-      "END:VCALENDAR",
-    ].join("\n");
-    const blob = new Blob([body], { type: "text/calendar;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url; a.download = `${uidStr}.ics`;
-    a.click(); URL.revokeObjectURL(url);
+// Player with the stored peaks as its scrubber: the played part is highlighted and a click seeks.
+function AudioWaveform({ blobId, peaks }:{ blobId: string; peaks?: number[] }){
+  const url = useBlobUrl(blobId);
+  const audioRef = useRef<HTMLAudioElement|null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const seek = (e: React.MouseEvent<SVGSVGElement>) => {
+    const audio = audioRef.current, box = e.currentTarget.getBoundingClientRect();
+    if (audio && isFinite(audio.duration)) audio.currentTime = audio.duration * (e.clientX - box.left) / box.width;
   };
-  return <button onClick={makeIcs} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">{label}</button>;
+  if (!url) return <div className="text-xs text-slate-500">The file isn't stored on this device.</div>;
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={()=>{ const a = audioRef.current; if (a) a.paused ? a.play() : a.pause(); }} aria-label={playing ? "Pause" : "Play"} className="w-8 h-8 shrink-0 rounded-full bg-slate-800 hover:bg-slate-700">{playing ? "❚❚" : "▶"}</button>
+      {peaks?.length ? (
+        <svg viewBox={`0 0 ${peaks.length} 40`} preserveAspectRatio="none" onClick={seek} className="flex-1 h-10 cursor-pointer">
+          {peaks.map((v, i)=> <rect key={i} x={i + 0.15} width={0.7} y={20 - Math.max(0.5, v * 20)} height={Math.max(1, v * 40)} className={i / peaks.length < progress ? "fill-blue-400" : "fill-slate-600"} />)}
+        </svg>
+      ) : (
+        <div className="flex-1 h-1 rounded bg-slate-800"><div className="h-1 rounded bg-blue-400" style={{ width: `${progress * 100}%` }} /></div>
+      )}
+      <audio ref={audioRef} src={url} preload="metadata" onPlay={()=>setPlaying(true)} onPause={()=>setPlaying(false)}
+        onTimeUpdate={e=>{ const a = e.currentTarget; setProgress(isFinite(a.duration) && a.duration ? a.currentTime / a.duration : 0); }} />
+    </div>
+  );
 }
 
-function ProjectCard({p, onEdit, onDelete}:{p:Project; onEdit:()=>void; onDelete:()=>void}){
+function ShowNotesEditor({ draft, guests, onChange }:{ draft: Project; guests: Guest[]; onChange: (patch: Partial<Project>)=>void }){
+  const chapters = draft.chapters || [];
+  const links = draft.links || [];
+  const credits = draft.credits || [];
+  const booked = showNotesCredits({ ...draft, credits: undefined }, guests);
+  const issues = chapterIssues(draft);
+  const setChapter = (id: string, patch: Partial<Chapter>) => onChange({ chapters: sortChapters(chapters.map(c=>c.id===id ? {...c, ...patch} : c)) });
+  const setLink = (id: string, patch: Partial<ShowNoteLink>) => onChange({ links: links.map(l=>l.id===id ? {...l, ...patch} : l) });
+  const setCredit = (id: string, patch: Partial<Credit>) => onChange({ credits: credits.map(c=>c.id===id ? {...c, ...patch} : c) });
+  const input = "px-2 py-1 rounded-lg bg-slate-950 border border-slate-800 text-sm min-w-0";
+
   return (
-    <div className="group rounded-2xl border border-slate-800 bg-slate-900/60 p-4 hover:shadow-xl hover:-translate-y-0.5 transition">
-      <div className="flex items-center justify-between">
-        <div className={classNames("text-xs px-2 py-1 rounded-full font-medium capitalize inline-flex items-center gap-2", badgeColor(p.status))}>
-          <span>{p.status}</span>
-        </div>
-        <div className="text-xs text-slate-400">{p.series} · Ep {p.episodeNumber}</div>
-      </div>
-      <div className="mt-2 font-semibold text-lg">{p.title || "Untitled"}</div>
-      <div className="mt-1 text-sm text-slate-400 line-clamp-2">{p.description || "No description"}</div>
-      <div className="mt-3 flex flex-wrap gap-2">
-        {p.tags.map(t=> <span key={t} className="text-xs px-2 py-1 rounded-full bg-slate-800 border border-slate-700">#{t}</span>)}
-      </div>
-      <div className="mt-3 text-xs text-slate-400">
-        Priority: <span className="uppercase font-medium text-slate-200">{p.priority}</span>
+    <div className="grid gap-3 p-3 rounded-xl bg-slate-900 border border-slate-800">
+      <div className="grid gap-2">
+        <div className="text-xs font-semibold text-slate-300">Chapters</div>
+        {chapters.map(c=> (
+          <div key={c.id} className="flex flex-wrap md:flex-nowrap items-center gap-2">
+            <div className="w-24 shrink-0"><DurationInput value={c.startSec} placeholder="0:00:00" onChange={sec=>setChapter(c.id, { startSec: sec || 0 })} /></div>
+            <input value={c.title} placeholder="Title" onChange={e=>setChapter(c.id, { title: e.target.value })} className={classNames(input, "flex-1")} />
+            <input value={c.url||""} placeholder="Link (optional)" onChange={e=>setChapter(c.id, { url: e.target.value.trim() || undefined })} className={classNames(input, "flex-1")} />
+            <label className="flex items-center gap-1 text-xs text-slate-400" title="Leave out of tables of contents and YouTube, e.g. for ad breaks">
+              <input type="checkbox" checked={!!c.hidden} onChange={e=>setChapter(c.id, { hidden: e.target.checked || undefined })} className="accent-blue-500" /> hidden
+            </label>
+            <button onClick={()=>onChange({ chapters: chapters.filter(x=>x.id!==c.id) })} aria-label="Remove chapter" className="text-slate-400 hover:text-white">✕</button>
+          </div>
+        ))}
+        {issues.map((x, i)=> <div key={i} className="text-xs text-amber-300">{x}</div>)}
+        <div><button onClick={()=>onChange({ chapters: [...chapters, { id: uid("chap"), startSec: chapters.length ? chapters[chapters.length-1].startSec + 60 : 0, title: "" }] })} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">+ Chapter</button></div>
       </div>
-      <ProgressBar pct={p.progressPct} />
-      <div className="mt-3 flex items-center gap-2 text-xs text-slate-400">
-        <div>Record: {p.scheduledRecordAt?.slice(0,16).replace('T',' ') || 'TBD'}</div>
-        <div>·</div>
-        <div>Publish: {p.scheduledPublishAt?.slice(0,16).replace('T',' ') || 'TBD'}</div>
+
+      <div className="grid gap-2">
+        <div className="text-xs font-semibold text-slate-300">Links</div>
+        {links.map(l=> (
+          <div key={l.id} className="flex items-center gap-2">
+            <input value={l.label} placeholder="Label" onChange={e=>setLink(l.id, { label: e.target.value })} className={classNames(input, "w-48")} />
+            <input value={l.url} placeholder="https://…" onChange={e=>setLink(l.id, { url: e.target.value.trim() })} className={classNames(input, "flex-1", !!l.url && !isHttpUrl(l.url) && "border-amber-700")} />
+            <button onClick={()=>onChange({ links: links.filter(x=>x.id!==l.id) })} aria-label="Remove link" className="text-slate-400 hover:text-white">✕</button>
+          </div>
+        ))}
+        <div><button onClick={()=>onChange({ links: [...links, { id: uid("lnk"), label: "", url: "" }] })} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">+ Link</button></div>
       </div>
-      <div className="mt-4 flex gap-2">
-        <button onClick={onEdit} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Edit</button>
-        <button onClick={onDelete} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600 text-sm">Delete</button>
-        {p.scheduledRecordAt && <IcsButton label="Calendar (Record)" p={p} kind="record" />}
-        {p.scheduledPublishAt && <IcsButton label="Calendar (Publish)" p={p} kind="publish" />}
+
+      <div className="grid gap-2">
+        <div className="text-xs font-semibold text-slate-300">Credits</div>
+        {booked.length>0 && <div className="text-xs text-slate-400">From the booking: {booked.map(c=>`${c.name} (${c.role})`).join(", ")}</div>}
+        {credits.map(c=> (
+          <div key={c.id} className="flex items-center gap-2">
+            <input value={c.name} placeholder="Name" onChange={e=>setCredit(c.id, { name: e.target.value })} className={classNames(input, "w-48")} />
+            <input value={c.role} placeholder="Role, e.g. Editor" onChange={e=>setCredit(c.id, { role: e.target.value })} className={classNames(input, "w-40")} />
+            <input value={c.url||""} placeholder="Link (optional)" onChange={e=>setCredit(c.id, { url: e.target.value.trim() || undefined })} className={classNames(input, "flex-1")} />
+            <button onClick={()=>onChange({ credits: credits.filter(x=>x.id!==c.id) })} aria-label="Remove credit" className="text-slate-400 hover:text-white">✕</button>
+          </div>
+        ))}
+        <div><button onClick={()=>onChange({ credits: [...credits, { id: uid("crd"), name: "", role: "" }] })} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">+ Credit</button></div>
       </div>
-      <input type="checkbox" name="sel-project" value={p.id} className="mt-3 accent-blue-500" />
     </div>
   );
 }
 
+function ShowNotesExportDialog({ project, guests, onClose }:{ project: Project; guests: Guest[]; onClose: ()=>void }){
+  const [format, setFormat] = useState<ShowNotesFormat>("markdown");
+  const output = useMemo(()=>buildShowNotes(project, guests, format), [project, guests, format]);
+  const info = SHOW_NOTES_FORMATS[format];
+  const issues = [...chapterIssues(project), ...(format==="youtube" ? youtubeChapterIssues(project) : [])];
+  const chapterCount = project.chapters?.length || 0;
+  const download = () => downloadFile(`${slugify(`${project.series} ${episodeLabel(project)}`) || "episode"}.${info.ext}`, output, info.mime);
+
+  return (
+    <Modal onClose={onClose} title={`Show notes · ${projectLabel(project)}`}>
+      <div className="grid gap-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(SHOW_NOTES_FORMATS) as ShowNotesFormat[]).map(f=> (
+            <button key={f} onClick={()=>setFormat(f)} className={classNames("px-3 py-1.5 rounded-lg text-sm", f===format ? "bg-blue-600" : "bg-slate-800 hover:bg-slate-700")}>{SHOW_NOTES_FORMATS[f].label}</button>
+          ))}
+        </div>
+        {(format==="json" || format==="id3") && !chapterCount && <div className="text-sm text-amber-300">This episode has no chapters yet.</div>}
+        {issues.map((x, i)=> <div key={i} className="text-xs text-amber-300">{x}</div>)}
+        {typeof output === "string"
+          ? <pre className="p-3 rounded-xl bg-slate-900 border border-slate-800 text-xs overflow-auto max-h-96 whitespace-pre-wrap">{output}</pre>
+          : <div className="p-3 rounded-xl bg-slate-900 border border-slate-800 text-sm text-slate-300">ID3v2.4 tag with a table of contents and {chapterCount} CHAP frame{chapterCount===1?"":"s"} ({formatBytes(output.length)}). Merge it into the audio file with your tagging tool.</div>}
+        <div className="flex justify-end gap-2">
+          {typeof output === "string" && <button onClick={()=>navigator.clipboard?.writeText(output)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Copy</button>}
+          <button onClick={download} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">Download</button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function TimeZoneSelect({ value, onChange, className, emptyLabel }:{ value?: string; onChange: (tz: string)=>void; className?: string; emptyLabel?: string }){
+  const options = useMemo(()=>timeZoneOptions(), []);
+  return (
+    <select value={value || ""} onChange={e=>onChange(e.target.value)} className={className}>
+      {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+      {value && !options.includes(value) && <option value={value}>{value}</option>}
+      {options.map(z=> <option key={z} value={z}>{z}</option>)}
+    </select>
+  );
+}
+
 function Modal({children, title, onClose}:{children:React.ReactNode; title:string; onClose:()=>void}){
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -592,10 +4891,29 @@ function Modal({children, title, onClose}:{children:React.ReactNode; title:strin
   );
 }
 
-function ProjectForm({ draft, setDraft, guests, onSave, onSeriesChange, allSeries }:{ draft: Project; setDraft: (p:Project)=>void; guests: Guest[]; onSave: ()=>void; onSeriesChange: (series:string)=>void; allSeries: string[] }){
+function ProjectForm({ draft, setDraft, guests, users, zones, workflow, savedStatus, template, onSave, onSeriesChange, allSeries, autoNumber, clashes, onAudioStored }:{
+  draft: Project; setDraft: (p:Project)=>void; guests: Guest[]; users: User[]; zones: ZonePrefs; workflow: Workflow; savedStatus?: Status;
+  template: ChecklistTemplateItem[]; onSave: ()=>void; onSeriesChange: (series:string)=>void; allSeries: string[];
+  autoNumber: boolean; clashes: Project[]; onAudioStored: (blobId: string)=>void;
+}){
   const set = (patch: Partial<Project>) => setDraft({...draft, ...patch});
-  const setChecklist = (patch: Partial<Checklist>) => setDraft({...draft, checklist: {...draft.checklist, ...patch} });
+  // Uploads finish after the user may have kept typing, so they patch the latest draft.
+  const latest = useRef(draft);
+  latest.current = draft;
+  const [exporting, setExporting] = useState(false);
+  const reachable = (to: Status) => savedStatus === undefined || to === savedStatus || stageOf(workflow, savedStatus).next.includes(to);
+  const statusProblem = transitionProblem(workflow, draft, draft.status, savedStatus);
+  const setChecklist = (checklist: Checklist) => setDraft({...draft, checklist, progressPct: calcProgress(checklist)});
+  const setParticipants = (participants: Participant[]) => setDraft({...draft, participants});
+  const setItem = (id: string, patch: Partial<ChecklistItem>) => setChecklist(draft.checklist.map(i=>i.id===id ? {...i, ...patch} : i));
+  const missing = missingChecklistItems(draft.checklist, template, draft.scheduledRecordAt);
   const [tagInput, setTagInput] = useState("");
+  const [itemInput, setItemInput] = useState("");
+  const addItem = () => {
+    if (!itemInput.trim()) return;
+    setChecklist([...draft.checklist, { id: uid("chk"), label: itemInput.trim(), done: false }]);
+    setItemInput("");
+  };
 
   return (
     <div className="grid gap-4">
@@ -606,18 +4924,30 @@ function ProjectForm({ draft, setDraft, guests, onSave, onSeriesChange, allSerie
         </div>
         <div>
           <label className="block text-xs mb-1 text-slate-400">Series</label>
-          <div className="flex gap-2">
-            <select value={draft.series} onChange={e=>onSeriesChange(e.target.value)} className="flex-1 px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
-              {[...new Set([draft.series, ...allSeries, "Main"])].filter(Boolean).map(s=> <option key={s} value={s}>{s}</option>)}
+          <select value={draft.series} onChange={e=>onSeriesChange(e.target.value)} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            {[...new Set([draft.series, ...allSeries])].filter(Boolean).map(s=> <option key={s} value={s}>{s}{!allSeries.includes(s) && " (archived)"}</option>)}
+          </select>
+          <div className="text-xs text-slate-500 mt-1">New series are added on the Series tab.</div>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Type</label>
+            <select value={draft.episodeType ?? "full"} onChange={e=>set({episodeType: e.target.value==="full" ? undefined : e.target.value as EpisodeType})} className="w-full px-2 py-2 rounded-lg bg-slate-900 border border-slate-800 capitalize">
+              {EPISODE_TYPES.map(t=> <option key={t} value={t}>{t}</option>)}
             </select>
-            <input placeholder="New series…" className="w-32 px-3 py-2 rounded-lg bg-slate-900 border border-slate-800"
-              onKeyDown={(e)=>{ if(e.key==='Enter'){ const v=(e.target as HTMLInputElement).value.trim(); if(v){ onSeriesChange(v); (e.target as HTMLInputElement).value=''; }}}}
-            />
           </div>
-        </div>
-        <div>
-          <label className="block text-xs mb-1 text-slate-400">Episode # (auto)</label>
-          <input type="number" value={draft.episodeNumber} onChange={e=>set({episodeNumber: Number(e.target.value)})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Season</label>
+            <input type="number" min={0} value={draft.season ?? ""} placeholder="—" onChange={e=>set({season: Math.floor(Number(e.target.value)) > 0 ? Math.floor(Number(e.target.value)) : undefined})} className="w-full px-2 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+          </div>
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Episode #</label>
+            <input type="number" min={1} value={isNumbered(draft) ? draft.episodeNumber : ""} disabled={!isNumbered(draft)} placeholder="—" onChange={e=>set({episodeNumber: Math.max(0, Math.floor(Number(e.target.value)))})} className="w-full px-2 py-2 rounded-lg bg-slate-900 border border-slate-800 disabled:opacity-50" />
+          </div>
+          <div className="col-span-3 text-xs text-slate-400">
+            {episodeLabel(draft)}{isNumbered(draft) && autoNumber && " · next free number, assigned on save"}
+            {clashes.length>0 && <div className="text-amber-300">Also used by “{clashes[0].title || "Untitled"}”{clashes.length>1 && ` and ${clashes.length-1} more`}.</div>}
+          </div>
         </div>
       </div>
 
@@ -644,9 +4974,11 @@ function ProjectForm({ draft, setDraft, guests, onSave, onSeriesChange, allSerie
       <div className="grid md:grid-cols-4 gap-4">
         <div>
           <label className="block text-xs mb-1 text-slate-400">Status</label>
-          <select value={draft.status} onChange={e=>set({status:e.target.value as Status})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
-            {STATUSES.map(s=> <option key={s} value={s}>{s}</option>)}
+          <select value={draft.status} onChange={e=>set({status:e.target.value})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            {!workflow.stages.some(s=>s.id===draft.status) && <option value={draft.status}>{draft.status}</option>}
+            {workflow.stages.map(s=> <option key={s.id} value={s.id} disabled={!reachable(s.id)}>{s.label}</option>)}
           </select>
+          {statusProblem && <div className="text-xs text-amber-300 mt-1">{statusProblem}</div>}
         </div>
         <div>
           <label className="block text-xs mb-1 text-slate-400">Priority</label>
@@ -656,24 +4988,77 @@ function ProjectForm({ draft, setDraft, guests, onSave, onSeriesChange, allSerie
         </div>
         <div>
           <label className="block text-xs mb-1 text-slate-400">Record Date</label>
-          <input type="datetime-local" value={draft.scheduledRecordAt||""} onChange={e=>set({scheduledRecordAt:e.target.value})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+          <ScheduleInput value={draft.scheduledRecordAt} defaultTz={zones.studio} onChange={v=>set({scheduledRecordAt:v})} />
+          <ScheduleTimes label="Shown as" at={draft.scheduledRecordAt} zones={zones} guests={projectGuests(draft, guests).map(x=>x.guest)} className="text-xs text-slate-500 mt-1" />
         </div>
         <div>
           <label className="block text-xs mb-1 text-slate-400">Publish Date</label>
-          <input type="datetime-local" value={draft.scheduledPublishAt||""} onChange={e=>set({scheduledPublishAt:e.target.value})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+          <ScheduleInput value={draft.scheduledPublishAt} defaultTz={zones.studio} onChange={v=>set({scheduledPublishAt:v})} />
         </div>
       </div>
 
-      <div className="grid md:grid-cols-3 gap-4">
+      <div className="grid md:grid-cols-2 gap-4">
         <div>
           <label className="block text-xs mb-1 text-slate-400">Duration Estimate (min)</label>
           <input type="number" value={draft.durationEstimateMin||""} onChange={e=>set({durationEstimateMin: Number(e.target.value)||undefined})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
         </div>
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Assignee</label>
+          <select value={draft.assigneeId||""} onChange={e=>set({assigneeId: e.target.value || undefined})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="">Unassigned</option>
+            {draft.assigneeId && !users.some(u=>u.id===draft.assigneeId) && <option value={draft.assigneeId}>Former member</option>}
+            {users.map(u=> <option key={u.id} value={u.id}>{u.name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-4">
         <div className="md:col-span-2">
-          <label className="block text-xs mb-1 text-slate-400">Guest</label>
-          <select value={draft.guestId||""} onChange={e=>set({guestId: e.target.value || undefined})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
-            <option value="">— None —</option>
-            {guests.map(g=> <option key={g.id} value={g.id}>{g.name}</option>)}
+          <label className="block text-xs mb-1 text-slate-400">Audio URL (for the feed)</label>
+          <input value={draft.enclosure?.url||""} placeholder="https://…/episode.mp3" onChange={e=>set({enclosure: e.target.value.trim() ? {...draft.enclosure, url: e.target.value.trim()} : undefined})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+        </div>
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">File size (bytes)</label>
+          <input type="number" min={0} value={draft.enclosure?.bytes||""} disabled={!draft.enclosure} onChange={e=>draft.enclosure && set({enclosure: {...draft.enclosure, bytes: Math.round(Number(e.target.value)) || undefined}})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 disabled:opacity-50" />
+        </div>
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Duration (h:mm:ss)</label>
+          <DurationInput value={draft.durationSec} onChange={durationSec=>set({durationSec})} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs mb-1 text-slate-400">Audio</label>
+        <AudioAttachmentsEditor attachments={draft.attachments || []} onStored={onAudioStored}
+          onAdd={a=>setDraft({...latest.current, attachments: [...(latest.current.attachments || []), a]})}
+          onChange={attachments=>set({attachments: attachments.length ? attachments : undefined})}
+          onUseAsMaster={a=>setDraft(applyMasterAudio(draft, a))} />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-xs text-slate-400">Show notes</label>
+          <button onClick={()=>setExporting(true)} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Export…</button>
+        </div>
+        <ShowNotesEditor draft={draft} guests={guests} onChange={set} />
+      </div>
+      {exporting && <ShowNotesExportDialog project={draft} guests={guests} onClose={()=>setExporting(false)} />}
+
+      <div>
+        <label className="block text-xs mb-1 text-slate-400">Guests & Co-hosts</label>
+        <div className="grid gap-2">
+          {draft.participants.map((x, i)=> (
+            <div key={x.guestId} className="flex items-center gap-2 p-2 rounded-xl bg-slate-900 border border-slate-800">
+              <span className="flex-1">{guests.find(g=>g.id===x.guestId)?.name || "Unknown guest"}</span>
+              <select value={x.role} onChange={e=>setParticipants(draft.participants.map((y, j)=>j===i ? {...y, role: e.target.value as ParticipantRole} : y))} aria-label="Role" className="px-2 py-1 rounded-lg bg-slate-950 border border-slate-800 text-xs">
+                {PARTICIPANT_ROLES.map(r=> <option key={r} value={r}>{r}</option>)}
+              </select>
+              <button onClick={()=>setParticipants(draft.participants.filter((_, j)=>j!==i))} aria-label="Remove" className="text-slate-400 hover:text-white">✕</button>
+            </div>
+          ))}
+          <select value="" onChange={e=>e.target.value && setParticipants([...draft.participants, { guestId: e.target.value, role: "guest" }])} className="w-full md:w-72 px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="">+ Add guest or co-host…</option>
+            {guests.filter(g=>!draft.participants.some(x=>x.guestId===g.id)).map(g=> <option key={g.id} value={g.id}>{g.name}</option>)}
           </select>
         </div>
       </div>
@@ -693,122 +5078,782 @@ function ProjectForm({ draft, setDraft, guests, onSave, onSeriesChange, allSerie
           ))}
         </div>
       </div>
-
+
+      <div>
+        <div className="flex items-center justify-between">
+          <div className="font-semibold">Pre‑production Checklist</div>
+          {missing.length>0 && <button onClick={()=>setChecklist([...draft.checklist, ...missing])} className="px-3 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Add {missing.length} from {draft.series} template</button>}
+        </div>
+        <div className="grid gap-2 mt-2">
+          {draft.checklist.map(item=> (
+            <div key={item.id} className="flex flex-wrap items-center gap-2 p-2 rounded-xl bg-slate-900 border border-slate-800">
+              <label className="flex-1 min-w-[10rem] flex items-center gap-2">
+                <input type="checkbox" checked={item.done} onChange={e=>setItem(item.id, {done: e.target.checked})} className="accent-blue-500"/>
+                <span className={item.done ? "line-through text-slate-400" : undefined}>{item.label}</span>
+              </label>
+              <select value={item.assigneeId||""} onChange={e=>setItem(item.id, {assigneeId: e.target.value || undefined})} aria-label={`Assignee for ${item.label}`} className="px-2 py-1 rounded-lg bg-slate-950 border border-slate-800 text-xs">
+                <option value="">Unassigned</option>
+                {item.assigneeId && !users.some(u=>u.id===item.assigneeId) && <option value={item.assigneeId}>Former member</option>}
+                {users.map(u=> <option key={u.id} value={u.id}>{u.name}</option>)}
+              </select>
+              <input type="date" value={item.due||""} onChange={e=>setItem(item.id, {due: e.target.value || undefined})} aria-label={`Due date for ${item.label}`} className="px-2 py-1 rounded-lg bg-slate-950 border border-slate-800 text-xs" />
+              <button onClick={()=>setChecklist(draft.checklist.filter(i=>i.id!==item.id))} aria-label={`Remove ${item.label}`} className="text-slate-400 hover:text-white">✕</button>
+            </div>
+          ))}
+          {draft.checklist.length===0 && <div className="text-xs text-slate-400">No checklist items for this episode.</div>}
+          <div className="flex gap-2">
+            <input value={itemInput} onChange={e=>setItemInput(e.target.value)} onKeyDown={e=>e.key==="Enter" && addItem()} placeholder="Add an item for this episode only" className="flex-1 px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+            <button onClick={addItem} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Add</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onSave} className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">Save</button>
+      </div>
+    </div>
+  );
+}
+
+function TeamPage({ users, setUsers, currentUser }:{ users: User[]; setUsers: React.Dispatch<React.SetStateAction<User[]>>; currentUser: User }){
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [lastInvite, setLastInvite] = useState<{ email: string; link: string } | null>(null);
+  const canManage = can(currentUser, "team.manage");
+  const add = () => {
+    if (!canManage) return;
+    if (!name.trim() || !email.trim()) return;
+    const exists = users.some(u=>u.email.toLowerCase()===email.toLowerCase());
+    if (exists) return alert("Email already exists.");
+    const u: User = { id: uid("usr"), name, email, role: "member", createdAt: now(), invite: newInvite() };
+    setUsers(prev => [...prev, u]); setLastInvite({ email, link: inviteLink(u.invite!.token) }); setName(""); setEmail(""); };
+  const del = (id: string) => {
+    if (!canManage) return;
+    const problem = lastAdminProblem(users, id, null);
+    if (problem) return alert(problem);
+    setUsers(prev => trashRecords(prev, [id], currentUser.id));
+  };
+  const setRole = (id: string, role: Role) => {
+    if (!canManage) return;
+    const problem = lastAdminProblem(users, id, role);
+    if (problem) return alert(problem);
+    setUsers(prev => prev.map(u=>u.id===id?{...u, role}:u));
+  };
+  // A fresh invite also revokes the old password / SSO link, so it doubles as an access reset.
+  const reinvite = (u: User) => {
+    if (!canManage) return;
+    if (!u.invite && !isUnclaimed(u) && !confirm(`Reset ${u.name}'s access? Their current password stops working until they accept the new invite.`)) return;
+    const invite = newInvite();
+    setUsers(prev => prev.map(x=>x.id===u.id?{...x, invite, passwordHash: undefined, oidcSubject: undefined}:x));
+    setLastInvite({ email: u.email, link: inviteLink(invite.token) });
+  };
+  const copy = (text: string) => navigator.clipboard?.writeText(text).catch(()=>{});
+
+  return (
+    <div className="grid gap-4">
+      {canManage ? <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+        <div className="font-semibold mb-2">Invite Team Member</div>
+        <div className="grid md:grid-cols-3 gap-2">
+          <input value={name} onChange={e=>setName(e.target.value)} placeholder="Name" className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700"/>
+          <input value={email} onChange={e=>setEmail(e.target.value)} placeholder="Email" className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700"/>
+          <button onClick={add} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500">Create Invite</button>
+        </div>
+        {lastInvite && (
+          <div className="mt-3 text-sm grid gap-1">
+            <div className="text-slate-300">Send this link to <b>{lastInvite.email}</b> (valid {INVITE_TTL_MS / 86400000} days):</div>
+            <div className="flex gap-2">
+              <input readOnly value={lastInvite.link} onFocus={e=>e.target.select()} className="flex-1 px-3 py-2 rounded-lg bg-slate-950 border border-slate-800 font-mono text-xs"/>
+              <button onClick={()=>copy(lastInvite.link)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Copy</button>
+            </div>
+          </div>
+        )}
+        <div className="text-xs text-slate-400 mt-2">Producers manage projects and guests, members edit them, guest viewers can only look.</div>
+      </div> : (
+        <div className="text-xs text-slate-400">Only admins can invite, remove or change roles. You are <b>{ROLE_LABELS[currentUser.role]}</b>.</div>
+      )}
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {users.map(u=> (
+          <div key={u.id} className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-semibold">{u.name}</div>
+                <div className="text-xs text-slate-400">{u.email}</div>
+              </div>
+              <div className="text-xs px-2 py-1 rounded-full bg-slate-800 border border-slate-700">{ROLE_LABELS[u.role]}</div>
+            </div>
+            {isUnclaimed(u) && <div className="mt-2 text-xs text-amber-300">No password yet — create an invite link to let them sign in.</div>}
+            {u.invite && (
+              <div className={classNames("mt-2 text-xs", u.invite.expiresAt < now() ? "text-red-300" : "text-amber-300")}>
+                Invite {u.invite.expiresAt < now() ? "expired" : `pending · expires ${new Date(u.invite.expiresAt).toLocaleDateString()}`}
+              </div>
+            )}
+            <div className="mt-3 flex flex-wrap gap-2">
+              {canManage && (<>
+                <select value={u.role} onChange={e=>setRole(u.id, e.target.value as Role)} className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700">
+                  {ROLES.map(r=> <option key={r} value={r} disabled={r!=="admin" && !!lastAdminProblem(users, u.id, r)}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                {u.id!==currentUser.id && <button onClick={()=>reinvite(u)} className="px-3 py-2 rounded-lg bg-slate-800">{u.invite ? "New Invite Link" : isUnclaimed(u) ? "Create Invite Link" : "Reset Access"}</button>}
+                <button onClick={()=>del(u.id)} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600">Remove</button>
+              </>)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SeriesPage({ seriesList, setSeriesList, projects, setProjects, guests, users, currentUser, workflow }:{
+  seriesList: Series[]; setSeriesList: React.Dispatch<React.SetStateAction<Series[]>>;
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  guests: Guest[]; users: User[]; currentUser: User; workflow: Workflow;
+}){
+  const canEdit = can(currentUser, "projects.edit");
+  const [showArchived, setShowArchived] = useState(false);
+  const [draft, setDraft] = useState<Series | null>(null);
+  const [feedFor, setFeedFor] = useState<string | null>(null);
+  const feedSeries = seriesList.find(x=>x.id===feedFor);
+  const [slugTouched, setSlugTouched] = useState(false);
+  const pickedArt = useRef<string[]>([]);
+  const artInputRef = useRef<HTMLInputElement|null>(null);
+  const episodes = (name: string) => projects.filter(p=>isLive(p) && p.series===name);
+  const shown = [...seriesList].filter(x=>showArchived || !x.archivedAt).sort((a,b)=>a.name.localeCompare(b.name));
+  const isNew = !!draft && !seriesList.some(x=>x.id===draft.id);
+
+  const open = (x?: Series) => {
+    if (!canEdit) return;
+    pickedArt.current = [];
+    setSlugTouched(!!x);
+    setDraft(x ? {...x} : newSeries("", seriesList));
+  };
+  const close = () => { pickedArt.current.forEach(deleteBlob); pickedArt.current = []; setDraft(null); };
+  const setName = (name: string) => draft && setDraft({...draft, name, slug: slugTouched ? draft.slug : uniqueSlug(name, seriesList.filter(x=>x.id!==draft.id).map(x=>x.slug))});
+  const saveSeries = () => {
+    if (!draft || !canEdit) return;
+    const saved: Series = {...draft, name: draft.name.trim(), description: draft.description?.trim() || undefined, updatedAt: now()};
+    const problem = seriesProblem(seriesList, saved);
+    if (problem) return alert(problem);
+    const before = seriesList.find(x=>x.id===saved.id);
+    if (before && before.name !== saved.name) {
+      const count = projects.filter(p=>p.series===before.name).length;
+      if (count && !confirm(`Rename “${before.name}” to “${saved.name}”? ${count} episode${count===1?"":"s"} will move with it.`)) return;
+      setProjects(prev=>renameSeriesProjects(prev, before.name, saved.name));
+      save(LS_KEYS.seqMap, renameSeriesCounter(load<Record<string, number>>(LS_KEYS.seqMap, {}), before.name, saved.name));
+    }
+    pickedArt.current = pickedArt.current.filter(id=>id!==saved.artworkId);
+    setSeriesList(prev=>before ? prev.map(x=>x.id===saved.id ? saved : x) : [...prev, saved]);
+    close();
+  };
+  const toggleArchived = (x: Series) => {
+    if (!canEdit) return;
+    setSeriesList(prev=>prev.map(y=>y.id===x.id ? {...y, archivedAt: y.archivedAt ? undefined : now(), updatedAt: now()} : y));
+  };
+  const onPickArt = async (file?: File|null) => {
+    if (!file || !draft) return;
+    const artworkId = uid("art");
+    if (!(await putBlob(artworkId, file))) return alert("Could not store the artwork — see the error banner for details.");
+    pickedArt.current.push(artworkId);
+    setDraft(cur=>cur && {...cur, artworkId});
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold">Series</h2>
+        <div className="flex gap-2 items-center">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showArchived} onChange={e=>setShowArchived(e.target.checked)} className="accent-blue-500" />
+            Show archived
+          </label>
+          {canEdit && <button onClick={()=>open()} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500">New Series</button>}
+        </div>
+      </div>
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {shown.map(x=> {
+          const eps = episodes(x.name);
+          const hosts = x.hostIds.map(id=>users.find(u=>u.id===id)?.name).filter(Boolean);
+          return (
+            <div key={x.id} className={classNames("p-4 rounded-2xl bg-slate-900 border border-slate-800 grid gap-3 content-start", !!x.archivedAt && "opacity-60")}>
+              <div className="flex gap-3">
+                <SeriesArtwork series={x} className="w-16 h-16 rounded-xl shrink-0" />
+                <div className="min-w-0">
+                  <div className="font-semibold truncate">{x.name}{x.archivedAt && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-slate-800 text-slate-400">Archived</span>}</div>
+                  <div className="text-xs text-slate-500 font-mono">{x.slug}</div>
+                  <div className="text-xs text-slate-400">{eps.length} episode{eps.length===1?"":"s"}{x.defaultDurationMin ? ` · ${x.defaultDurationMin} min` : ""}</div>
+                </div>
+              </div>
+              {x.description && <div className="text-sm text-slate-300 line-clamp-3">{x.description}</div>}
+              <div className="text-xs text-slate-400">Hosts: {hosts.length ? hosts.join(", ") : "—"}</div>
+              <div className="text-xs text-slate-400">Checklist: {x.checklist ? `${x.checklist.length} custom item${x.checklist.length===1?"":"s"}` : "default"}</div>
+              <div className="flex gap-2">
+                {canEdit && <button onClick={()=>open(x)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Edit</button>}
+                <button onClick={()=>setFeedFor(x.id)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Feed</button>
+                {canEdit && <button onClick={()=>toggleArchived(x)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">{x.archivedAt ? "Unarchive" : "Archive"}</button>}
+              </div>
+            </div>
+          );
+        })}
+        {shown.length===0 && <div className="text-slate-400">No series yet — add one above.</div>}
+      </div>
+
+      {draft && (
+        <Modal onClose={close} title={isNew ? "New Series" : `Edit: ${draft.name}`}>
+          <div className="grid gap-3">
+            <div className="flex gap-4 items-start">
+              <div className="grid gap-2 justify-items-center">
+                <SeriesArtwork series={draft} className="w-24 h-24 rounded-xl" />
+                <button onClick={()=>artInputRef.current?.click()} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Upload artwork</button>
+                {draft.artworkId && <button onClick={()=>setDraft({...draft, artworkId: undefined})} className="text-xs text-slate-400 hover:text-white">Remove</button>}
+                <input ref={artInputRef} type="file" accept="image/*" className="hidden" onChange={e=>{ const f = e.target.files?.[0]; e.target.value = ""; onPickArt(f); }} />
+              </div>
+              <div className="flex-1 grid md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs mb-1 text-slate-400">Name</label>
+                  <input value={draft.name} onChange={e=>setName(e.target.value)} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+                </div>
+                <div>
+                  <label className="block text-xs mb-1 text-slate-400">Slug</label>
+                  <input value={draft.slug} onChange={e=>{ setSlugTouched(true); setDraft({...draft, slug: e.target.value.toLowerCase()}); }} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 font-mono" />
+                </div>
+                <div>
+                  <label className="block text-xs mb-1 text-slate-400">Default duration (min)</label>
+                  <input type="number" min={0} value={draft.defaultDurationMin ?? ""} onChange={e=>setDraft({...draft, defaultDurationMin: e.target.value==="" ? undefined : Math.max(0, Math.round(Number(e.target.value)))})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+                </div>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs mb-1 text-slate-400">Description</label>
+              <textarea value={draft.description||""} onChange={e=>setDraft({...draft, description: e.target.value})} rows={3} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+            </div>
+            <div>
+              <label className="block text-xs mb-1 text-slate-400">Hosts</label>
+              <div className="flex flex-wrap gap-3 text-sm">
+                {users.map(u=> (
+                  <label key={u.id} className="flex items-center gap-2">
+                    <input type="checkbox" checked={draft.hostIds.includes(u.id)} onChange={e=>setDraft({...draft, hostIds: e.target.checked ? [...draft.hostIds, u.id] : draft.hostIds.filter(id=>id!==u.id)})} className="accent-blue-500" />
+                    {u.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs mb-1 text-slate-400">Default checklist</label>
+              <ChecklistTemplateEditor custom={draft.checklist} users={users} onChange={(checklist)=>setDraft({...draft, checklist})} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={close} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Cancel</button>
+              <button onClick={saveSeries} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">Save</button>
+            </div>
+          </div>
+        </Modal>
+      )}
+      {feedSeries && (
+        <FeedDialog series={feedSeries} projects={projects} guests={guests} users={users} workflow={workflow} onClose={()=>setFeedFor(null)}
+          onSave={canEdit ? feed=>setSeriesList(prev=>prev.map(x=>x.id===feedSeries.id ? {...x, feed, updatedAt: now()} : x)) : undefined} />
+      )}
+    </div>
+  );
+}
+
+const FEED_CATEGORIES = ["Arts", "Business", "Comedy", "Education", "Fiction", "Government", "History", "Health & Fitness", "Kids & Family", "Leisure", "Music", "News", "Religion & Spirituality", "Science", "Society & Culture", "Sports", "Technology", "True Crime", "TV & Film"];
+
+// Settings on the left, the generated XML and its problems on the right. The preview follows unsaved
+// edits; downloading saves them first so the file always matches what is stored.
+function FeedDialog({ series, projects, guests, users, workflow, onSave, onClose }:{
+  series: Series; projects: Project[]; guests: Guest[]; users: User[]; workflow: Workflow;
+  onSave?: (feed: FeedSettings)=>void; onClose: ()=>void;
+}){
+  const [feed, setFeed] = useState<FeedSettings>(()=>({ language: "en-us", ...series.feed, ...(onSave && !series.feed?.podcastGuid ? { podcastGuid: crypto.randomUUID() } : {}) }));
+  const set = (patch: Partial<FeedSettings>) => setFeed(cur=>({...cur, ...patch}));
+  const { xml, issues, included } = useMemo(()=>buildPodcastFeed({...series, feed}, projects, guests, users, workflow), [series, feed, projects, guests, users, workflow]);
+  const errors = issues.filter(x=>x.level==="error").length;
+  const text = (key: "feedUrl"|"siteUrl"|"artworkUrl"|"language"|"author"|"ownerName"|"ownerEmail"|"copyright", label: string, placeholder = "") => (
+    <div>
+      <label className="block text-xs mb-1 text-slate-400">{label}</label>
+      <input value={feed[key]||""} placeholder={placeholder} disabled={!onSave} onChange={e=>set({[key]: e.target.value || undefined})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 disabled:opacity-60" />
+    </div>
+  );
+  const download = () => {
+    onSave?.(feed);
+    downloadFile(`${series.slug}.xml`, xml, "application/rss+xml;charset=utf-8");
+  };
+
+  return (
+    <Modal onClose={onClose} title={`Podcast feed · ${series.name}`}>
+      <div className="grid lg:grid-cols-2 gap-4">
+        <div className="grid gap-3 content-start text-sm">
+          {text("feedUrl", "Feed URL", "https://example.com/feed.xml")}
+          {text("siteUrl", "Website")}
+          {text("artworkUrl", "Artwork URL", "https://…/cover.jpg")}
+          <div className="grid grid-cols-2 gap-3">
+            {text("language", "Language", "en-us")}
+            <div>
+              <label className="block text-xs mb-1 text-slate-400">Category</label>
+              <input list="feed-categories" value={feed.category||""} placeholder="Technology" disabled={!onSave} onChange={e=>set({category: e.target.value || undefined})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 disabled:opacity-60" />
+              <datalist id="feed-categories">{FEED_CATEGORIES.map(c=> <option key={c} value={c} />)}</datalist>
+            </div>
+          </div>
+          {text("author", "Author", users.filter(u=>series.hostIds.includes(u.id)).map(u=>u.name).join(", "))}
+          <div className="grid grid-cols-2 gap-3">
+            {text("ownerName", "Owner name")}
+            {text("ownerEmail", "Owner email")}
+          </div>
+          {text("copyright", "Copyright")}
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2"><input type="checkbox" checked={!!feed.explicit} disabled={!onSave} onChange={e=>set({explicit: e.target.checked})} className="accent-blue-500" /> Explicit</label>
+            <label className="flex items-center gap-2"><input type="checkbox" checked={!!feed.locked} disabled={!onSave} onChange={e=>set({locked: e.target.checked})} className="accent-blue-500" /> Locked</label>
+            <label className="flex items-center gap-2">
+              Type
+              <select value={feed.showType || "episodic"} disabled={!onSave} onChange={e=>set({showType: e.target.value as FeedSettings["showType"]})} className="px-2 py-1 rounded-lg bg-slate-900 border border-slate-800">
+                <option value="episodic">Episodic</option>
+                <option value="serial">Serial</option>
+              </select>
+            </label>
+          </div>
+          {feed.podcastGuid && <div className="text-xs text-slate-500 font-mono">podcast:guid {feed.podcastGuid}</div>}
+        </div>
+        <div className="grid gap-3 content-start min-w-0">
+          <div className="text-sm text-slate-400">{included} episode{included===1?"":"s"} in the feed · {errors} error{errors===1?"":"s"} · {issues.length - errors} warning{issues.length-errors===1?"":"s"}</div>
+          {issues.length>0 && (
+            <ul className="grid gap-1 text-xs max-h-40 overflow-auto">
+              {issues.map((x, i)=> <li key={i} className={x.level==="error" ? "text-red-300" : "text-amber-300"}>{x.level==="error" ? "✕" : "!"} {x.message}</li>)}
+            </ul>
+          )}
+          <pre className="p-3 rounded-xl bg-slate-950 border border-slate-800 text-xs overflow-auto max-h-96 whitespace-pre">{xml}</pre>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 mt-4">
+        <button onClick={()=>navigator.clipboard?.writeText(xml)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Copy XML</button>
+        {onSave && <button onClick={()=>{ onSave(feed); onClose(); }} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Save settings</button>}
+        <button onClick={download} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">Download .xml</button>
+      </div>
+    </Modal>
+  );
+}
+
+type GuestImportSource = { kind: "vcard"; candidates: GuestImportCandidate[] } | { kind: "csv"; headers: string[]; rows: string[][] };
+
+function GuestImportDialog({ source, guests, setGuests, onClose }:{
+  source: GuestImportSource; guests: Guest[]; setGuests: React.Dispatch<React.SetStateAction<Guest[]>>; onClose: ()=>void;
+}){
+  const [mapping, setMapping] = useState<CsvColumnTarget[]>(()=>source.kind==="csv" ? guessCsvMapping(source.headers) : []);
+  const [step, setStep] = useState<"map"|"preview">(source.kind==="csv" ? "map" : "preview");
+  const rows = useMemo(()=>planGuestImport(source.kind==="csv" ? csvGuests(source.rows, mapping) : source.candidates, guests), [source, mapping, guests]);
+  const [excluded, setExcluded] = useState<Set<string> | null>(null);
+  // Duplicates start unticked; the default is recomputed until the user touches a checkbox.
+  const skip = excluded ?? new Set(rows.filter(x=>x.duplicateOf).map(x=>x.key));
+  const selected = rows.filter(x=>!x.errors.length && !skip.has(x.key));
+  const toggle = (key: string) => { const next = new Set(skip); next.has(key) ? next.delete(key) : next.add(key); setExcluded(next); };
+  const [busy, setBusy] = useState(false);
+  const mapped = mapping.some(t=>t==="name" || t==="firstName" || t==="lastName");
+
+  const apply = async () => {
+    setBusy(true);
+    const added: Guest[] = [];
+    for (const { guest } of selected) {
+      const { photoDataUrl, ...rest } = guest;
+      const photoId = photoDataUrl ? uid("photo") : undefined;
+      // A photo that fails to store only costs this guest their picture, not the whole import.
+      let stored = false;
+      try { stored = photoId ? await putBlob(photoId, dataUrlToBlob(photoDataUrl!)) : false; }
+      catch (err) { reportStorageError(`blob:${photoId}`, err); }
+      added.push({ ...rest, id: uid("gst"), createdAt: now(), updatedAt: now(), ...(stored ? { photoId } : {}) });
+    }
+    setGuests(prev=>[...added, ...prev]);
+    onClose();
+  };
+
+  return (
+    <Modal onClose={onClose} title={source.kind==="csv" ? `Import CSV · ${source.rows.length} row${source.rows.length===1?"":"s"}` : `Import vCard · ${source.candidates.length} contact${source.candidates.length===1?"":"s"}`}>
+      {step==="map" && source.kind==="csv" ? (
+        <div className="grid gap-3">
+          <div className="text-sm text-slate-400">Match each column to a guest field. Unmapped columns are ignored.</div>
+          {source.headers.map((h, i)=> (
+            <div key={i} className="grid grid-cols-3 gap-3 items-center text-sm">
+              <div className="font-medium truncate">{h || `Column ${i+1}`}</div>
+              <select value={mapping[i]} onChange={e=>setMapping(m=>m.map((t, j)=>j===i ? e.target.value as CsvColumnTarget : t))} aria-label={`Field for ${h || `column ${i+1}`}`} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+                <option value="">— skip —</option>
+                {(Object.keys(GUEST_FIELD_LABELS) as Exclude<CsvColumnTarget, "">[]).map(f=> <option key={f} value={f}>{GUEST_FIELD_LABELS[f]}</option>)}
+              </select>
+              <div className="text-xs text-slate-500 truncate">{source.rows[0]?.[i]}</div>
+            </div>
+          ))}
+          {!mapped && <div className="text-xs text-amber-300">Map a name column to continue.</div>}
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Cancel</button>
+            <button onClick={()=>{ setExcluded(null); setStep("preview"); }} disabled={!mapped} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold disabled:opacity-50">Preview</button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          <div className="grid gap-2">
+            {rows.map(x=> (
+              <label key={x.key} className={classNames("flex items-start gap-2 p-2 rounded-lg bg-slate-900 border border-slate-800 text-sm", x.errors.length>0 && "opacity-60")}>
+                <input type="checkbox" checked={!x.errors.length && !skip.has(x.key)} disabled={x.errors.length>0} onChange={()=>toggle(x.key)} className="mt-1 accent-blue-500" />
+                {x.guest.photoDataUrl && <img src={x.guest.photoDataUrl} alt="" className="w-8 h-8 rounded-full object-cover" />}
+                <div className="min-w-0">
+                  <div className="font-medium">{x.guest.name || "(no name)"}{x.guest.company && <span className="text-slate-400"> · {x.guest.company}</span>}</div>
+                  {x.guest.email && <div className="text-xs text-slate-400">{x.guest.email}</div>}
+                  {x.errors.map(e=> <div key={e} className="text-xs text-red-300">{e}</div>)}
+                  {x.warnings.map(w=> <div key={w} className="text-xs text-amber-300">{w}</div>)}
+                  {x.duplicateOf && <div className="text-xs text-amber-300">Possible duplicate of {x.duplicateOf}</div>}
+                </div>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            {source.kind==="csv" && <button onClick={()=>setStep("map")} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Back</button>}
+            <button onClick={onClose} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Cancel</button>
+            <button onClick={apply} disabled={busy || selected.length===0} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold disabled:opacity-50">Add {selected.length} guest{selected.length===1?"":"s"}</button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+// Outreach stage, next follow-up and the communication log, edited as part of the guest.
+function GuestOutreachEditor({ guest, onChange, appearances, users, currentUser, today }:{
+  guest: Guest; onChange: (g: Guest)=>void; appearances: ReturnType<typeof guestAppearances>; users: User[]; currentUser: User; today: string;
+}){
+  const [entry, setEntry] = useState<Omit<GuestContact, "id">>({ on: today, channel: "email", summary: "" });
+  const add = () => {
+    if (!entry.summary.trim()) return;
+    onChange(logContact(guest, { ...entry, summary: entry.summary.trim(), byId: currentUser.id }));
+    setEntry({ on: today, channel: entry.channel, summary: "" });
+  };
+  const projectLabel = (id?: string) => {
+    const p = appearances.find(a=>a.project.id===id)?.project;
+    return p ? `${p.series} ${episodeLabel(p)}` : "";
+  };
+  return (
+    <div className="grid gap-3 p-3 rounded-xl bg-slate-900/60 border border-slate-800">
+      <div className="font-semibold">Outreach</div>
+      <div className="grid md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Stage</label>
+          <select value={outreachStage(guest)} onChange={e=>onChange({...guest, outreach: e.target.value as OutreachStage})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            {OUTREACH_STAGES.map(st=> <option key={st} value={st}>{OUTREACH_LABELS[st]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Follow up on</label>
+          <input type="date" value={guest.followUp?.due||""} onChange={e=>onChange({...guest, followUp: e.target.value ? { ...guest.followUp, due: e.target.value } : undefined})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+        </div>
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Reminder note</label>
+          <input value={guest.followUp?.note||""} disabled={!guest.followUp} onChange={e=>guest.followUp && onChange({...guest, followUp: { ...guest.followUp, note: e.target.value || undefined }})} placeholder="e.g. send prep notes" className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 disabled:opacity-50" />
+        </div>
+      </div>
       <div>
-        <div className="font-semibold">Pre‑production Checklist</div>
-        <div className="grid sm:grid-cols-2 md:grid-cols-4 gap-2 mt-2">
-          {([
-            ["research","Research"],
-            ["questions","Questions"],
-            ["equipment","Equipment"],
-            ["thumbnails","Thumbnails"],
-          ] as const).map(([k, label])=> (
-            <label key={k} className="flex items-center gap-2 p-2 rounded-xl bg-slate-900 border border-slate-800">
-              <input type="checkbox" checked={(draft.checklist as any)[k]} onChange={e=>setChecklist({[k]: e.target.checked} as any)} className="accent-blue-500"/>
-              <span>{label}</span>
-            </label>
+        <label className="block text-xs mb-1 text-slate-400">Communication log</label>
+        <div className="flex flex-wrap gap-2">
+          <input type="date" value={entry.on} onChange={e=>setEntry({...entry, on: e.target.value || today})} className="px-2 py-2 rounded-lg bg-slate-900 border border-slate-800 text-sm" />
+          <select value={entry.channel} onChange={e=>setEntry({...entry, channel: e.target.value as ContactChannel})} className="px-2 py-2 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+            {CONTACT_CHANNELS.map(c=> <option key={c} value={c}>{c}</option>)}
+          </select>
+          {appearances.length>0 && <select value={entry.projectId||""} onChange={e=>setEntry({...entry, projectId: e.target.value || undefined})} className="px-2 py-2 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+            <option value="">No episode</option>
+            {appearances.map(({ project })=> <option key={project.id} value={project.id}>{project.series} {episodeLabel(project)}: {project.title || "Untitled"}</option>)}
+          </select>}
+          <input value={entry.summary} onChange={e=>setEntry({...entry, summary: e.target.value})} onKeyDown={e=>e.key==="Enter" && add()} placeholder="What was said?" className="flex-1 min-w-[12rem] px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+          <button onClick={add} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Log</button>
+        </div>
+        <div className="mt-2 grid gap-1 text-sm max-h-48 overflow-auto">
+          {(guest.contactLog || []).map(c=> (
+            <div key={c.id} className="flex gap-2">
+              <span className="text-xs text-slate-400 whitespace-nowrap w-24">{c.on}</span>
+              <span className="text-xs text-slate-500 w-16">{c.channel}</span>
+              <span className="flex-1">{c.summary}{c.projectId && <span className="text-xs text-slate-400"> · {projectLabel(c.projectId) || "removed episode"}</span>}</span>
+              <span className="text-xs text-slate-500">{users.find(u=>u.id===c.byId)?.name}</span>
+              <button onClick={()=>onChange({...guest, contactLog: guest.contactLog!.filter(x=>x.id!==c.id)})} aria-label="Remove entry" className="text-slate-500 hover:text-white">✕</button>
+            </div>
           ))}
+          {!guest.contactLog?.length && <div className="text-xs text-slate-500">Nothing logged yet.</div>}
         </div>
       </div>
-
-      <div className="flex justify-end gap-2">
-        <button onClick={onSave} className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">Save</button>
-      </div>
     </div>
   );
 }
 
-function TeamPage({ users, setUsers, currentUser }:{ users: User[]; setUsers: React.Dispatch<React.SetStateAction<User[]>>; currentUser: User }){
-  const [name, setName] = useState("");
-  const [email, setEmail] = useState("");
-  const add = () => {
-    if (!name.trim() || !email.trim()) return;
-    const exists = users.some(u=>u.email.toLowerCase()===email.toLowerCase());
-    if (exists) return alert("Email already exists.");
-    const u: User = { id: uid("usr"), name, email, role: "member", createdAt: now() };
-    setUsers(prev => [...prev, u]); setName(""); setEmail(""); };
-  const del = (id: string) => { if (!confirm("Remove this user?")) return; setUsers(prev => prev.filter(u=>u.id!==id)); };
-  const promote = (id: string, role: "admin"|"member") => { setUsers(prev => prev.map(u=>u.id===id?{...u, role}:u)); };
-
+function GuestAppearances({ appearances }:{ appearances: ReturnType<typeof guestAppearances> }){
+  if (appearances.length===0) return <div className="mt-3 text-xs text-slate-500">No appearances yet.</div>;
   return (
-    <div className="grid gap-4">
-      <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
-        <div className="font-semibold mb-2">Add Team Member</div>
-        <div className="grid md:grid-cols-3 gap-2">
-          <input value={name} onChange={e=>setName(e.target.value)} placeholder="Name" className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700"/>
-          <input value={email} onChange={e=>setEmail(e.target.value)} placeholder="Email" className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700"/>
-          <button onClick={add} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500">Add</button>
-        </div>
-        <div className="text-xs text-slate-400 mt-2">Only admins can add/remove/promote. You are <b>{currentUser.role}</b>.</div>
-      </div>
-
-      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
-        {users.map(u=> (
-          <div key={u.id} className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="font-semibold">{u.name}</div>
-                <div className="text-xs text-slate-400">{u.email}</div>
-              </div>
-              <div className="text-xs px-2 py-1 rounded-full bg-slate-800 border border-slate-700">{u.role}</div>
-            </div>
-            <div className="mt-3 flex gap-2">
-              {currentUser.role==="admin" && (<>
-                {u.role!=="admin" && <button onClick={()=>promote(u.id, "admin")} className="px-3 py-2 rounded-lg bg-slate-800">Make Admin</button>}
-                {u.role!=="member" && <button onClick={()=>promote(u.id, "member")} className="px-3 py-2 rounded-lg bg-slate-800">Make Member</button>}
-                <button onClick={()=>del(u.id)} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600">Remove</button>
-              </>)}
-            </div>
-          </div>
+    <details className="mt-3 text-xs">
+      <summary className="cursor-pointer text-slate-300">{appearances.length} appearance{appearances.length===1?"":"s"}</summary>
+      <ul className="mt-1 grid gap-1 text-slate-400">
+        {appearances.map(({ project, role })=> (
+          <li key={project.id}>{project.series} · {episodeLabel(project)}: {project.title || "Untitled"}{role!=="guest" && ` (${role})`}</li>
         ))}
-      </div>
-    </div>
+      </ul>
+    </details>
   );
 }
 
-function GuestsPage({ guests, setGuests }:{ guests: Guest[]; setGuests: React.Dispatch<React.SetStateAction<Guest[]>> }){
+function GuestsPage({ guests, setGuests, projects, setProjects, users, currentUser, zones, notDupes = [], onNotDupesChange }:{
+  guests: Guest[]; setGuests: React.Dispatch<React.SetStateAction<Guest[]>>;
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  users: User[]; currentUser: User; zones: ZonePrefs;
+  notDupes?: string[]; onNotDupesChange: (pairs: string[])=>void;
+}){
+  const canEdit = can(currentUser, "guests.edit");
+  const canDelete = can(currentUser, "guests.delete");
   const [g, setG] = useState<Guest | null>(null);
   const [show, setShow] = useState(false);
+  const [view, setView] = useState<"directory"|"pipeline">("directory");
+  const [query, setQuery] = useState("");
+  const [stageFilter, setStageFilter] = useState<OutreachStage|"all">("all");
+  const [dueOnly, setDueOnly] = useState(false);
+  const [topic, setTopic] = useState("");
+  const [booked, setBooked] = useState<"any"|"none"|"once"|"repeat">("any");
+  const [sort, setSort] = useState<"name"|"recent"|"appearances">("name");
+  const [showDupes, setShowDupes] = useState(false);
+  const today = wallTimeIn(new Date(), zones.viewer).slice(0, 10);
+  const due = followUpsDue(guests, today);
+  const appearanceCount = useMemo(()=>{
+    const counts = new Map<string, number>();
+    projects.forEach(p=>p.participants.forEach(x=>counts.set(x.guestId, (counts.get(x.guestId) || 0) + 1)));
+    return (id: string) => counts.get(id) || 0;
+  }, [projects]);
+  const topics = useMemo(()=>uniqueBy(guests.flatMap(guestTopics), t=>t.toLowerCase()).sort((a,b)=>a.localeCompare(b)), [guests]);
+  const filtered = useMemo(()=>{
+    const n = (x: Guest) => appearanceCount(x.id);
+    const list = guests.filter(x=>
+      (stageFilter==="all" || outreachStage(x)===stageFilter) &&
+      (!dueOnly || (!!x.followUp?.due && x.followUp.due <= today)) &&
+      (!topic || guestTopics(x).some(t=>t.toLowerCase()===topic.toLowerCase())) &&
+      (booked==="any" || (booked==="none" ? n(x)===0 : booked==="once" ? n(x)===1 : n(x)>=2)) &&
+      guestMatches(x, query));
+    return list.sort((a,b)=> sort==="recent" ? b.createdAt-a.createdAt : sort==="appearances" ? n(b)-n(a) || a.name.localeCompare(b.name) : a.name.localeCompare(b.name));
+  }, [guests, query, stageFilter, dueOnly, topic, booked, sort, today, appearanceCount]);
+  const duplicates = useMemo(()=>findDuplicateGuests(guests).filter(d=>!notDupes.includes(`${d.a.id}|${d.b.id}`)), [guests, notDupes]);
+  const canMerge = canEdit && canDelete && can(currentUser, "projects.edit");
+  const importRef = useRef<HTMLInputElement|null>(null);
+  const [importing, setImporting] = useState<GuestImportSource | null>(null);
+  const pickImport = async (file?: File|null) => {
+    if (!file) return;
+    const text = await file.text();
+    if (/\.vcf$|\.vcard$/i.test(file.name) || /^\s*BEGIN:VCARD/i.test(text)) {
+      const candidates = parseVcards(text);
+      if (!candidates.length) return alert("No contacts found in that file.");
+      setImporting({ kind: "vcard", candidates });
+    } else {
+      const rows = parseCsv(text);
+      if (rows.length < 2) return alert("That CSV needs a header row and at least one guest.");
+      setImporting({ kind: "csv", headers: rows[0], rows: rows.slice(1) });
+    }
+  };
+  const exportVcards = async () => {
+    const photos: Record<string, string> = {};
+    for (const x of guests) {
+      const b = x.photoId && await getBlob(x.photoId);
+      if (b) photos[x.id] = await blobToDataUrl(b);
+    }
+    downloadFile("studiocast-guests.vcf", buildVcards(guests, photos), "text/vcard;charset=utf-8");
+  };
+  const merge = (keep: Guest, drop: Guest) => {
+    if (!canMerge) return;
+    if (!confirm(`Merge "${drop.name}" into "${keep.name}"? Their episodes move across and "${drop.name}" goes to the Trash.`)) return;
+    const merged = { ...mergeGuests(keep, drop), updatedAt: now() };
+    // The kept record may take over the photo; the trashed copy must not delete it when purged.
+    const leftover = merged.photoId === drop.photoId ? { ...drop, photoId: undefined } : drop;
+    setProjects(prev=>repointParticipants(prev, drop.id, keep.id));
+    setGuests(prev=>trashRecords(prev.map(x=>x.id===keep.id ? merged : x.id===drop.id ? leftover : x), [drop.id], currentUser.id));
+  };
+  // Quick edits from the pipeline and the reminders list save straight away.
+  const patchGuest = (id: string, patch: Partial<Guest>) => {
+    if (!canEdit) return;
+    setGuests(prev=>prev.map(x=>x.id===id ? {...x, ...patch, updatedAt: now()} : x));
+  };
   const fileInputRef = useRef<HTMLInputElement|null>(null);
 
-  const open = (guest?: Guest) => { setG(guest || { id: uid("gst"), name:"", createdAt: now() }); setShow(true); };
-  const save = () => { if(!g) return; if(!g.name.trim()) return alert("Name required"); setGuests(prev=> prev.some(x=>x.id===g.id)? prev.map(x=>x.id===g.id?g:x) : [g, ...prev]); setShow(false); setG(null); };
-  const del = (id: string) => { if(!confirm("Delete guest?")) return; setGuests(prev=> prev.filter(x=>x.id!==id)); };
+  // Photos picked while the modal is open; whichever one is not kept gets deleted from blob storage.
+  const pickedPhotos = useRef<string[]>([]);
+
+  const open = (guest?: Guest) => { if (!canEdit) return; pickedPhotos.current = []; setG(guest || { id: uid("gst"), name:"", createdAt: now() }); setShow(true); };
+  const close = () => { pickedPhotos.current.forEach(deleteBlob); pickedPhotos.current = []; setShow(false); setG(null); };
+  const save = () => {
+    if(!g || !canEdit) return; if(!g.name.trim()) return alert("Name required");
+    pickedPhotos.current = pickedPhotos.current.filter(id => id !== g.photoId);
+    const saved = {...g, updatedAt: now()};
+    setGuests(prev=> prev.some(x=>x.id===g.id)? prev.map(x=>x.id===g.id?saved:x) : [saved, ...prev]);
+    close();
+  };
+  const del = (id: string) => {
+    if (!canDelete) return alert("You don't have permission to delete guests.");
+    setGuests(prev=> trashRecords(prev, [id], currentUser.id));
+  };
 
   const onPickPhoto = async (file?: File|null) => {
     if (!file || !g) return;
-    const reader = new FileReader();
-    reader.onload = () => setG({...g, photoDataUrl: String(reader.result)});
-    reader.readAsDataURL(file);
+    const photoId = uid("photo");
+    if (!(await putBlob(photoId, file))) return alert("Could not store the photo — see the error banner for details.");
+    pickedPhotos.current.push(photoId);
+    setG(cur => cur && {...cur, photoId, photoDataUrl: undefined});
   };
 
   return (
     <div className="grid gap-4">
       <div className="flex justify-between items-center">
         <h2 className="text-lg font-semibold">Guest Directory</h2>
-        <button onClick={()=>open()} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500">New Guest</button>
+        <div className="flex gap-2">
+          <div className="flex gap-1 p-1 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+            {(["directory","pipeline"] as const).map(v=> (
+              <button key={v} onClick={()=>setView(v)} className={classNames("px-3 py-1 rounded-md capitalize", view===v?"bg-slate-800":"hover:bg-slate-800/60")}>{v}</button>
+            ))}
+          </div>
+          <button onClick={exportVcards} disabled={guests.length===0} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50">Export .vcf</button>
+          <button onClick={()=>downloadFile("studiocast-guests.csv", buildGuestsCsv(guests), "text/csv;charset=utf-8")} disabled={guests.length===0} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50">Export .csv</button>
+          {canEdit && <>
+            <button onClick={()=>importRef.current?.click()} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Import</button>
+            <input ref={importRef} type="file" accept=".vcf,.vcard,.csv,text/vcard,text/csv" className="hidden" onChange={e=>{ const file = e.target.files?.[0]; e.target.value = ""; pickImport(file); }} />
+            <button onClick={()=>open()} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500">New Guest</button>
+          </>}
+        </div>
+      </div>
+      {importing && <GuestImportDialog source={importing} guests={guests} setGuests={setGuests} onClose={()=>setImporting(null)} />}
+
+      {due.length>0 && (
+        <div className="p-3 rounded-2xl bg-amber-900/20 border border-amber-800 text-sm grid gap-2">
+          <div className="font-semibold text-amber-200">Follow-ups due</div>
+          {due.map(x=> (
+            <div key={x.id} className="flex flex-wrap items-center gap-2">
+              <span className={classNames("text-xs", x.followUp!.due < today ? "text-red-300 font-semibold" : "text-amber-300")}>{x.followUp!.due < today ? `Overdue · ${x.followUp!.due}` : "Today"}</span>
+              <span className="font-medium">{x.name}</span>
+              {x.followUp!.note && <span className="text-slate-400">— {x.followUp!.note}</span>}
+              {canEdit && <div className="ml-auto flex gap-2">
+                <button onClick={()=>open(x)} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Log contact</button>
+                <button onClick={()=>patchGuest(x.id, {followUp: undefined})} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Dismiss</button>
+              </div>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-2 md:items-end">
+        <div className="flex-1">
+          <label className="text-xs text-slate-400">Search</label>
+          <input value={query} onChange={e=>setQuery(e.target.value)} placeholder="name, company, bio, topics" className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800 focus:outline-none focus:ring focus:ring-blue-600"/>
+        </div>
+        <div>
+          <label className="text-xs text-slate-400">Outreach</label>
+          <select value={stageFilter} onChange={e=>setStageFilter(e.target.value as any)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="all">All</option>
+            {OUTREACH_STAGES.map(st=> <option key={st} value={st}>{OUTREACH_LABELS[st]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-400">Topic</label>
+          <select value={topic} onChange={e=>setTopic(e.target.value)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="">All</option>
+            {topics.map(t=> <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-400">Appearances</label>
+          <select value={booked} onChange={e=>setBooked(e.target.value as any)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="any">Any</option>
+            <option value="none">Not booked yet</option>
+            <option value="once">Once</option>
+            <option value="repeat">Repeat (2+)</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-400">Sort</label>
+          <select value={sort} onChange={e=>setSort(e.target.value as any)} className="px-3 py-2 rounded-lg bg-slate-900 border border-slate-800">
+            <option value="name">Name</option>
+            <option value="recent">Recently added</option>
+            <option value="appearances">Most appearances</option>
+          </select>
+        </div>
+        <label className="flex items-center gap-2 px-3 py-2 text-sm">
+          <input type="checkbox" checked={dueOnly} onChange={e=>setDueOnly(e.target.checked)} className="accent-blue-500" />
+          Follow-up due
+        </label>
       </div>
+
+      {duplicates.length>0 && (
+        <div className="p-3 rounded-2xl bg-slate-900 border border-slate-800 text-sm grid gap-2">
+          <button onClick={()=>setShowDupes(v=>!v)} className="text-left font-semibold">
+            {showDupes ? "▾" : "▸"} {duplicates.length} possible duplicate{duplicates.length===1?"":"s"}
+          </button>
+          {showDupes && duplicates.map(({ a, b, reason })=> (
+            <div key={`${a.id}|${b.id}`} className="flex flex-wrap items-center gap-2 p-2 rounded-xl bg-slate-950/60 border border-slate-800">
+              <span className="font-medium">{a.name}</span>
+              <span className="text-slate-500">&amp;</span>
+              <span className="font-medium">{b.name}</span>
+              <span className="text-xs text-slate-400">{reason==="email" ? (a.email?.trim().toLowerCase()===b.email?.trim().toLowerCase() ? `same email (${a.email})` : `similar emails (${a.email}, ${b.email})`) : "similar names"} · {appearanceCount(a.id)} + {appearanceCount(b.id)} appearances</span>
+              {canMerge && <div className="ml-auto flex gap-2">
+                <button onClick={()=>merge(a, b)} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Keep {a.name}</button>
+                <button onClick={()=>merge(b, a)} className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Keep {b.name}</button>
+              </div>}
+              <button onClick={()=>onNotDupesChange([...notDupes, `${a.id}|${b.id}`])} className={classNames("px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs", !canMerge && "ml-auto")}>Not a duplicate</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {view==="pipeline" ? (
+        <div className="grid md:grid-cols-3 xl:grid-cols-6 gap-3">
+          {OUTREACH_STAGES.filter(st=>stageFilter==="all" || st===stageFilter).map((st, i)=> {
+            const column = filtered.filter(x=>outreachStage(x)===st);
+            return (
+              <section key={st} aria-label={`${OUTREACH_LABELS[st]} guests`} className="p-2 rounded-2xl bg-slate-900/60 border border-slate-800 grid content-start gap-2 min-h-[10rem]">
+                <div className="flex items-center justify-between px-1">
+                  <span className={classNames("text-xs px-2 py-1 rounded-full font-medium", OUTREACH_BADGE[st])}>{OUTREACH_LABELS[st]}</span>
+                  <span className="text-xs text-slate-400">{column.length}</span>
+                </div>
+                {column.map(x=> {
+                  const bookings = guestAppearances(projects, x.id);
+                  const stageIndex = OUTREACH_STAGES.indexOf(st);
+                  return (
+                    <div key={x.id} className="p-3 rounded-xl bg-slate-900 border border-slate-800 text-sm grid gap-1">
+                      <button onClick={()=>open(x)} disabled={!canEdit} className="text-left font-medium hover:underline disabled:no-underline">{x.name}</button>
+                      {x.company && <div className="text-xs text-slate-400">{x.company}</div>}
+                      {bookings.map(({ project, role })=> (
+                        <div key={project.id} className="text-xs text-slate-400">🎙 {project.series} {episodeLabel(project)}{role!=="guest" && ` (${role})`}{project.scheduledRecordAt && ` · ${formatInZone(project.scheduledRecordAt.at, zones.viewer, true)}`}</div>
+                      ))}
+                      {x.followUp && <div className={classNames("text-xs", x.followUp.due < today ? "text-red-300" : "text-amber-300")}>Follow up {x.followUp.due}</div>}
+                      {x.contactLog?.[0] && <div className="text-xs text-slate-500 truncate">Last: {x.contactLog[0].on} · {x.contactLog[0].channel}</div>}
+                      {canEdit && <div className="flex gap-1 mt-1">
+                        <button onClick={()=>patchGuest(x.id, {outreach: OUTREACH_STAGES[stageIndex-1]})} disabled={stageIndex===0} aria-label={`Move ${x.name} back`} className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40">←</button>
+                        <button onClick={()=>patchGuest(x.id, {outreach: OUTREACH_STAGES[stageIndex+1]})} disabled={stageIndex===OUTREACH_STAGES.length-1} aria-label={`Move ${x.name} forward`} className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40">→</button>
+                      </div>}
+                    </div>
+                  );
+                })}
+              </section>
+            );
+          })}
+        </div>
+      ) : (
       <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
-        {guests.map(x=> (
+        {filtered.map(x=> (
           <div key={x.id} className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
             <div className="flex items-center gap-3">
-              {x.photoDataUrl && <img src={x.photoDataUrl} alt="guest" className="w-12 h-12 rounded-full object-cover" />}
-              <div>
+              <GuestPhoto guest={x} className="w-12 h-12 rounded-full" />
+              <div className="flex-1">
                 <div className="font-semibold">{x.name}</div>
                 <div className="text-xs text-slate-400">{x.company || "—"}</div>
               </div>
+              <span className={classNames("text-xs px-2 py-1 rounded-full font-medium", OUTREACH_BADGE[outreachStage(x)])}>{OUTREACH_LABELS[outreachStage(x)]}</span>
             </div>
+            {x.followUp && <div className={classNames("mt-2 text-xs", x.followUp.due <= today ? "text-red-300" : "text-slate-400")}>Follow up {x.followUp.due}{x.followUp.note && ` — ${x.followUp.note}`}</div>}
+            <GuestAppearances appearances={guestAppearances(projects, x.id)} />
             <div className="mt-3 flex gap-2">
-              <button onClick={()=>open(x)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Edit</button>
-              <button onClick={()=>del(x.id)} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600 text-sm">Delete</button>
+              {canEdit && <button onClick={()=>open(x)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Edit</button>}
+              {canDelete && <button onClick={()=>del(x.id)} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600 text-sm">Delete</button>}
             </div>
           </div>
         ))}
         {guests.length===0 && <div className="text-slate-400">No guests yet — add them above.</div>}
+        {guests.length>0 && filtered.length===0 && <div className="text-slate-400">No guests match these filters.</div>}
       </div>
+      )}
 
       {show && g && (
-        <Modal onClose={()=>{setShow(false); setG(null);}} title={g.name?`Edit: ${g.name}`:"New Guest"}>
+        <Modal onClose={close} title={g.name?`Edit: ${g.name}`:"New Guest"}>
           <div className="grid gap-4">
             <div className="grid md:grid-cols-3 gap-4">
               <div className="md:col-span-2">
@@ -821,8 +5866,8 @@ function GuestsPage({ guests, setGuests }:{ guests: Guest[]; setGuests: React.Di
                 <button onClick={()=>fileInputRef.current?.click()} className="w-full px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Pick Photo</button>
               </div>
             </div>
-            {g.photoDataUrl && <div className="flex justify-center"><img src={g.photoDataUrl} alt="preview" className="w-24 h-24 rounded-full object-cover" /></div>}
-            <div className="grid md:grid-cols-2 gap-4">
+            {(g.photoId || g.photoDataUrl) && <div className="flex justify-center"><GuestPhoto guest={g} className="w-24 h-24 rounded-full" /></div>}
+            <div className="grid md:grid-cols-3 gap-4">
               <div>
                 <label className="block text-xs mb-1 text-slate-400">Company</label>
                 <input value={g.company||""} onChange={e=>setG({...g, company:e.target.value})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
@@ -831,6 +5876,10 @@ function GuestsPage({ guests, setGuests }:{ guests: Guest[]; setGuests: React.Di
                 <label className="block text-xs mb-1 text-slate-400">Email</label>
                 <input value={g.email||""} onChange={e=>setG({...g, email:e.target.value})} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
               </div>
+              <div>
+                <label className="block text-xs mb-1 text-slate-400">Time zone</label>
+                <TimeZoneSelect value={g.timezone} onChange={tz=>setG({...g, timezone: tz || undefined})} emptyLabel="— Unknown —" className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
+              </div>
             </div>
             <div>
               <label className="block text-xs mb-1 text-slate-400">Bio</label>
@@ -852,6 +5901,7 @@ function GuestsPage({ guests, setGuests }:{ guests: Guest[]; setGuests: React.Di
               <label className="block text-xs mb-1 text-slate-400">Notes</label>
               <textarea value={g.notes||""} onChange={e=>setG({...g, notes:e.target.value})} rows={2} className="w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-800" />
             </div>
+            <GuestOutreachEditor guest={g} onChange={setG} appearances={guestAppearances(projects, g.id)} users={users} currentUser={currentUser} today={today} />
             <div className="flex justify-end gap-2">
               <button onClick={save} className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 font-semibold">Save</button>
             </div>
@@ -862,29 +5912,535 @@ function GuestsPage({ guests, setGuests }:{ guests: Guest[]; setGuests: React.Di
   );
 }
 
-function SettingsPage({ testResults, settings, setSettings }:{
+function TrashPage({ users, setUsers, projects, setProjects, guests, setGuests, currentUser }:{
+  users: User[]; setUsers: React.Dispatch<React.SetStateAction<User[]>>;
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  guests: Guest[]; setGuests: React.Dispatch<React.SetStateAction<Guest[]>>;
+  currentUser: User;
+}){
+  const nameOf = (id?: string) => users.find(u=>u.id===id)?.name || "someone";
+  const purgeGuests = (ids: string[]) => setGuests(prev=>prev.filter(g=>!ids.includes(g.id)));
+  const restoreUser = (id: string) => {
+    const u = users.find(x=>x.id===id);
+    if (u && users.some(x=>isLive(x) && x.id!==id && x.email.toLowerCase()===u.email.toLowerCase())) return alert(`${u.email} belongs to another team member now.`);
+    setUsers(prev=>restoreRecords(prev, [id]));
+  };
+
+  const sections = [
+    can(currentUser, "projects.delete") && {
+      title: "Projects",
+      items: projects.filter(p=>!isLive(p)).map(p=>({ id: p.id, label: activityLabel("project", p), deletedAt: p.deletedAt!, deletedBy: p.deletedBy })),
+      restore: (id: string) => setProjects(prev=>restoreRecords(prev, [id])),
+      purge: (ids: string[]) => setProjects(prev=>prev.filter(p=>!ids.includes(p.id))),
+    },
+    can(currentUser, "guests.delete") && {
+      title: "Guests",
+      items: guests.filter(g=>!isLive(g)).map(g=>({ id: g.id, label: activityLabel("guest", g), deletedAt: g.deletedAt!, deletedBy: g.deletedBy })),
+      restore: (id: string) => setGuests(prev=>restoreRecords(prev, [id])),
+      purge: purgeGuests,
+    },
+    can(currentUser, "team.manage") && {
+      title: "Team members",
+      items: users.filter(u=>!isLive(u)).map(u=>({ id: u.id, label: `${u.name} · ${u.email}`, deletedAt: u.deletedAt!, deletedBy: u.deletedBy })),
+      restore: restoreUser,
+      purge: (ids: string[]) => setUsers(prev=>prev.filter(u=>!ids.includes(u.id))),
+    },
+  ].filter(x=>!!x);
+  const total = sections.reduce((n, x)=>n + x.items.length, 0);
+
+  const purgeOne = (section: typeof sections[number], id: string, label: string) => {
+    if (confirm(`Permanently delete ${label}? This cannot be undone from the Trash.`)) section.purge([id]);
+  };
+  const emptyTrash = () => {
+    if (!confirm(`Permanently delete all ${total} items in the Trash?`)) return;
+    sections.forEach(x=>{ if (x.items.length) x.purge(x.items.map(i=>i.id)); });
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold">Trash</h2>
+          <p className="text-xs text-slate-400">Deleted items stay here until restored or permanently deleted.</p>
+        </div>
+        {total>0 && <button onClick={emptyTrash} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600 text-sm">Empty Trash</button>}
+      </div>
+      {sections.map(section=> (
+        <section key={section.title}>
+          <h3 className="text-sm font-semibold text-slate-300 mb-2">{section.title}</h3>
+          <div className="grid gap-2">
+            {section.items.sort((a,b)=>b.deletedAt-a.deletedAt).map(item=> (
+              <div key={item.id} className="p-3 rounded-xl bg-slate-900 border border-slate-800 flex items-center justify-between gap-3">
+                <div>
+                  <div className="text-sm">{item.label}</div>
+                  <div className="text-xs text-slate-500">Deleted by {nameOf(item.deletedBy)} · {new Date(item.deletedAt).toLocaleString()}</div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={()=>section.restore(item.id)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm">Restore</button>
+                  <button onClick={()=>purgeOne(section, item.id, item.label)} className="px-3 py-2 rounded-lg bg-red-600/80 hover:bg-red-600 text-sm">Delete Forever</button>
+                </div>
+              </div>
+            ))}
+            {section.items.length===0 && <div className="text-slate-500 text-sm">Nothing here.</div>}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function SettingsPage({ testResults, settings, setSettings, users, setUsers, projects, setProjects, guests, setGuests, series, setSeries, sync, currentUser }:{
   testResults: { name: string; ok: boolean; message?: string }[];
-  settings: { openaiKey?: string; enableChat?: boolean };
-  setSettings: React.Dispatch<React.SetStateAction<{ openaiKey?: string; enableChat?: boolean }>>;
+  settings: Settings;
+  setSettings: React.Dispatch<React.SetStateAction<Settings>>;
+  users: User[]; setUsers: React.Dispatch<React.SetStateAction<User[]>>;
+  projects: Project[]; setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  guests: Guest[]; setGuests: React.Dispatch<React.SetStateAction<Guest[]>>;
+  series: Series[]; setSeries: React.Dispatch<React.SetStateAction<Series[]>>;
+  sync: SyncHandle;
+  currentUser: User;
 }){
   return (
     <div className="grid gap-6">
-      <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
-        <div className="font-semibold mb-2">AI Research Assistant</div>
-        <div className="grid gap-4">
-          <label className="flex items-center gap-2">
-            <input type="checkbox" checked={!!settings.enableChat} onChange={e=>setSettings(prev=>({...prev, enableChat:e.target.checked}))} className="accent-blue-500" />
-            <span>Enable Research Chat panel</span>
-          </label>
+      <AccountPanel currentUser={currentUser} setUsers={setUsers} />
+
+      {can(currentUser, "settings.workspace") ? (<>
+        <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+          <div className="font-semibold mb-2">Studio</div>
+          <label className="block text-xs mb-1 text-slate-400">Studio time zone — new sessions are planned in this zone and times are always shown in it</label>
+          <TimeZoneSelect value={settings.studioTimezone} onChange={tz=>setSettings(prev=>({...prev, studioTimezone: tz || undefined}))} emptyLabel={`Browser default (${browserTimeZone()})`} className="w-full md:w-96 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm" />
+        </div>
+
+        <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+          <div className="font-semibold mb-2">AI Research Assistant</div>
+          <div className="grid gap-4">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={!!settings.enableChat} onChange={e=>setSettings(prev=>({...prev, enableChat:e.target.checked}))} className="accent-blue-500" />
+              <span>Enable Research Chat panel</span>
+            </label>
+            <div>
+              <label className="block text-xs mb-1 text-slate-400">OpenAI API Key (optional)</label>
+              <input type="password" value={settings.openaiKey||""} onChange={e=>setSettings(prev=>({...prev, openaiKey:e.target.value}))} placeholder="sk-…" className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+              <div className="text-xs text-slate-400 mt-1">Stored locally only. Used for research chat.</div>
+            </div>
+          </div>
+        </div>
+
+        <WorkflowPanel workflow={normalizeWorkflow(settings.workflow)} projects={projects} onChange={(workflow)=>setSettings(prev=>({...prev, workflow}))} />
+
+        <SsoPanel config={settings.oidc} onChange={(oidc)=>setSettings(prev=>({...prev, oidc}))} />
+
+        <SyncPanel config={settings.sync || {}} onChange={(patch)=>setSettings(prev=>({...prev, sync: {...prev.sync, ...patch}}))} sync={sync} />
+
+        <StoragePanel blobIds={[...guests.map(g=>g.photoId), ...series.map(x=>x.artworkId), ...attachmentBlobIds(projects)].filter((x): x is string => !!x)} />
+
+        <BackupPanel
+          workspace={{ users, projects, guests, series, settings, seqMap: load<Record<string, number>>(LS_KEYS.seqMap, {}) }}
+          onRestore={(ws)=>{ setUsers(ws.users); setProjects(ws.projects); setGuests(ws.guests); setSeries(ws.series); setSettings(ws.settings); save(LS_KEYS.seqMap, ws.seqMap); }}
+        />
+      </>) : (
+        <div className="text-sm text-slate-400">Workspace settings (research chat, workflow, sign-in, sync, storage, backups) are managed by admins.</div>
+      )}
+
+      <TestResultsPanel results={testResults} />
+    </div>
+  );
+}
+
+function AccountPanel({ currentUser, setUsers }:{ currentUser: User; setUsers: React.Dispatch<React.SetStateAction<User[]>> }){
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [message, setMessage] = useState("");
+  const change = async () => {
+    setMessage("");
+    if (currentUser.passwordHash && !(await verifyPassword(current, currentUser.passwordHash))) return setMessage("Current password is wrong.");
+    const problem = passwordProblem(next);
+    if (problem) return setMessage(problem);
+    const passwordHash = await hashPassword(next);
+    setUsers(prev => prev.map(u=>u.id===currentUser.id?{...u, passwordHash}:u));
+    setCurrent(""); setNext(""); setMessage("Password updated.");
+  };
+  return (
+    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+      <div className="font-semibold mb-2">Account</div>
+      <div className="text-xs text-slate-400 mb-3">{currentUser.email}{currentUser.oidcSubject ? " · linked to SSO" : ""} · session ends {new Date(getSession().expiresAt || now()).toLocaleString()}</div>
+      <div className="grid md:grid-cols-3 gap-2 text-sm">
+        {currentUser.passwordHash && <input type="password" value={current} onChange={e=>setCurrent(e.target.value)} placeholder="Current password" className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700"/>}
+        <input type="password" value={next} onChange={e=>setNext(e.target.value)} placeholder="New password" className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700"/>
+        <button onClick={change} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">{currentUser.passwordHash ? "Change Password" : "Set Password"}</button>
+      </div>
+      {message && <div className="text-xs mt-2 text-slate-300">{message}</div>}
+      <div className="mt-4 grid md:grid-cols-3 gap-2 text-sm items-center">
+        <label className="text-xs text-slate-400">Show times in</label>
+        <TimeZoneSelect value={currentUser.timezone} onChange={tz=>setUsers(prev => prev.map(u=>u.id===currentUser.id?{...u, timezone: tz || undefined}:u))} emptyLabel={`Browser default (${browserTimeZone()})`} className="md:col-span-2 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+      </div>
+    </div>
+  );
+}
+
+// Stages in use can't be removed; move their projects elsewhere first.
+function WorkflowPanel({ workflow, projects, onChange }:{ workflow: Workflow; projects: Project[]; onChange: (w?: Workflow)=>void }){
+  const [newLabel, setNewLabel] = useState("");
+  const stages = workflow.stages;
+  const inUse = (id: Status) => projects.filter(p=>p.status===id).length;
+  const setStages = (next: WorkflowStage[]) => onChange({ stages: next });
+  const update = (id: Status, patch: Partial<WorkflowStage>) => setStages(stages.map(s=>s.id===id ? {...s, ...patch} : s));
+  const toggle = <T,>(list: T[], x: T) => list.includes(x) ? list.filter(y=>y!==x) : [...list, x];
+  const moveStage = (i: number, by: number) => {
+    const next = [...stages]; const [st] = next.splice(i, 1); next.splice(i + by, 0, st); setStages(next);
+  };
+  const remove = (id: Status) => setStages(stages.filter(s=>s.id!==id).map(s=>({...s, next: s.next.filter(n=>n!==id)})));
+  const add = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    const id = stageIdFor(label, stages.map(s=>s.id));
+    const last = stages[stages.length-1];
+    setStages([...stages.map(s=>s.id===last.id ? {...s, next: [...s.next, id]} : s), { id, label, kind: "active", color: "cyan", next: [last.id], guards: [] }]);
+    setNewLabel("");
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-semibold">Workflow</div>
+        <button onClick={()=>confirm("Reset the workflow to Draft → Active → Completed → Archived?") && onChange(undefined)} disabled={stages.some(s=>!DEFAULT_WORKFLOW.stages.some(d=>d.id===s.id) && inUse(s.id)>0)} className="px-3 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs disabled:opacity-50">Reset to default</button>
+      </div>
+      <div className="grid gap-3 text-sm">
+        {stages.map((st, i)=> (
+          <div key={st.id} className="p-3 rounded-xl bg-slate-950 border border-slate-800 grid gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={classNames("text-xs px-2 py-1 rounded-full font-medium", badgeColor(st))}>{st.label}</span>
+              <input value={st.label} onChange={e=>update(st.id, {label: e.target.value})} aria-label="Stage name" className="w-40 px-2 py-1 rounded-lg bg-slate-800 border border-slate-700" />
+              <select value={st.color} onChange={e=>update(st.id, {color: e.target.value as StageColor})} aria-label="Colour" className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700">
+                {STAGE_COLORS.map(c=> <option key={c} value={c}>{c}</option>)}
+              </select>
+              <label className="text-xs text-slate-400">counts as</label>
+              <select value={st.kind} onChange={e=>update(st.id, {kind: e.target.value as StageKind})} className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700">
+                {STAGE_KINDS.map(k=> <option key={k} value={k}>{k}</option>)}
+              </select>
+              <span className="text-xs text-slate-500">{inUse(st.id)} project{inUse(st.id)===1?"":"s"}</span>
+              <div className="ml-auto flex gap-1">
+                <button onClick={()=>moveStage(i, -1)} disabled={i===0} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40">↑</button>
+                <button onClick={()=>moveStage(i, 1)} disabled={i===stages.length-1} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40">↓</button>
+                <button onClick={()=>remove(st.id)} disabled={stages.length===1 || inUse(st.id)>0} title={inUse(st.id) ? "Move its projects to another stage first" : undefined} className="px-2 py-1 rounded bg-red-900/30 hover:bg-red-900/50 text-red-300 disabled:opacity-40">Remove</button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+              <span className="text-slate-400">Can move to:</span>
+              {stages.filter(o=>o.id!==st.id).map(o=> (
+                <label key={o.id} className="flex items-center gap-1">
+                  <input type="checkbox" checked={st.next.includes(o.id)} onChange={()=>update(st.id, {next: toggle(st.next, o.id)})} className="accent-blue-500" />{o.label}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+              <span className="text-slate-400">To enter, needs:</span>
+              {(Object.keys(WORKFLOW_GUARDS) as WorkflowGuard[]).map(g=> (
+                <label key={g} className="flex items-center gap-1">
+                  <input type="checkbox" checked={st.guards.includes(g)} onChange={()=>update(st.id, {guards: toggle(st.guards, g)})} className="accent-blue-500" />{WORKFLOW_GUARDS[g].label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <input value={newLabel} onChange={e=>setNewLabel(e.target.value)} onKeyDown={e=>e.key==="Enter" && add()} placeholder="New stage, e.g. Editing" className="flex-1 md:flex-none md:w-64 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+          <button onClick={add} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Add stage</button>
+        </div>
+      </div>
+      <div className="text-xs text-slate-400 mt-2">New projects start in the first stage. “Counts as” decides how a stage shows up on the dashboard, calendar and in calendar feeds.</div>
+    </div>
+  );
+}
+
+// A series' checklist template; `undefined` means the series uses the default template.
+function ChecklistTemplateEditor({ custom, users, onChange }:{
+  custom?: ChecklistTemplateItem[]; users: User[]; onChange: (items?: ChecklistTemplateItem[])=>void;
+}){
+  const [newLabel, setNewLabel] = useState("");
+  const items = custom ?? DEFAULT_CHECKLIST_TEMPLATE;
+  const setItems = (next: ChecklistTemplateItem[]) => onChange(next);
+  const update = (id: string, patch: Partial<ChecklistTemplateItem>) => setItems(items.map(t=>t.id===id ? {...t, ...patch} : t));
+  const moveItem = (i: number, by: number) => {
+    const next = [...items]; const [t] = next.splice(i, 1); next.splice(i + by, 0, t); setItems(next);
+  };
+  const add = () => {
+    if (!newLabel.trim()) return;
+    setItems([...items, { id: uid("chk"), label: newLabel.trim() }]);
+    setNewLabel("");
+  };
+
+  return (
+    <div>
+      <div className="grid gap-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-400">{custom ? "Custom template" : "Uses the default template"}</span>
+          {custom && <button onClick={()=>onChange(undefined)} className="ml-auto px-3 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">Use default</button>}
+        </div>
+        {items.map((t, i)=> (
+          <div key={t.id} className="flex flex-wrap items-center gap-2 p-2 rounded-xl bg-slate-950 border border-slate-800">
+            <input value={t.label} onChange={e=>update(t.id, {label: e.target.value})} aria-label="Item" className="flex-1 min-w-[10rem] px-2 py-1 rounded-lg bg-slate-800 border border-slate-700" />
+            <select value={t.assigneeId||""} onChange={e=>update(t.id, {assigneeId: e.target.value || undefined})} aria-label="Default assignee" className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700 text-xs">
+              <option value="">Unassigned</option>
+              {users.map(u=> <option key={u.id} value={u.id}>{u.name}</option>)}
+            </select>
+            <label className="text-xs text-slate-400 flex items-center gap-1">
+              due
+              <input type="number" min={0} value={t.dueDaysBefore ?? ""} onChange={e=>update(t.id, {dueDaysBefore: e.target.value==="" ? undefined : Math.max(0, Math.floor(Number(e.target.value)))})} className="w-14 px-2 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-200" />
+              days before recording
+            </label>
+            <div className="flex gap-1">
+              <button onClick={()=>moveItem(i, -1)} disabled={i===0} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40">↑</button>
+              <button onClick={()=>moveItem(i, 1)} disabled={i===items.length-1} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40">↓</button>
+              <button onClick={()=>setItems(items.filter(x=>x.id!==t.id))} className="px-2 py-1 rounded bg-red-900/30 hover:bg-red-900/50 text-red-300">Remove</button>
+            </div>
+          </div>
+        ))}
+        {items.length===0 && <div className="text-xs text-slate-400">No checklist for episodes of this series.</div>}
+        <div className="flex gap-2">
+          <input value={newLabel} onChange={e=>setNewLabel(e.target.value)} onKeyDown={e=>e.key==="Enter" && add()} placeholder="New item, e.g. Guest release signed" className="flex-1 md:flex-none md:w-64 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+          <button onClick={add} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Add item</button>
+        </div>
+      </div>
+      <div className="text-xs text-slate-400 mt-2">New episodes of a series get a copy of its template. Editing a template doesn't change existing episodes.</div>
+    </div>
+  );
+}
+
+function SsoPanel({ config, onChange }:{ config?: OidcConfig; onChange: (cfg?: OidcConfig)=>void }){
+  const cfg = config || { issuer: "", clientId: "" };
+  const set = (patch: Partial<OidcConfig>) => {
+    const nextCfg = { ...cfg, ...patch };
+    onChange(nextCfg.issuer || nextCfg.clientId ? nextCfg : undefined);
+  };
+  return (
+    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+      <div className="font-semibold mb-2">Single Sign-On (OpenID Connect)</div>
+      <div className="grid md:grid-cols-3 gap-3 text-sm">
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Issuer URL</label>
+          <input value={cfg.issuer} onChange={e=>set({issuer:e.target.value.trim()})} placeholder="https://login.example.com" className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+        </div>
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Client ID</label>
+          <input value={cfg.clientId} onChange={e=>set({clientId:e.target.value.trim()})} className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+        </div>
+        <div>
+          <label className="block text-xs mb-1 text-slate-400">Redirect URI (optional)</label>
+          <input value={cfg.redirectUri||""} onChange={e=>set({redirectUri:e.target.value.trim()||undefined})} placeholder={`${location.origin}${location.pathname}`} className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+        </div>
+      </div>
+      <div className="text-xs text-slate-400 mt-2">Register this app as a public client with PKCE. SSO identities sign in to the team member with the same email.</div>
+    </div>
+  );
+}
+
+function SyncPanel({ config, onChange, sync }:{ config: SyncConfig; onChange: (patch: Partial<SyncConfig>)=>void; sync: SyncHandle }){
+  const describe = (r?: SyncRecord) => !r ? "deleted" : "title" in r ? (r.title || "Untitled") : r.name;
+  return (
+    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+      <div className="font-semibold mb-2">Team Sync</div>
+      <div className="grid gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={!!config.enabled} onChange={e=>onChange({enabled:e.target.checked})} className="accent-blue-500" />
+          <span>Sync projects, guests and series with a server</span>
+        </label>
+        <div className="grid md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs mb-1 text-slate-400">Endpoint</label>
+            <input value={config.endpoint||""} onChange={e=>onChange({endpoint:e.target.value.trim()})} placeholder="http://localhost:8787" className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
+          </div>
           <div>
-            <label className="block text-xs mb-1 text-slate-400">OpenAI API Key (optional)</label>
-            <input type="password" value={settings.openaiKey||""} onChange={e=>setSettings(prev=>({...prev, openaiKey:e.target.value}))} placeholder="sk-…" className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
-            <div className="text-xs text-slate-400 mt-1">Stored locally only. Used for research chat.</div>
+            <label className="block text-xs mb-1 text-slate-400">Access token (optional)</label>
+            <input type="password" value={config.token||""} onChange={e=>onChange({token:e.target.value})} className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700" />
           </div>
         </div>
+        <div className="flex items-center gap-3">
+          <button onClick={sync.syncNow} disabled={sync.status==="off"} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50">Sync now</button>
+          <span className="text-xs text-slate-400">
+            {sync.pending} pending · {sync.lastSyncedAt ? `last synced ${new Date(sync.lastSyncedAt).toLocaleString()}` : "never synced"}
+            {sync.error && <span className="text-red-300"> · {sync.error}</span>}
+          </span>
+        </div>
+        {sync.conflicts.length>0 && (
+          <div className="grid gap-2">
+            <div className="text-amber-300">Changed on the server since your edit:</div>
+            {sync.conflicts.map(c=> (
+              <div key={syncKey(c.mutation)} className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-amber-800/60 bg-amber-900/20">
+                <div className="text-xs">
+                  <span className="capitalize">{c.mutation.entity}</span> · yours: <b>{c.mutation.op==="delete"?"deleted":describe(c.mutation.record)}</b> · server: <b>{c.remoteDeleted?"deleted":describe(c.remote)}</b>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={()=>sync.resolve(c, "mine")} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs">Keep mine</button>
+                  <button onClick={()=>sync.resolve(c, "theirs")} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs">Use server</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
+    </div>
+  );
+}
 
-      <TestResultsPanel results={testResults} />
+function StoragePanel({ blobIds }:{ blobIds: string[] }){
+  const [backend, setBackend] = useState<StorageBackend>(storage.name);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const change = async (target: StorageBackend) => {
+    if (target === backend) return;
+    setBusy(true); setMessage("");
+    try {
+      await flushStorage();
+      await switchBackend(target, blobIds);
+      setBackend(target); setMessage(`Workspace copied to ${target}.`);
+    } catch (e: any) {
+      setMessage(`Could not switch: ${e?.message || String(e)}`);
+    } finally { setBusy(false); }
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+      <div className="font-semibold mb-2">Storage</div>
+      <div className="flex items-center gap-3 text-sm">
+        <label className="text-slate-400">Backend</label>
+        <select value={backend} disabled={busy} onChange={e=>change(e.target.value as StorageBackend)} className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700">
+          <option value="indexedDB" disabled={!hasIndexedDb()}>IndexedDB (recommended)</option>
+          <option value="localStorage">localStorage</option>
+        </select>
+        {busy && <span className="text-slate-400">Copying…</span>}
+      </div>
+      <div className="text-xs text-slate-400 mt-2">IndexedDB holds far more data than localStorage, including guest photos. Switching copies everything to the new backend.</div>
+      {message && <div className="text-xs mt-2 text-slate-300">{message}</div>}
+    </div>
+  );
+}
+
+function BackupPanel({ workspace, onRestore }:{ workspace: Workspace; onRestore: (ws: Workspace)=>void }){
+  const [exportSecrets, setExportSecrets] = useState(false);
+  // Recordings are base64 inside the JSON and can run to gigabytes, so they are opt-in.
+  const [exportAudio, setExportAudio] = useState(false);
+  const recordings = workspace.projects.flatMap(p=>p.attachments || []);
+  const [bundle, setBundle] = useState<WorkspaceBundle | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [preferIncoming, setPreferIncoming] = useState(false);
+  const [importSecrets, setImportSecrets] = useState(false);
+  const [error, setError] = useState("");
+  const [report, setReport] = useState<ImportResult | null>(null);
+  const [failedBlobs, setFailedBlobs] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement|null>(null);
+
+  const doExport = async () => {
+    const data = buildBackup(workspace, { includeSecrets: exportSecrets });
+    const blobs: Record<string, string> = {};
+    for (const id of [...workspace.guests.map(g=>g.photoId), ...workspace.series.map(x=>x.artworkId), ...(exportAudio ? attachmentBlobIds(workspace.projects) : [])]) {
+      const b = id && await getBlob(id);
+      if (b) blobs[id!] = await blobToDataUrl(b);
+    }
+    if (Object.keys(blobs).length) data.blobs = blobs;
+    downloadFile(`studiocast-backup-${new Date().toISOString().slice(0,10)}.json`, JSON.stringify(data, null, 2), "application/json");
+  };
+
+  const onPick = async (file?: File|null) => {
+    setError(""); setReport(null); setBundle(null); setFailedBlobs([]);
+    if (!file) return;
+    try { setBundle(parseBackup(await file.text())); setImportSecrets(false); }
+    catch (e: any) { setError(e?.message || String(e)); }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const preview = bundle ? applyBackup(workspace, bundle, mode, { includeSecrets: importSecrets, preferIncoming }) : null;
+
+  const apply = async () => {
+    if (!bundle || !preview) return;
+    const decoded = decodeBackupBlobs(bundle.blobs);
+    if (decoded.invalid.length) { setError(`Backup has unreadable files: ${decoded.invalid.join(", ")}. Nothing was imported.`); return; }
+    if (mode === "replace" && !confirm("Replace ALL local users, projects, guests and settings with this backup?")) return;
+    setBusy(true);
+    const written = await Promise.all(decoded.blobs.map(([id, blob]) => putBlob(id, blob)));
+    setBusy(false);
+    onRestore(preview.next); setReport(preview); setBundle(null);
+    setFailedBlobs(decoded.blobs.filter((_, i) => !written[i]).map(([id]) => id));
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800">
+      <div className="font-semibold mb-2">Backup &amp; Restore</div>
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="grid gap-2 content-start">
+          <div className="text-sm text-slate-400">Download users, projects, guests, series counters and settings as one JSON file.</div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={exportSecrets} onChange={e=>setExportSecrets(e.target.checked)} className="accent-blue-500" />
+            <span>Include secrets (OpenAI key, sync token, password hashes, pending invites)</span>
+          </label>
+          {recordings.length > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={exportAudio} onChange={e=>setExportAudio(e.target.checked)} className="accent-blue-500" />
+              <span>Include audio recordings ({recordings.length} file{recordings.length===1?"":"s"}, {formatBytes(recordings.reduce((n, a)=>n + a.bytes, 0))})</span>
+            </label>
+          )}
+          <button onClick={doExport} className="justify-self-start px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500">Export Workspace</button>
+        </div>
+        <div className="grid gap-2 content-start">
+          <input type="file" ref={fileInputRef} accept="application/json,.json" onChange={e=>onPick(e.target.files?.[0])} className="hidden" />
+          <button onClick={()=>fileInputRef.current?.click()} className="justify-self-start px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Import Backup…</button>
+          {error && <div className="text-sm text-red-300">{error}</div>}
+          {bundle && preview && (
+            <div className="grid gap-2 text-sm">
+              <div className="text-slate-400">
+                Exported {new Date(bundle.exportedAt).toLocaleString()} · {bundle.data.users.length} users · {bundle.data.projects.length} projects · {bundle.data.guests.length} guests
+              </div>
+              <div className="flex gap-4">
+                {(["merge","replace"] as const).map(m=> (
+                  <label key={m} className="flex items-center gap-2 capitalize">
+                    <input type="radio" name="import-mode" checked={mode===m} onChange={()=>setMode(m)} className="accent-blue-500" />{m}
+                  </label>
+                ))}
+              </div>
+              {mode==="merge" && (
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={preferIncoming} onChange={e=>setPreferIncoming(e.target.checked)} className="accent-blue-500" />
+                  <span>On conflict, take the backup's version</span>
+                </label>
+              )}
+              {hasSecrets(bundle.data) && (
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={importSecrets} onChange={e=>setImportSecrets(e.target.checked)} className="accent-blue-500" />
+                  <span>Also import secrets from this backup (OpenAI key, passwords, invites)</span>
+                </label>
+              )}
+              <ConflictList conflicts={preview.conflicts} />
+              <div className="flex gap-2">
+                <button onClick={apply} disabled={busy} className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50">{busy ? "Writing files…" : `Apply ${mode==="merge"?`(${preview.added} new)`:""}`}</button>
+                <button onClick={()=>setBundle(null)} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">Cancel</button>
+              </div>
+            </div>
+          )}
+          {report && (
+            <div className="text-sm">
+              <div className="text-emerald-300">Imported {report.added} records{report.replaced ? `, replaced ${report.replaced}` : ""}.</div>
+              {failedBlobs.length > 0 && <div className="text-red-300">Could not store {failedBlobs.length} file{failedBlobs.length===1?"":"s"} (photos, artwork or audio): {failedBlobs.join(", ")}</div>}
+              <ConflictList conflicts={report.conflicts} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ConflictList({ conflicts }:{ conflicts: ImportConflict[] }){
+  if (conflicts.length === 0) return <div className="text-xs text-slate-400">No conflicts.</div>;
+  return (
+    <div className="text-xs grid gap-1 max-h-40 overflow-auto">
+      <div className="text-amber-300">{conflicts.length} conflict{conflicts.length===1?"":"s"} by id:</div>
+      {conflicts.map(c=> (
+        <div key={`${c.kind}-${c.id}`} className="px-2 py-1 rounded border border-amber-800/60 bg-amber-900/20 text-amber-200">
+          {c.kind} <span className="font-mono">{c.id}</span> · {c.label} — {c.reason}
+        </div>
+      ))}
     </div>
   );
 }